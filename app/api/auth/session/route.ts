@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api-errors';
+import { decodeSession, encodeSession, SESSION_COOKIE, SESSION_TTL_MS, signIn } from '@/lib/auth';
+import { authEnabled } from '@/lib/config';
+import { SessionResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const body: SessionResponse = {
+    authEnabled: authEnabled(),
+    user: authEnabled() ? decodeSession(request.cookies.get(SESSION_COOKIE)?.value) : null,
+  };
+  return NextResponse.json(body);
+}
+
+/** Signs in with a personal access token posted as `{ "token": "..." }`. */
+export async function POST(request: NextRequest) {
+  try {
+    if (!authEnabled()) {
+      return NextResponse.json({ error: 'Sign-in is turned off' }, { status: 400 });
+    }
+    const { token } = await request.json().catch(() => ({}));
+    if (typeof token !== 'string' || !token.trim()) {
+      return NextResponse.json({ error: 'token is required' }, { status: 400 });
+    }
+
+    const user = await signIn(token.trim());
+    const body: SessionResponse = { authEnabled: true, user };
+    const response = NextResponse.json(body);
+    response.cookies.set(SESSION_COOKIE, encodeSession(user), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error: any) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to sign in' },
+      { status: errorStatus(error) }
+    );
+  }
+}
+
+export async function DELETE() {
+  const body: SessionResponse = { authEnabled: authEnabled(), user: null };
+  const response = NextResponse.json(body);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api-errors';
+import { currentUser, requireAdmin, SESSION_COOKIE } from '@/lib/auth';
+import { checkBudgets } from '@/lib/budgets';
+import { authenticatedOrganizationId, createClient } from '@/lib/ona';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    const client = createClient();
+    if (!client) {
+      return NextResponse.json(
+        { error: 'ONA_PAT environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    // Budgets cover the whole organization, so only its admins see them.
+    if (user) {
+      requireAdmin(user, await authenticatedOrganizationId(client));
+    }
+
+    // Alerts are left to the background monitor, so loading the page never sends one.
+    return NextResponse.json(await checkBudgets(client));
+  } catch (error: any) {
+    console.error('Error evaluating budgets:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to evaluate budgets' },
+      { status: errorStatus(error) }
+    );
+  }
+}
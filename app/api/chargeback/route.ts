@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api-errors';
+import { currentUser, requireAdmin, SESSION_COOKIE } from '@/lib/auth';
+import { allocateChargeback, renderChargebackStatement } from '@/lib/chargeback';
+import { defaultTimeZone, loadCostCenters } from '@/lib/config';
+import { resolveMonth, resolveRangeParams } from '@/lib/date-ranges';
+import { createClient } from '@/lib/ona';
+import { fetchOrganizationUsage } from '@/lib/organizations';
+import { ALL_ORGANIZATIONS } from '@/lib/view-state';
+
+export const dynamic = 'force-dynamic';
+
+const CHARGEBACK_FORMATS = ['json', 'html'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    const searchParams = request.nextUrl.searchParams;
+    const month = searchParams.get('month');
+    const format = searchParams.get('format') || 'json';
+    const timeZone = searchParams.get('timezone') || defaultTimeZone();
+    // A statement covers a calendar month; the dashboard asks for its current range.
+    const window = month ? resolveMonth(month, timeZone) : resolveRangeParams(searchParams, timeZone).window;
+
+    if (!CHARGEBACK_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${CHARGEBACK_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!createClient()) {
+      return NextResponse.json(
+        { error: 'ONA_PAT environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    // Chargeback splits everyone's usage, so it needs an admin of every
+    // organization it may cover, checked before anything is fetched.
+    const organizationId = searchParams.get('organizationId');
+    const organizationIds = organizationId === ALL_ORGANIZATIONS
+      ? Object.keys(user?.roles || {})
+      : [organizationId || user?.organizationId || null];
+    organizationIds.forEach(id => requireAdmin(user, id));
+
+    const data = await fetchOrganizationUsage({ ...window, organizationId, timeZone }, user);
+
+    const chargeback = allocateChargeback(data, loadCostCenters());
+    if (format === 'json') {
+      return NextResponse.json(chargeback);
+    }
+    const filename = `ona-chargeback-${month || `${window.startTime.slice(0, 10)}-${window.endTime.slice(0, 10)}`}.html`;
+    return new NextResponse(renderChargebackStatement(chargeback), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error building chargeback:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to build chargeback' },
+      { status: errorStatus(error) }
+    );
+  }
+}
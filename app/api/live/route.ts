@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api-errors';
+import { AuthenticationError, currentUser, SESSION_COOKIE } from '@/lib/auth';
+import { createUserEventFilter, getLiveHub } from '@/lib/live';
+import { authenticatedOrganizationId, createClient } from '@/lib/ona';
+import { LiveEvent } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15 * 1000;
+
+export async function GET(request: NextRequest) {
+  const hub = getLiveHub();
+  const client = createClient();
+  if (!hub || !client) {
+    return NextResponse.json(
+      { error: 'ONA_PAT environment variable is not set' },
+      { status: 500 }
+    );
+  }
+
+  // Admins see every running environment, members only their own.
+  let visible = (event: LiveEvent): LiveEvent | null => event;
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    if (user) {
+      const role = user.roles[(await authenticatedOrganizationId(client)) || ''];
+      if (!role) {
+        return NextResponse.json({ error: 'You are not a member of this organization' }, { status: 403 });
+      }
+      if (role === 'member') {
+        visible = createUserEventFilter(user.userId);
+      }
+    }
+  } catch (error: any) {
+    if (!(error instanceof AuthenticationError)) {
+      console.error('Error checking live access:', error);
+    }
+    return NextResponse.json(
+      { error: error.message || 'Failed to check access' },
+      { status: errorStatus(error) }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send('retry: 5000\n\n');
+      const unsubscribe = hub.subscribe((event: LiveEvent) => {
+        const shown = visible(event);
+        if (shown) {
+          send(`data: ${JSON.stringify(shown)}\n\n`);
+        }
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed.
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
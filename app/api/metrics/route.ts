@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api-errors';
+import {
+  AuthenticationError,
+  currentUser,
+  matchesBearerToken,
+  requireAdmin,
+  SESSION_COOKIE,
+} from '@/lib/auth';
+import { metricsToken } from '@/lib/config';
+import { getMetricsCollector, MetricFormat, renderMetrics } from '@/lib/metrics';
+import { authenticatedOrganizationId, createClient } from '@/lib/ona';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES: Record<MetricFormat, string> = {
+  prometheus: 'text/plain; version=0.0.4; charset=utf-8',
+  openmetrics: 'application/openmetrics-text; version=1.0.0; charset=utf-8',
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const client = createClient();
+    const collector = getMetricsCollector();
+    if (!client || !collector) {
+      return NextResponse.json(
+        { error: 'ONA_PAT environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    // Scrapers authenticate with ONA_METRICS_TOKEN; without one, the same rules as the dashboard apply.
+    const token = metricsToken();
+    if (token) {
+      if (!matchesBearerToken(request.headers.get('authorization'), token)) {
+        throw new AuthenticationError('A valid bearer token is required');
+      }
+    } else {
+      const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+      if (user) {
+        requireAdmin(user, await authenticatedOrganizationId(client));
+      }
+    }
+
+    const format: MetricFormat = request.headers.get('accept')?.includes('application/openmetrics-text')
+      ? 'openmetrics'
+      : 'prometheus';
+    return new NextResponse(renderMetrics(await collector.scrape(), format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error serving metrics:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to serve metrics' },
+      { status: errorStatus(error) }
+    );
+  }
+}
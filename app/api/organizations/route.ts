@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, authenticatedOrganizationId } from '@/lib/ona';
+import { errorStatus } from '@/lib/api-errors';
+import { currentUser, SESSION_COOKIE } from '@/lib/auth';
+import { listOrganizations } from '@/lib/organizations';
+import { OrganizationsResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    const client = createClient();
+    if (!client) {
+      return NextResponse.json(
+        { error: 'ONA_PAT environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    const [organizations, defaultOrganizationId] = await Promise.all([
+      listOrganizations(),
+      authenticatedOrganizationId(client),
+    ]);
+    const preferredId = process.env.ONA_ORGANIZATION_ID || defaultOrganizationId;
+    // Signed-in users only see their own organizations, with their role in each.
+    const body: OrganizationsResponse = user
+      ? {
+        organizations: organizations
+          .filter(organization => organization.organizationId in user.roles)
+          .map(organization => ({ ...organization, role: user.roles[organization.organizationId] })),
+        defaultOrganizationId: preferredId && preferredId in user.roles ? preferredId : user.organizationId,
+      }
+      : { organizations, defaultOrganizationId: preferredId };
+    return NextResponse.json(body);
+  } catch (error: any) {
+    console.error('Error fetching organizations:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch organizations' },
+      { status: errorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatedOrganizationId, createClient } from '@/lib/ona';
+import { errorStatus } from '@/lib/api-errors';
+import { currentUser, requireAdmin, SESSION_COOKIE } from '@/lib/auth';
+import { defaultTimeZone } from '@/lib/config';
+import { DateRangeError, isValidTimeZone, resolveRangeParams } from '@/lib/date-ranges';
+import { generateDigest, previousWeek } from '@/lib/reports';
+import { renderDigestHtml, renderDigestMarkdown } from '@/lib/digest';
+
+export const dynamic = 'force-dynamic';
+
+const DIGEST_FORMATS = ['html', 'markdown', 'json'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get('format') || 'html';
+    const timeZone = searchParams.get('timezone') || defaultTimeZone();
+    if (!isValidTimeZone(timeZone)) {
+      throw new DateRangeError(`Unknown timezone: ${timeZone}`);
+    }
+    const window = searchParams.has('range') || searchParams.has('startTime') || searchParams.has('endTime')
+      ? resolveRangeParams(searchParams, timeZone).window
+      : previousWeek(new Date(), timeZone);
+
+    if (!DIGEST_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${DIGEST_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const client = createClient();
+    if (!client) {
+      return NextResponse.json(
+        { error: 'ONA_PAT environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    if (user) {
+      requireAdmin(user, await authenticatedOrganizationId(client));
+    }
+
+    const digest = await generateDigest(client, window, timeZone);
+    if (format === 'json') {
+      return NextResponse.json(digest);
+    }
+    return new NextResponse(format === 'markdown' ? renderDigestMarkdown(digest) : renderDigestHtml(digest), {
+      headers: {
+        'Content-Type': format === 'markdown' ? 'text/markdown; charset=utf-8' : 'text/html; charset=utf-8',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating digest:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to generate digest' },
+      { status: errorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api-errors';
+import { createClient } from '@/lib/ona';
+import { currentUser, SESSION_COOKIE } from '@/lib/auth';
+import { defaultTimeZone } from '@/lib/config';
+import { resolveRangeParams } from '@/lib/date-ranges';
+import { fetchOrganizationUsage } from '@/lib/organizations';
+import { parseFilters } from '@/lib/filters';
+import {
+  buildExportTable,
+  toCsv,
+  toNdjson,
+  EXPORT_FORMATS,
+  EXPORT_LEVELS,
+  ExportFormat,
+  ExportLevel,
+} from '@/lib/export';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    const searchParams = request.nextUrl.searchParams;
+    const organizationId = searchParams.get('organizationId');
+    const level = (searchParams.get('level') || 'user') as ExportLevel;
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    const attribution = searchParams.get('attribution') === 'split' ? 'split' : 'full';
+
+    const { window, timeZone } = resolveRangeParams(searchParams, defaultTimeZone());
+
+    if (!EXPORT_LEVELS.includes(level)) {
+      return NextResponse.json(
+        { error: `level must be one of ${EXPORT_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const client = createClient();
+    if (!client) {
+      return NextResponse.json(
+        { error: 'ONA_PAT environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    const data = await fetchOrganizationUsage({
+      ...window,
+      organizationId,
+      timeZone,
+      filters: parseFilters(searchParams),
+    }, user);
+    const table = buildExportTable(level, data, {
+      window,
+      now: new Date(data.asOf),
+      rateCard: data.rateCard,
+    }, attribution);
+
+    const body = format === 'csv'
+      ? toCsv(table)
+      : format === 'ndjson'
+        ? toNdjson(table)
+        : JSON.stringify({
+          level,
+          startTime: window.startTime,
+          endTime: window.endTime,
+          timeZone,
+          asOf: data.asOf,
+          currency: data.rateCard.currency,
+          accounting: data.accounting,
+          rows: table.rows,
+        });
+
+    const filename = `ona-usage-${level}-${window.startTime.slice(0, 10)}-${window.endTime.slice(0, 10)}.${format}`;
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error exporting usage data:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to export usage data' },
+      { status: errorStatus(error) }
+    );
+  }
+}
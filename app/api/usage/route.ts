@@ -1,73 +1,81 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Gitpod from '@gitpod/sdk';
+import { errorStatus } from '@/lib/api-errors';
+import { createClient } from '@/lib/ona';
+import { currentUser, SESSION_COOKIE } from '@/lib/auth';
+import { defaultTimeZone } from '@/lib/config';
+import { resolveRangeParams } from '@/lib/date-ranges';
+import { fetchOrganizationUsage } from '@/lib/organizations';
+import { parseFilters } from '@/lib/filters';
+import { UsageStreamEvent } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
     const searchParams = request.nextUrl.searchParams;
-    const startTime = searchParams.get('startTime');
-    const endTime = searchParams.get('endTime');
     const organizationId = searchParams.get('organizationId');
+    const { window, timeZone } = resolveRangeParams(searchParams, defaultTimeZone());
 
-    if (!startTime || !endTime) {
-      return NextResponse.json(
-        { error: 'startTime and endTime are required' },
-        { status: 400 }
-      );
-    }
-
-    const pat = process.env.ONA_PAT;
-    if (!pat) {
+    const client = createClient();
+    if (!client) {
       return NextResponse.json(
         { error: 'ONA_PAT environment variable is not set' },
         { status: 500 }
       );
     }
 
-    const client = new Gitpod({
-      bearerToken: pat,
-    });
+    const query = {
+      ...window,
+      organizationId,
+      timeZone,
+      filters: parseFilters(searchParams),
+    };
+    if (!request.headers.get('accept')?.includes('application/x-ndjson')) {
+      return NextResponse.json(await fetchOrganizationUsage(query, user));
+    }
 
-    const usageRecords = [];
-    for await (const record of client.usage.listEnvironmentRuntimeRecords({
-      filter: {
-        dateRange: {
-          startTime,
-          endTime,
-        },
+    // Stream lookups, progress and records as they arrive, one JSON event per line.
+    const aborted = new AbortController();
+    request.signal?.addEventListener('abort', () => aborted.abort());
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (event: UsageStreamEvent) => {
+          if (!closed && !aborted.signal.aborted) {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          }
+        };
+        send({ type: 'start', window, timeZone });
+        fetchOrganizationUsage({ ...query, onEvent: send, signal: aborted.signal }, user)
+          .then(({ usageRecords, ...data }) => send({ type: 'result', data }))
+          .catch((error: any) => {
+            if (!aborted.signal.aborted) {
+              console.error('Error streaming usage data:', error);
+              send({ type: 'error', error: error.message || 'Failed to fetch usage data', status: errorStatus(error) });
+            }
+          })
+          .finally(() => {
+            if (!aborted.signal.aborted) {
+              closed = true;
+              controller.close();
+            }
+          });
       },
-      pagination: {
-        pageSize: 100,
+      cancel() {
+        aborted.abort();
+      },
+    });
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
       },
-    })) {
-      usageRecords.push(record);
-    }
-
-    let members: any[] = [];
-    const orgId = organizationId || process.env.ONA_ORGANIZATION_ID;
-    if (orgId) {
-      try {
-        for await (const member of client.organizations.listMembers({
-          organizationId: orgId,
-          pagination: {
-            pageSize: 100,
-          },
-        })) {
-          members.push(member);
-        }
-      } catch (error) {
-        console.error('Error fetching organization members:', error);
-      }
-    }
-
-    return NextResponse.json({
-      usageRecords,
-      members,
     });
   } catch (error: any) {
     console.error('Error fetching usage data:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch usage data' },
-      { status: 500 }
+      { status: errorStatus(error) }
     );
   }
 }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toApiError } from '@/lib/api-errors';
+import { currentUser, SESSION_COOKIE } from '@/lib/auth';
+import { defaultTimeZone } from '@/lib/config';
+import { resolveRangeParams } from '@/lib/date-ranges';
+import { parseFilters } from '@/lib/filters';
+import { createClient } from '@/lib/ona';
+import { fetchOrganizationUsage } from '@/lib/organizations';
+import { buildSummary, parseSummaryParams } from '@/lib/summary';
+
+export const dynamic = 'force-dynamic';
+
+/** Aggregated usage for scripts and other consumers; see "Summary API" in the README. */
+export async function GET(request: NextRequest) {
+  try {
+    const user = currentUser(request.cookies.get(SESSION_COOKIE)?.value);
+    const searchParams = request.nextUrl.searchParams;
+    const { window, timeZone } = resolveRangeParams(searchParams, defaultTimeZone());
+    const query = parseSummaryParams(searchParams);
+    const filters = parseFilters(searchParams);
+    if (!createClient()) {
+      throw new Error('ONA_PAT environment variable is not set');
+    }
+
+    const data = await fetchOrganizationUsage({
+      ...window,
+      organizationId: searchParams.get('organizationId'),
+      timeZone,
+      filters,
+    }, user);
+    return NextResponse.json(buildSummary(data, query, filters));
+  } catch (error) {
+    const { status, body } = toApiError(error);
+    if (status >= 500) {
+      console.error('Error building usage summary:', error);
+    }
+    return NextResponse.json(body, { status });
+  }
+}
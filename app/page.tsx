@@ -1,139 +1,838 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { aggregateByUser, aggregateByEnvironment } from '@/lib/aggregation';
-import { UsageRecord, Member, UserUsage, EnvironmentUsage, GroupBy } from '@/lib/types';
-
-type DateRange = 'today' | 'yesterday' | '7d' | '30d' | '6m' | '12m' | 'custom';
+import { useState, useEffect, useRef } from 'react';
+import {
+  aggregateByUser,
+  aggregateByEnvironment,
+  aggregateByProject,
+  aggregateByEnvironmentClass,
+  aggregateByRunner,
+  aggregateByRepository,
+  aggregateByTeam,
+  aggregateTimeSeries,
+  seriesKeyForGroupBy,
+  totalsByGroup,
+  comparePeriods,
+  OTHER_SERIES_KEY,
+  UNASSIGNED_PROJECT_ID,
+  UNKNOWN_ENVIRONMENT_CLASS_ID,
+  UNKNOWN_RUNNER_ID,
+  NO_TEAM_ID,
+  NO_REPOSITORY_ID,
+} from '@/lib/aggregation';
+import { DEFAULT_RATE_CARD, formatCost } from '@/lib/pricing';
+import { DEFAULT_ANOMALY_THRESHOLDS, detectAnomalies } from '@/lib/anomalies';
+import { UNMAPPED_COST_CENTER_ID } from '@/lib/chargeback';
+import { filterUsageRecords, filtersToParams, hasFilters, normalizeEmailDomain } from '@/lib/filters';
+import type { ExportFormat, ExportLevel } from '@/lib/export';
+import { addMonths, calendarDateOf, DateRange, formatCalendarDate, localTimeZone } from '@/lib/date-ranges';
+import {
+  ALL_ORGANIZATIONS,
+  DEFAULT_GRANULARITY,
+  CompareMode,
+  ComparisonSort,
+  ViewState,
+  parseViewState,
+  serializeViewState,
+} from '@/lib/view-state';
+import {
+  UsageRecord,
+  Member,
+  Project,
+  EnvironmentClass,
+  Runner,
+  Team,
+  EnvironmentInfo,
+  TeamAttribution,
+  RateCard,
+  UserUsage,
+  EnvironmentUsage,
+  ProjectUsage,
+  EnvironmentClassUsage,
+  RunnerUsage,
+  RepositoryUsage,
+  TeamUsage,
+  GroupBy,
+  Granularity,
+  TimeSeries,
+  ComparisonRow,
+  TimeWindow,
+  UsageFilters,
+  Anomaly,
+  AnomalyKind,
+  RunningEnvironment,
+  LiveEvent,
+  AccountingSummary,
+  SyncStatus,
+  UsageResponse,
+  UsageProgress,
+  UsageStreamEvent,
+  UsageWarning,
+  Organization,
+  OrganizationsResponse,
+  SessionResponse,
+  BudgetResponse,
+  BudgetState,
+  ChargebackResponse,
+} from '@/lib/types';
 
 interface CacheEntry {
-  usageRecords: UsageRecord[];
-  members: Member[];
+  data: UsageResponse;
   timestamp: number;
 }
 
+/** What the usage stream has delivered so far; shown while the rest loads. */
+type PartialUsage = Pick<
+  UsageResponse,
+  'window' | 'timeZone' | 'usageRecords' | 'members' | 'projects' | 'environmentClasses' | 'runners' | 'teams'
+>;
+
+type LoadProgress = Omit<UsageProgress, 'organizationId'>;
+
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const PARTIAL_UPDATE_INTERVAL = 300;
+const TOP_N = 5;
+
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = { top: 10, right: 10, bottom: 30, left: 50 };
+const SERIES_COLORS = ['#1F53FF', '#1EA41D', '#FF8A00', '#9B51E0', '#E0245E', '#00A3BF', '#8C6D1F', '#5C6BC0'];
+const OTHER_SERIES_COLOR = '#B0B0B0';
+
+const BUDGET_STATE_COLORS: Record<BudgetState, string> = {
+  ok: '#1EA41D',
+  warning: '#FF8A00',
+  exceeded: '#c00',
+};
+
+const GRANULARITY_OPTIONS: { value: Granularity; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+const GROUP_BY_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: 'user', label: 'User' },
+  { value: 'environment', label: 'Environment' },
+  { value: 'repository', label: 'Repository' },
+  { value: 'project', label: 'Project' },
+  { value: 'environmentClass', label: 'Environment Class' },
+  { value: 'runner', label: 'Runner' },
+  { value: 'team', label: 'Team' },
+];
+
+const DATE_RANGE_OPTIONS: { value: DateRange; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: '7d', label: '7 Days' },
+  { value: '30d', label: '30 Days' },
+  { value: 'thisMonth', label: 'This Month' },
+  { value: 'lastMonth', label: 'Last Month' },
+  { value: 'lastQuarter', label: 'Last Quarter' },
+  { value: '6m', label: '6 Months' },
+  { value: '12m', label: '12 Months' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+function windowParams(window: TimeWindow): URLSearchParams {
+  return new URLSearchParams({ startTime: window.startTime, endTime: window.endTime });
+}
+
+const COMPARE_OPTIONS: { value: CompareMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'previous', label: 'Previous Period' },
+  { value: 'custom', label: 'Custom Baseline' },
+];
+
+const COMPARISON_SORT_OPTIONS: { value: ComparisonSort; label: string }[] = [
+  { value: 'change', label: 'Biggest change' },
+  { value: 'percent', label: 'Biggest % change' },
+  { value: 'current', label: 'Current hours' },
+];
+
+const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  longSession: 'Long session',
+  offHours: 'Off-hours',
+  usageSpike: 'Usage spike',
+};
+const ANOMALY_LIMIT = 10;
+
+const LIVE_CLOCK_INTERVAL = 30 * 1000;
+
+const TEAM_ATTRIBUTION_OPTIONS: { value: TeamAttribution; label: string }[] = [
+  { value: 'full', label: 'Count in each team' },
+  { value: 'split', label: 'Split evenly' },
+];
 
 export default function Dashboard() {
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  const [signInToken, setSignInToken] = useState('');
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [organizationId, setOrganizationId] = useState('');
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [defaultOrganizationId, setDefaultOrganizationId] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<DateRange>('7d');
+  const [timeZone, setTimeZone] = useState('');
+  const [resolvedTimeZone, setResolvedTimeZone] = useState<string | null>(null);
+  const [browserTimeZone, setBrowserTimeZone] = useState<string | null>(null);
   const [customStartDate, setCustomStartDate] = useState('');
   const [customEndDate, setCustomEndDate] = useState('');
   const [groupBy, setGroupBy] = useState<GroupBy>('user');
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [teamAttribution, setTeamAttribution] = useState<TeamAttribution>('full');
+  const [filters, setFilters] = useState<UsageFilters>({});
+  const [filterText, setFilterText] = useState({ search: '', emailDomain: '', minHours: '' });
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [baselineStartDate, setBaselineStartDate] = useState('');
+  const [baselineEndDate, setBaselineEndDate] = useState('');
+  const [comparisonSort, setComparisonSort] = useState<ComparisonSort>('change');
   const [loading, setLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const usageRequest = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [filteredRecords, setFilteredRecords] = useState<UsageRecord[]>([]);
   const [members, setMembers] = useState<Member[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [environmentClasses, setEnvironmentClasses] = useState<EnvironmentClass[]>([]);
+  const [runners, setRunners] = useState<Runner[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [environments, setEnvironments] = useState<EnvironmentInfo[]>([]);
+  const [rateCard, setRateCard] = useState<RateCard>(DEFAULT_RATE_CARD);
+  const [accountingWindow, setAccountingWindow] = useState<TimeWindow | null>(null);
+  const [accounting, setAccounting] = useState<AccountingSummary | null>(null);
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [warnings, setWarnings] = useState<UsageWarning[]>([]);
   const [userUsages, setUserUsages] = useState<UserUsage[]>([]);
   const [envUsages, setEnvUsages] = useState<EnvironmentUsage[]>([]);
+  const [projectUsages, setProjectUsages] = useState<ProjectUsage[]>([]);
+  const [classUsages, setClassUsages] = useState<EnvironmentClassUsage[]>([]);
+  const [runnerUsages, setRunnerUsages] = useState<RunnerUsage[]>([]);
+  const [repositoryUsages, setRepositoryUsages] = useState<RepositoryUsage[]>([]);
+  const [teamUsages, setTeamUsages] = useState<TeamUsage[]>([]);
+  const [timeSeries, setTimeSeries] = useState<TimeSeries | null>(null);
+  const [budgets, setBudgets] = useState<BudgetResponse | null>(null);
+  const [chargeback, setChargeback] = useState<ChargebackResponse | null>(null);
+  const [statementMonth, setStatementMonth] = useState('');
+  const statementMonthPicked = useRef(false);
+  const [baseline, setBaseline] = useState<{ data: UsageResponse; window: TimeWindow } | null>(null);
+  const [comparisonRows, setComparisonRows] = useState<ComparisonRow[]>([]);
+  const [trailing, setTrailing] = useState<{ data: UsageResponse; window: TimeWindow } | null>(null);
+  const [maxSessionHours, setMaxSessionHours] = useState(DEFAULT_ANOMALY_THRESHOLDS.maxSessionHours);
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [showAllAnomalies, setShowAllAnomalies] = useState(false);
+  const [runningEnvironments, setRunningEnvironments] = useState<Map<string, RunningEnvironment>>(new Map());
+  const [liveStatus, setLiveStatus] = useState<{ connected: boolean; error?: string }>({ connected: false });
+  const [liveNow, setLiveNow] = useState(Date.now());
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [cache, setCache] = useState<Map<string, CacheEntry>>(new Map());
+  const [viewStateLoaded, setViewStateLoaded] = useState(false);
 
-  const getDateRangeValues = (): { startTime: string; endTime: string } => {
-    const now = new Date();
-    const endTime = now.toISOString();
-    let startTime: string;
+  const signedIn = !!session && (!session.authEnabled || !!session.user);
+  const sessionUser = session?.user || null;
+  const viewedOrganizationIds = !sessionUser
+    ? []
+    : organizationId === ALL_ORGANIZATIONS
+      ? Object.keys(sessionUser.roles)
+      : [organizationId || defaultOrganizationId || sessionUser.organizationId];
+  // Members get a personal view: the server only returns their own usage.
+  const personalView = viewedOrganizationIds.some(id => sessionUser?.roles[id] !== 'admin');
 
-    switch (dateRange) {
-      case 'today':
-        startTime = new Date(now.setHours(0, 0, 0, 0)).toISOString();
-        break;
-      case 'yesterday':
-        const yesterday = new Date(now);
-        yesterday.setDate(yesterday.getDate() - 1);
-        yesterday.setHours(0, 0, 0, 0);
-        startTime = yesterday.toISOString();
-        break;
-      case '7d':
-        startTime = new Date(now.setDate(now.getDate() - 7)).toISOString();
-        break;
-      case '30d':
-        startTime = new Date(now.setDate(now.getDate() - 30)).toISOString();
-        break;
-      case '6m':
-        startTime = new Date(now.setMonth(now.getMonth() - 6)).toISOString();
-        break;
-      case '12m':
-        startTime = new Date(now.setMonth(now.getMonth() - 12)).toISOString();
-        break;
-      case 'custom':
-        if (!customStartDate || !customEndDate) {
-          throw new Error('Custom date range requires both start and end dates');
-        }
-        startTime = new Date(customStartDate).toISOString();
-        return {
-          startTime,
-          endTime: new Date(customEndDate).toISOString(),
+  const submitSignIn = async () => {
+    setSigningIn(true);
+    setSignInError(null);
+    try {
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: signInToken }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign in');
+      }
+      setSignInToken('');
+      setSession(data);
+    } catch (err: any) {
+      setSignInError(err.message);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  // Reload so that nothing of the previous user's data stays in memory.
+  const signOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    window.location.reload();
+  };
+
+  const applyViewState = (state: ViewState) => {
+    setOrganizationId(state.organizationId);
+    setDateRange(state.dateRange);
+    setTimeZone(state.timeZone);
+    setCustomStartDate(state.customStartDate);
+    setCustomEndDate(state.customEndDate);
+    setGroupBy(state.groupBy);
+    setGranularity(state.granularity);
+    setTeamAttribution(state.teamAttribution);
+    setFilters(state.filters);
+    setCompareMode(state.compareMode);
+    setBaselineStartDate(state.baselineStartDate);
+    setBaselineEndDate(state.baselineEndDate);
+    setComparisonSort(state.comparisonSort);
+    setExpandedRows(new Set(state.expandedRows));
+  };
+
+  const currentViewState = (): ViewState => ({
+    organizationId,
+    dateRange,
+    timeZone,
+    customStartDate,
+    customEndDate,
+    groupBy,
+    granularity,
+    teamAttribution,
+    filters,
+    compareMode,
+    baselineStartDate,
+    baselineEndDate,
+    comparisonSort,
+    expandedRows: Array.from(expandedRows),
+  });
+
+  // Filters and expanded rows refer to IDs of the previous organization.
+  const selectOrganization = (id: string) => {
+    setOrganizationId(id === defaultOrganizationId ? '' : id);
+    setFilters({});
+    setExpandedRows(new Set());
+  };
+
+  const selectDateRange = (range: DateRange) => {
+    setDateRange(range);
+    setGranularity(DEFAULT_GRANULARITY[range]);
+  };
+
+  // The server resolves ranges, so everyone opening the same link gets the same window.
+  const getRangeParams = (): URLSearchParams => {
+    const params = new URLSearchParams({ range: dateRange });
+    if (dateRange === 'custom') {
+      params.set('from', customStartDate);
+      params.set('to', customEndDate);
+    }
+    if (timeZone) {
+      params.set('timezone', timeZone);
+    }
+    return params;
+  };
+
+  const applyUsageData = (data: UsageResponse, window: TimeWindow) => {
+    setUsageRecords(data.usageRecords);
+    setMembers(data.members);
+    setProjects(data.projects);
+    setEnvironmentClasses(data.environmentClasses);
+    setRunners(data.runners);
+    setTeams(data.teams);
+    setEnvironments(data.environments);
+    setRateCard(data.rateCard);
+    setAccountingWindow(window);
+    setResolvedTimeZone(data.timeZone);
+    setAccounting(data.accounting);
+    setAsOf(data.asOf);
+    setSyncStatus(data.sync);
+    setWarnings(data.warnings);
+  };
+
+  const getBaselineRangeParams = (current: TimeWindow): URLSearchParams => {
+    if (compareMode === 'custom') {
+      if (!baselineStartDate || !baselineEndDate) {
+        throw new Error('Custom baseline requires both start and end dates');
+      }
+      const params = new URLSearchParams({ range: 'custom', from: baselineStartDate, to: baselineEndDate });
+      if (timeZone) {
+        params.set('timezone', timeZone);
+      }
+      return params;
+    }
+
+    const start = new Date(current.startTime).getTime();
+    const end = new Date(current.endTime).getTime();
+    return windowParams({
+      startTime: new Date(start - (end - start)).toISOString(),
+      endTime: current.startTime,
+    });
+  };
+
+  const applyPartialUsage = (partial: PartialUsage) => {
+    setUsageRecords(partial.usageRecords);
+    setMembers(partial.members);
+    setProjects(partial.projects);
+    setEnvironmentClasses(partial.environmentClasses);
+    setRunners(partial.runners);
+    setTeams(partial.teams);
+    setAccountingWindow(partial.window);
+    setResolvedTimeZone(partial.timeZone);
+  };
+
+  /**
+   * Reads the NDJSON usage stream, passing what has arrived so far to
+   * `onPartial` at most every PARTIAL_UPDATE_INTERVAL.
+   */
+  const readUsageStream = async (
+    response: Response,
+    onPartial?: (partial: PartialUsage, progress: LoadProgress) => void
+  ): Promise<UsageResponse> => {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const progress = new Map<string, UsageProgress>();
+    let partial: PartialUsage | null = null;
+    let result: UsageResponse | null = null;
+    let buffer = '';
+    let updatedAt = 0;
+
+    const handle = (event: UsageStreamEvent) => {
+      if (event.type === 'start') {
+        partial = {
+          window: event.window,
+          timeZone: event.timeZone,
+          usageRecords: [],
+          members: [],
+          projects: [],
+          environmentClasses: [],
+          runners: [],
+          teams: [],
+        };
+      } else if (event.type === 'lookups' && partial) {
+        partial = {
+          ...partial,
+          members: [...partial.members, ...event.members],
+          environmentClasses: [...partial.environmentClasses, ...event.environmentClasses],
+          runners: [...partial.runners, ...event.runners],
+          teams: [...partial.teams, ...event.teams],
+        };
+      } else if (event.type === 'records' && partial) {
+        partial = {
+          ...partial,
+          usageRecords: [...partial.usageRecords, ...event.records],
+          projects: [...partial.projects, ...event.projects],
         };
-      default:
-        startTime = new Date(now.setDate(now.getDate() - 7)).toISOString();
+      } else if (event.type === 'progress') {
+        progress.set(event.progress.organizationId, event.progress);
+      } else if (event.type === 'result') {
+        result = { ...event.data, usageRecords: partial?.usageRecords || [] };
+      } else if (event.type === 'error') {
+        if (event.status === 401) {
+          setSession(prev => prev && { ...prev, user: null });
+        }
+        throw new Error(event.error);
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.filter(line => line.trim()).forEach(line => handle(JSON.parse(line)));
+      if (done) {
+        break;
+      }
+      if (onPartial && partial && Date.now() - updatedAt >= PARTIAL_UPDATE_INTERVAL) {
+        updatedAt = Date.now();
+        const totals = Array.from(progress.values());
+        onPartial(partial, {
+          completedChunks: totals.reduce((sum, entry) => sum + entry.completedChunks, 0),
+          totalChunks: totals.reduce((sum, entry) => sum + entry.totalChunks, 0),
+          fetchedRecords: totals.reduce((sum, entry) => sum + entry.fetchedRecords, 0),
+        });
+      }
+    }
+    if (!result) {
+      throw new Error('Usage data stream ended unexpectedly');
+    }
+    return result;
+  };
+
+  const loadUsage = async (
+    range: URLSearchParams,
+    signal?: AbortSignal,
+    onPartial?: (partial: PartialUsage, progress: LoadProgress) => void
+  ): Promise<UsageResponse> => {
+    const params = new URLSearchParams(range);
+    if (organizationId) {
+      params.set('organizationId', organizationId);
+    }
+    const cacheKey = params.toString();
+    const cachedData = cache.get(cacheKey);
+    const now = Date.now();
+
+    if (cachedData && (now - cachedData.timestamp) < CACHE_DURATION) {
+      return cachedData.data;
+    }
+
+    const response = await fetch(`/api/usage?${params.toString()}`, {
+      headers: { Accept: 'application/x-ndjson' },
+      signal,
+    });
+
+    if (response.status === 401) {
+      setSession(prev => prev && { ...prev, user: null });
+    }
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch usage data');
     }
 
-    return { startTime, endTime };
+    const data = await readUsageStream(response, onPartial);
+    // Incomplete data is fetched again next time.
+    if (data.warnings.length === 0) {
+      setCache(prev => new Map(prev).set(cacheKey, {
+        data,
+        timestamp: now,
+      }));
+    }
+    return data;
   };
 
+  // A newer range or organization replaces the request still in flight.
   const fetchUsageData = async () => {
+    usageRequest.current?.abort();
+    const request = new AbortController();
+    usageRequest.current = request;
     setLoading(true);
+    setLoadProgress(null);
     setError(null);
+    setUsageRecords([]);
+    setEnvironments([]);
+    setAsOf(null);
+    setWarnings([]);
 
     try {
-      const { startTime, endTime } = getDateRangeValues();
-      
-      const cacheKey = `${startTime}-${endTime}`;
-      const cachedData = cache.get(cacheKey);
-      const now = Date.now();
-
-      if (cachedData && (now - cachedData.timestamp) < CACHE_DURATION) {
-        setUsageRecords(cachedData.usageRecords);
-        setMembers(cachedData.members);
+      const data = await loadUsage(getRangeParams(), request.signal, (partial, progress) => {
+        if (!request.signal.aborted) {
+          applyPartialUsage(partial);
+          setLoadProgress(progress);
+        }
+      });
+      if (!request.signal.aborted) {
+        applyUsageData(data, data.window);
+      }
+    } catch (err: any) {
+      if (!request.signal.aborted) {
+        setError(err.message);
+      }
+    } finally {
+      if (usageRequest.current === request) {
+        usageRequest.current = null;
         setLoading(false);
-        return;
+        setLoadProgress(null);
       }
+    }
+  };
+
+  useEffect(() => () => usageRequest.current?.abort(), []);
+
+  useEffect(() => {
+    const readUrl = () => parseViewState(new URLSearchParams(window.location.search));
+    const initial = readUrl();
+    applyViewState(initial);
+    const query = serializeViewState(initial).toString();
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+    setBrowserTimeZone(localTimeZone());
+    setViewStateLoaded(true);
+
+    const onPopState = () => applyViewState(readUrl());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  useEffect(() => {
+    if (!viewStateLoaded) {
+      return;
+    }
+    const query = serializeViewState(currentViewState()).toString();
+    if (query !== window.location.search.replace(/^\?/, '')) {
+      window.history.pushState(null, '', query ? `?${query}` : window.location.pathname);
+    }
+  }, [viewStateLoaded, organizationId, dateRange, timeZone, customStartDate, customEndDate, groupBy, granularity, teamAttribution, filters, compareMode, baselineStartDate, baselineEndDate, comparisonSort, expandedRows]);
 
-      const params = new URLSearchParams({
-        startTime,
-        endTime,
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then((data: SessionResponse) => setSession(data))
+      .catch(err => {
+        console.error('Error fetching session:', err);
+        setSession({ authEnabled: true, user: null });
       });
+  }, []);
 
-      const response = await fetch(`/api/usage?${params.toString()}`);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch usage data');
+  useEffect(() => {
+    if (signedIn && viewStateLoaded && (dateRange !== 'custom' || (customStartDate && customEndDate))) {
+      fetchUsageData();
+    }
+  }, [signedIn, viewStateLoaded, organizationId, dateRange, timeZone, customStartDate, customEndDate]);
+
+  useEffect(() => {
+    if (!signedIn) {
+      return;
+    }
+    fetch('/api/organizations')
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: OrganizationsResponse | null) => {
+        if (data) {
+          setOrganizations(data.organizations);
+          setDefaultOrganizationId(data.defaultOrganizationId);
+        }
+      })
+      .catch(err => console.error('Error fetching organizations:', err));
+  }, [signedIn]);
+
+  useEffect(() => {
+    setBaseline(null);
+    if (loading || !accountingWindow || compareMode === 'off') {
+      return;
+    }
+    if (compareMode === 'custom' && (!baselineStartDate || !baselineEndDate)) {
+      return;
+    }
+
+    const request = new AbortController();
+    loadUsage(getBaselineRangeParams(accountingWindow), request.signal)
+      .then(data => !request.signal.aborted && setBaseline({ data, window: data.window }))
+      .catch(err => !request.signal.aborted && setError(err.message));
+    return () => request.abort();
+  }, [loading, accountingWindow, compareMode, baselineStartDate, baselineEndDate, timeZone]);
+
+  useEffect(() => {
+    if (!baseline || !accountingWindow) {
+      setComparisonRows([]);
+      return;
+    }
+
+    const lookups = {
+      members: [...baseline.data.members, ...members],
+      projects: [...baseline.data.projects, ...projects],
+      environmentClasses: [...baseline.data.environmentClasses, ...environmentClasses],
+      runners: [...baseline.data.runners, ...runners],
+      teams,
+      environments: [...baseline.data.environments, ...environments],
+    };
+    const seriesOf = seriesKeyForGroupBy(groupBy, lookups, teamAttribution);
+    const baselineOptions = {
+      window: baseline.window,
+      now: new Date(baseline.data.asOf),
+      rateCard,
+    };
+    const baselineRecords = filterUsageRecords(baseline.data.usageRecords, lookups, filters, baselineOptions);
+    const current = totalsByGroup(filteredRecords, seriesOf, {
+      window: accountingWindow,
+      now: asOf ? new Date(asOf) : new Date(),
+      rateCard,
+    });
+    const previous = totalsByGroup(baselineRecords, seriesOf, baselineOptions);
+    setComparisonRows(comparePeriods(current, previous));
+  }, [baseline, filteredRecords, filters, members, projects, environmentClasses, runners, teams, environments, teamAttribution, rateCard, groupBy, accountingWindow, asOf]);
+
+  useEffect(() => {
+    setTrailing(null);
+    if (loading || !accountingWindow) {
+      return;
+    }
+
+    const request = new AbortController();
+    const start = new Date(accountingWindow.startTime).getTime();
+    const window = {
+      startTime: new Date(start - DEFAULT_ANOMALY_THRESHOLDS.trailingDays * 24 * 60 * 60 * 1000).toISOString(),
+      endTime: accountingWindow.startTime,
+    };
+    loadUsage(windowParams(window), request.signal)
+      .then(data => !request.signal.aborted && setTrailing({ data, window }))
+      .catch(err => !request.signal.aborted && console.error('Error fetching trailing usage:', err));
+    return () => request.abort();
+  }, [loading, accountingWindow]);
+
+  useEffect(() => {
+    if (!accountingWindow) {
+      return;
+    }
+
+    const now = asOf ? new Date(asOf) : new Date();
+    const lookups = { members, projects, environmentClasses, runners, teams };
+    setAnomalies(detectAnomalies(filteredRecords, {
+      window: accountingWindow,
+      now,
+      rateCard,
+      members,
+      thresholds: { maxSessionHours },
+      timeZone: resolvedTimeZone || undefined,
+      trailing: trailing ? {
+        records: filterUsageRecords(trailing.data.usageRecords, lookups, filters, { window: trailing.window, now }),
+        window: trailing.window,
+      } : undefined,
+    }));
+  }, [filteredRecords, trailing, filters, members, projects, environmentClasses, runners, teams, rateCard, maxSessionHours, accountingWindow, asOf, resolvedTimeZone]);
+
+  useEffect(() => {
+    if (!signedIn) {
+      return;
+    }
+    const source = new EventSource('/api/live');
+    source.onmessage = (message) => {
+      const event: LiveEvent = JSON.parse(message.data);
+      if (event.type === 'snapshot') {
+        setRunningEnvironments(new Map(event.environments.map(environment => [environment.environmentId, environment])));
+      } else if (event.type === 'upsert') {
+        setRunningEnvironments(prev => new Map(prev).set(event.environment.environmentId, event.environment));
+      } else if (event.type === 'remove') {
+        setRunningEnvironments(prev => {
+          const next = new Map(prev);
+          next.delete(event.environmentId);
+          return next;
+        });
+      } else {
+        setLiveStatus({ connected: event.connected, error: event.error });
       }
+    };
+    // EventSource reconnects on its own; the server resyncs with a snapshot.
+    source.onerror = () => setLiveStatus({
+      connected: false,
+      error: source.readyState === EventSource.CLOSED ? 'Live updates unavailable' : 'Reconnecting…',
+    });
 
-      const data = await response.json();
-      setUsageRecords(data.usageRecords);
-      setMembers(data.members);
+    const clock = setInterval(() => setLiveNow(Date.now()), LIVE_CLOCK_INTERVAL);
+    return () => {
+      source.close();
+      clearInterval(clock);
+    };
+  }, [signedIn]);
 
-      const newCache = new Map(cache);
-      newCache.set(cacheKey, {
-        usageRecords: data.usageRecords,
-        members: data.members,
-        timestamp: now,
-      });
-      setCache(newCache);
-    } catch (err: any) {
-      setError(err.message);
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (!signedIn) {
+      return;
     }
-  };
+    fetch('/api/budgets')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setBudgets(data))
+      .catch(err => console.error('Error fetching budgets:', err));
+  }, [signedIn]);
 
+  // Chargeback splits everyone's usage, so members don't get it.
   useEffect(() => {
-    if (dateRange !== 'custom' || (customStartDate && customEndDate)) {
-      fetchUsageData();
+    setChargeback(null);
+    if (loading || !accountingWindow || personalView) {
+      return;
+    }
+    const params = windowParams(accountingWindow);
+    if (organizationId) {
+      params.set('organizationId', organizationId);
     }
-  }, [dateRange, customStartDate, customEndDate]);
+    if (resolvedTimeZone) {
+      params.set('timezone', resolvedTimeZone);
+    }
+
+    let cancelled = false;
+    fetch(`/api/chargeback?${params.toString()}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => !cancelled && setChargeback(data))
+      .catch(err => console.error('Error fetching chargeback:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, accountingWindow, organizationId, resolvedTimeZone, personalView]);
+
+  // Last month in the timezone the statement is requested in, until the user picks one.
+  useEffect(() => {
+    if (!resolvedTimeZone || statementMonthPicked.current) {
+      return;
+    }
+    const today = calendarDateOf(Date.now(), resolvedTimeZone);
+    setStatementMonth(formatCalendarDate(addMonths({ ...today, day: 1 }, -1)).slice(0, 7));
+  }, [resolvedTimeZone]);
+
+  useEffect(() => {
+    setFilterText({
+      search: filters.search || '',
+      emailDomain: filters.emailDomain || '',
+      minHours: filters.minHours ? String(filters.minHours) : '',
+    });
+  }, [filters]);
 
   useEffect(() => {
-    if (usageRecords.length > 0) {
+    if (!accountingWindow) {
+      return;
+    }
+    setFilteredRecords(filterUsageRecords(
+      usageRecords,
+      { members, projects, environmentClasses, runners, teams },
+      filters,
+      { window: accountingWindow, now: asOf ? new Date(asOf) : new Date() }
+    ));
+  }, [usageRecords, members, projects, environmentClasses, runners, teams, filters, accountingWindow, asOf]);
+
+  useEffect(() => {
+    if (accountingWindow) {
+      const options = {
+        window: accountingWindow,
+        now: asOf ? new Date(asOf) : new Date(),
+        rateCard,
+      };
       if (groupBy === 'user') {
-        setUserUsages(aggregateByUser(usageRecords, members));
+        setUserUsages(aggregateByUser(filteredRecords, members, options));
+      } else if (groupBy === 'project') {
+        setProjectUsages(aggregateByProject(filteredRecords, members, projects, options));
+      } else if (groupBy === 'environmentClass') {
+        setClassUsages(aggregateByEnvironmentClass(filteredRecords, members, environmentClasses, options));
+      } else if (groupBy === 'runner') {
+        setRunnerUsages(aggregateByRunner(filteredRecords, members, runners, options));
+      } else if (groupBy === 'repository') {
+        setRepositoryUsages(aggregateByRepository(filteredRecords, members, environments, options));
+      } else if (groupBy === 'team') {
+        setTeamUsages(aggregateByTeam(filteredRecords, members, teams, teamAttribution, options));
       } else {
-        setEnvUsages(aggregateByEnvironment(usageRecords, members));
+        setEnvUsages(aggregateByEnvironment(filteredRecords, members, options));
       }
     }
-  }, [usageRecords, members, groupBy]);
+  }, [filteredRecords, members, projects, environmentClasses, runners, teams, environments, teamAttribution, rateCard, groupBy, accountingWindow, asOf]);
+
+  useEffect(() => {
+    if (accountingWindow) {
+      const seriesOf = seriesKeyForGroupBy(
+        groupBy,
+        { members, projects, environmentClasses, runners, teams, environments },
+        teamAttribution
+      );
+      setTimeSeries(aggregateTimeSeries(filteredRecords, granularity, seriesOf, {
+        window: accountingWindow,
+        now: asOf ? new Date(asOf) : new Date(),
+        timeZone: resolvedTimeZone || undefined,
+      }));
+    }
+  }, [filteredRecords, members, projects, environmentClasses, runners, teams, environments, teamAttribution, groupBy, granularity, accountingWindow, asOf, resolvedTimeZone]);
+
+  const updateFilter = <K extends keyof UsageFilters>(key: K, value: UsageFilters[K]) => {
+    const next = { ...filters };
+    if (value === undefined || value === '') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    setFilters(next);
+  };
+
+  const applyFilterText = () => {
+    const minHours = Number(filterText.minHours);
+    const next: UsageFilters = { ...filters };
+    delete next.search;
+    delete next.emailDomain;
+    delete next.minHours;
+    if (filterText.search.trim()) next.search = filterText.search.trim();
+    if (normalizeEmailDomain(filterText.emailDomain)) next.emailDomain = normalizeEmailDomain(filterText.emailDomain);
+    if (Number.isFinite(minHours) && minHours > 0) next.minHours = minHours;
+    setFilters(next);
+  };
 
   const toggleRow = (id: string) => {
     const newExpanded = new Set(expandedRows);
@@ -149,16 +848,431 @@ export default function Dashboard() {
     return hours.toFixed(2);
   };
 
+  const formatMoney = (amount: number) => {
+    return formatCost(amount, rateCard.currency);
+  };
+
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
+    return new Date(dateString).toLocaleString(undefined, { timeZone: resolvedTimeZone || undefined });
+  };
+
+  const formatPercent = (share: number) => {
+    return `${(share * 100).toFixed(1)}%`;
+  };
+
+  const formatSigned = (value: number, format: (value: number) => string) => {
+    return `${value > 0 ? '+' : value < 0 ? '−' : ''}${format(Math.abs(value))}`;
+  };
+
+  const sortedComparisonRows = [...comparisonRows].sort((a, b) => {
+    if (comparisonSort === 'current') {
+      return b.currentHours - a.currentHours;
+    }
+    if (comparisonSort === 'percent') {
+      const percentOf = (row: ComparisonRow) => (row.deltaPercent === null ? Infinity : Math.abs(row.deltaPercent));
+      return percentOf(b) - percentOf(a);
+    }
+    return Math.abs(b.deltaHours) - Math.abs(a.deltaHours);
+  });
+
+  const formatEnumLabel = (value?: string) => {
+    if (!value) {
+      return '—';
+    }
+    return value
+      .replace(/^(RUNNER_(KIND|PROVIDER|PHASE)|ENVIRONMENT_PHASE)_/, '')
+      .toLowerCase()
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  };
+
+  const exportUrl = (level: ExportLevel, format: ExportFormat) => {
+    const params = new URLSearchParams({
+      startTime: accountingWindow!.startTime,
+      endTime: accountingWindow!.endTime,
+      level,
+      format,
+    });
+    if (level === 'team') {
+      params.set('attribution', teamAttribution);
+    }
+    if (organizationId) {
+      params.set('organizationId', organizationId);
+    }
+    if (resolvedTimeZone) {
+      params.set('timezone', resolvedTimeZone);
+    }
+    filtersToParams(filters, params);
+    return `/api/usage/export?${params.toString()}`;
+  };
+
+  const statementUrl = () => {
+    const params = new URLSearchParams({ month: statementMonth, format: 'html' });
+    if (organizationId) {
+      params.set('organizationId', organizationId);
+    }
+    if (resolvedTimeZone) {
+      params.set('timezone', resolvedTimeZone);
+    }
+    return `/api/chargeback?${params.toString()}`;
+  };
+
+  const renderViewLink = (label: string, overrides: Partial<ViewState>) => {
+    const state = { ...currentViewState(), expandedRows: [], ...overrides };
+    return (
+      <a
+        href={`?${serializeViewState(state).toString()}`}
+        onClick={(e) => {
+          e.preventDefault();
+          applyViewState(state);
+        }}
+        style={{ color: '#1F53FF' }}
+      >
+        {label}
+      </a>
+    );
+  };
+
+  const formatElapsed = (startedAt?: string) => {
+    if (!startedAt) {
+      return '—';
+    }
+    const minutes = Math.max(0, Math.floor((liveNow - new Date(startedAt).getTime()) / 60000));
+    const days = Math.floor(minutes / (24 * 60));
+    const hours = Math.floor((minutes % (24 * 60)) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+  };
+
+  const describeAnomaly = (anomaly: Anomaly) => {
+    switch (anomaly.kind) {
+      case 'longSession':
+        return `${anomaly.inProgress ? 'Running for' : 'Ran for'} ${formatHours(anomaly.hours)} hours`;
+      case 'offHours':
+        return `${formatHours(anomaly.hours)} hours outside working hours${anomaly.weekend ? ', including a weekend' : ''}`;
+      case 'usageSpike':
+        return `${formatHours(anomaly.hours)} hours/day vs. ${formatHours(anomaly.baselineHours || 0)} over the previous ${DEFAULT_ANOMALY_THRESHOLDS.trailingDays} days`;
+    }
+  };
+
+  const renderExportLink = (level: ExportLevel, format: ExportFormat, label: string) => (
+    <a
+      key={`${level}-${format}`}
+      href={exportUrl(level, format)}
+      download
+      style={{
+        padding: '0.25rem 0.75rem',
+        border: '1px solid #ccc',
+        borderRadius: '4px',
+        color: 'black',
+        textDecoration: 'none',
+        fontSize: '0.875rem',
+      }}
+    >
+      {label}
+    </a>
+  );
+
+  const formatBucketLabel = (startTime: string) => {
+    const date = new Date(startTime);
+    const zone = resolvedTimeZone || undefined;
+    return granularity === 'month'
+      ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: zone })
+      : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: zone });
+  };
+
+  const renderUsageChart = (series: TimeSeries) => {
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const maxHours = Math.max(...series.buckets.map(bucket => bucket.totalHours), 1);
+    const slotWidth = plotWidth / Math.max(series.buckets.length, 1);
+    const barWidth = Math.max(slotWidth * 0.8, 1);
+    const labelEvery = Math.ceil(series.buckets.length / 10);
+    const colorOf = (key: string, index: number) =>
+      key === OTHER_SERIES_KEY ? OTHER_SERIES_COLOR : SERIES_COLORS[index % SERIES_COLORS.length];
+
+    return (
+      <div style={{
+        border: '1px solid #e0e0e0',
+        borderRadius: '8px',
+        padding: '1rem',
+        marginBottom: '1rem'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <h3 style={{ margin: 0, fontWeight: '600' }}>Usage Over Time</h3>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            {GRANULARITY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setGranularity(option.value)}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  border: granularity === option.value ? '2px solid #1F53FF' : '1px solid #ccc',
+                  backgroundColor: granularity === option.value ? '#1F53FF' : 'white',
+                  color: granularity === option.value ? 'white' : 'black',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '0.875rem',
+                }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={{ width: '100%', height: 'auto' }}>
+          {[0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+            const y = CHART_PADDING.top + plotHeight * (1 - fraction);
+            return (
+              <g key={fraction}>
+                <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y} y2={y} stroke="#eee" />
+                <text x={CHART_PADDING.left - 6} y={y + 4} textAnchor="end" fontSize="11" fill="#666">
+                  {(maxHours * fraction).toFixed(maxHours < 10 ? 1 : 0)}h
+                </text>
+              </g>
+            );
+          })}
+          {series.buckets.map((bucket, bucketIndex) => {
+            const x = CHART_PADDING.left + slotWidth * bucketIndex + (slotWidth - barWidth) / 2;
+            let stackedHours = 0;
+            return (
+              <g key={bucket.startTime}>
+                {series.series.map((entry, seriesIndex) => {
+                  const hours = bucket.values[entry.key] || 0;
+                  if (hours <= 0) {
+                    return null;
+                  }
+                  const height = (hours / maxHours) * plotHeight;
+                  stackedHours += hours;
+                  const y = CHART_PADDING.top + plotHeight * (1 - stackedHours / maxHours);
+                  return (
+                    <rect key={entry.key} x={x} y={y} width={barWidth} height={height} fill={colorOf(entry.key, seriesIndex)}>
+                      <title>{`${formatBucketLabel(bucket.startTime)} · ${entry.label}: ${formatHours(hours)} hours`}</title>
+                    </rect>
+                  );
+                })}
+                {bucketIndex % labelEvery === 0 && (
+                  <text
+                    x={x + barWidth / 2}
+                    y={CHART_HEIGHT - CHART_PADDING.bottom + 16}
+                    textAnchor="middle"
+                    fontSize="11"
+                    fill="#666"
+                  >
+                    {formatBucketLabel(bucket.startTime)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+        <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', fontSize: '0.875rem' }}>
+          {series.series.map((entry, seriesIndex) => (
+            <span key={entry.key} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <span style={{
+                display: 'inline-block',
+                width: '10px',
+                height: '10px',
+                borderRadius: '2px',
+                backgroundColor: colorOf(entry.key, seriesIndex)
+              }} />
+              {entry.label} ({formatHours(entry.totalHours)}h)
+            </span>
+          ))}
+        </div>
+      </div>
+    );
   };
 
+  const environmentMap = new Map(environments.map(environment => [environment.environmentId, environment]));
+
+  const renderEnvironmentName = (environmentId: string) => {
+    const name = environmentMap.get(environmentId)?.name;
+    return name || <span style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>{environmentId}</span>;
+  };
+
+  const renderEnvironmentState = (info?: EnvironmentInfo) => info && (info.deleted || info.archived) && (
+    <span style={{
+      marginLeft: '0.5rem',
+      padding: '0.125rem 0.5rem',
+      borderRadius: '8px',
+      fontSize: '0.75rem',
+      backgroundColor: info.deleted ? '#fdecea' : '#eeeeee',
+      color: info.deleted ? '#c00' : '#666'
+    }}>
+      {info.deleted ? 'Deleted' : 'Archived'}
+    </span>
+  );
+
+  const renderTopBreakdown = (users: UserUsage[], environmentUsages: EnvironmentUsage[]) => (
+    <div style={{ display: 'flex', gap: '2rem', padding: '1rem', paddingLeft: '3rem' }}>
+      <div style={{ flex: 1 }}>
+        <h4 style={{ marginBottom: '0.5rem', fontWeight: '600' }}>Top Users:</h4>
+        {users.slice(0, TOP_N).map((user) => (
+          <div
+            key={user.userId}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              marginBottom: '0.5rem',
+              padding: '0.5rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #e0e0e0'
+            }}
+          >
+            <span>{user.userName}</span>
+            <span style={{ fontWeight: '600' }}>
+              {formatHours(user.totalHours)} hours · {formatMoney(user.estimatedCost)}
+            </span>
+          </div>
+        ))}
+        {users.length > TOP_N && (
+          <div style={{ fontSize: '0.875rem', color: '#666' }}>
+            and {users.length - TOP_N} more
+          </div>
+        )}
+      </div>
+      <div style={{ flex: 1 }}>
+        <h4 style={{ marginBottom: '0.5rem', fontWeight: '600' }}>Top Environments:</h4>
+        {environmentUsages.slice(0, TOP_N).map((env) => (
+          <div
+            key={`${env.environmentId}-${env.userId}`}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              marginBottom: '0.5rem',
+              padding: '0.5rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #e0e0e0'
+            }}
+          >
+            <span>
+              {renderEnvironmentName(env.environmentId)}
+              <span style={{ marginLeft: '0.5rem', color: '#666', fontSize: '0.875rem' }}>
+                {env.userName}
+              </span>
+            </span>
+            <span style={{ fontWeight: '600' }}>
+              {formatHours(env.totalHours)} hours · {formatMoney(env.estimatedCost)}
+            </span>
+          </div>
+        ))}
+        {environmentUsages.length > TOP_N && (
+          <div style={{ fontSize: '0.875rem', color: '#666' }}>
+            and {environmentUsages.length - TOP_N} more
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  if (session?.authEnabled && !session.user) {
+    return (
+      <div style={{ minHeight: '100vh', backgroundColor: 'white', color: 'black', padding: '2rem' }}>
+        <div style={{ maxWidth: '480px', margin: '4rem auto' }}>
+          <h1 style={{ fontSize: '2rem', fontWeight: 'bold', marginBottom: '1rem' }}>
+            Ona Environment Usage Dashboard
+          </h1>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitSignIn();
+            }}
+            style={{
+              backgroundColor: '#f9f9f9',
+              padding: '1.5rem',
+              borderRadius: '8px',
+              border: '1px solid #e0e0e0',
+            }}
+          >
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+              Personal Access Token
+            </label>
+            <input
+              type="password"
+              autoComplete="off"
+              value={signInToken}
+              onChange={(e) => setSignInToken(e.target.value)}
+              style={{
+                width: '100%',
+                padding: '0.5rem',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                marginBottom: '0.5rem',
+              }}
+            />
+            <p style={{ fontSize: '0.875rem', color: '#666', marginBottom: '1rem' }}>
+              The token only identifies you; it is not stored. Organization admins see everyone&apos;s
+              usage, members see their own.
+            </p>
+            {signInError && (
+              <p style={{ color: '#c00', marginBottom: '1rem' }}>{signInError}</p>
+            )}
+            <button
+              type="submit"
+              disabled={signingIn || !signInToken.trim()}
+              style={{
+                padding: '0.5rem 1rem',
+                border: '2px solid #1F53FF',
+                backgroundColor: '#1F53FF',
+                color: 'white',
+                borderRadius: '4px',
+                cursor: signingIn ? 'wait' : 'pointer',
+                fontWeight: '600',
+              }}
+            >
+              {signingIn ? 'Signing in…' : 'Sign in'}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div style={{ minHeight: '100vh', backgroundColor: 'white', color: 'black', padding: '2rem' }}>
       <div style={{ maxWidth: '1400px', margin: '0 auto' }}>
-        <h1 style={{ fontSize: '2rem', fontWeight: 'bold', marginBottom: '2rem' }}>
-          Ona Environment Usage Dashboard
-        </h1>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1rem', marginBottom: '2rem' }}>
+          <h1 style={{ fontSize: '2rem', fontWeight: 'bold' }}>
+            Ona Environment Usage Dashboard
+          </h1>
+          {sessionUser && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.875rem' }}>
+              <span>
+                {sessionUser.name}
+                <span style={{ color: '#666' }}> · {personalView ? 'Member' : 'Admin'}</span>
+              </span>
+              <button
+                onClick={signOut}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  border: '1px solid #ccc',
+                  backgroundColor: 'white',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                }}
+              >
+                Sign out
+              </button>
+            </div>
+          )}
+        </div>
+
+        {personalView && (
+          <div style={{
+            backgroundColor: '#eef2ff',
+            border: '1px solid #c7d2fe',
+            padding: '0.75rem 1rem',
+            borderRadius: '4px',
+            marginBottom: '1rem',
+          }}>
+            Personal view: you see only your own environments and usage. Organization admins see everyone&apos;s.
+          </div>
+        )}
 
         <div style={{ 
           backgroundColor: '#f9f9f9', 
@@ -167,35 +1281,91 @@ export default function Dashboard() {
           marginBottom: '2rem',
           border: '1px solid #e0e0e0'
         }}>
+          {organizations.length > 0 && (
+            <div style={{ marginBottom: '1.5rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+                Organization
+              </label>
+              <select
+                value={organizationId || defaultOrganizationId || ''}
+                onChange={(e) => selectOrganization(e.target.value)}
+                style={{
+                  minWidth: '300px',
+                  padding: '0.5rem',
+                  border: '1px solid #ccc',
+                  borderRadius: '4px',
+                  backgroundColor: 'white',
+                }}
+              >
+                {organizations.map((organization) => (
+                  <option
+                    key={organization.organizationId}
+                    value={organization.organizationId}
+                    disabled={!organization.accessible}
+                  >
+                    {organization.name}
+                    {organization.accessible ? '' : ' (no access token)'}
+                    {organization.role === 'member' ? ' (your usage only)' : ''}
+                  </option>
+                ))}
+                {organizations.filter((organization) => organization.accessible).length > 1 && (
+                  <option value={ALL_ORGANIZATIONS}>All organizations</option>
+                )}
+              </select>
+            </div>
+          )}
+
           <div style={{ marginBottom: '1.5rem' }}>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
               Date Range
             </label>
             <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
-              {(['today', 'yesterday', '7d', '30d', '6m', '12m', 'custom'] as DateRange[]).map((range) => (
+              {DATE_RANGE_OPTIONS.map((option) => (
                 <button
-                  key={range}
-                  onClick={() => setDateRange(range)}
+                  key={option.value}
+                  onClick={() => selectDateRange(option.value)}
                   style={{
                     padding: '0.5rem 1rem',
-                    border: dateRange === range ? '2px solid #1F53FF' : '1px solid #ccc',
-                    backgroundColor: dateRange === range ? '#1F53FF' : 'white',
-                    color: dateRange === range ? 'white' : 'black',
+                    border: dateRange === option.value ? '2px solid #1F53FF' : '1px solid #ccc',
+                    backgroundColor: dateRange === option.value ? '#1F53FF' : 'white',
+                    color: dateRange === option.value ? 'white' : 'black',
                     borderRadius: '4px',
                     cursor: 'pointer',
-                    fontWeight: dateRange === range ? '600' : '400',
+                    fontWeight: dateRange === option.value ? '600' : '400',
                   }}
                 >
-                  {range === '7d' ? '7 Days' : 
-                   range === '30d' ? '30 Days' : 
-                   range === '6m' ? '6 Months' : 
-                   range === '12m' ? '12 Months' : 
-                   range.charAt(0).toUpperCase() + range.slice(1)}
+                  {option.label}
                 </button>
               ))}
             </div>
           </div>
 
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+              Timezone
+            </label>
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              style={{
+                minWidth: '300px',
+                padding: '0.5rem',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                backgroundColor: 'white',
+              }}
+            >
+              <option value="">
+                Organization default{!timeZone && resolvedTimeZone ? ` (${resolvedTimeZone})` : ''}
+              </option>
+              {Array.from(new Set(['UTC', ...(timeZone ? [timeZone] : []), ...TIME_ZONES])).map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}{zone === browserTimeZone ? ' (browser)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {dateRange === 'custom' && (
             <div style={{ display: 'flex', gap: '1rem', marginBottom: '1.5rem' }}>
               <div style={{ flex: 1 }}>
@@ -233,68 +1403,808 @@ export default function Dashboard() {
             </div>
           )}
 
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+              Compare To
+            </label>
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+              {COMPARE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setCompareMode(option.value)}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: compareMode === option.value ? '2px solid #1F53FF' : '1px solid #ccc',
+                    backgroundColor: compareMode === option.value ? '#1F53FF' : 'white',
+                    color: compareMode === option.value ? 'white' : 'black',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: compareMode === option.value ? '600' : '400',
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {compareMode === 'custom' && (
+            <div style={{ display: 'flex', gap: '1rem', marginBottom: '1.5rem' }}>
+              <div style={{ flex: 1 }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+                  Baseline Start Date
+                </label>
+                <input
+                  type="date"
+                  value={baselineStartDate}
+                  onChange={(e) => setBaselineStartDate(e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                  }}
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+                  Baseline End Date
+                </label>
+                <input
+                  type="date"
+                  value={baselineEndDate}
+                  onChange={(e) => setBaselineEndDate(e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
           <div>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
               Group By
             </label>
-            <div style={{ display: 'flex', gap: '0.5rem' }}>
-              <button
-                onClick={() => setGroupBy('user')}
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+              {GROUP_BY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setGroupBy(option.value)}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: groupBy === option.value ? '2px solid #1EA41D' : '1px solid #ccc',
+                    backgroundColor: groupBy === option.value ? '#1EA41D' : 'white',
+                    color: groupBy === option.value ? 'white' : 'black',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: groupBy === option.value ? '600' : '400',
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {groupBy === 'team' && (
+            <div style={{ marginTop: '1.5rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600' }}>
+                Users in Several Teams
+              </label>
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                {TEAM_ATTRIBUTION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setTeamAttribution(option.value)}
+                    style={{
+                      padding: '0.5rem 1rem',
+                      border: teamAttribution === option.value ? '2px solid #1EA41D' : '1px solid #ccc',
+                      backgroundColor: teamAttribution === option.value ? '#1EA41D' : 'white',
+                      color: teamAttribution === option.value ? 'white' : 'black',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      fontWeight: teamAttribution === option.value ? '600' : '400',
+                    }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilterText();
+            }}
+            style={{ marginTop: '1.5rem' }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+              <label style={{ fontWeight: '600' }}>Filters</label>
+              {hasFilters(filters) && (
+                <button
+                  type="button"
+                  onClick={() => setFilters({})}
+                  style={{
+                    padding: '0.25rem 0.75rem',
+                    border: '1px solid #ccc',
+                    backgroundColor: 'white',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem',
+                  }}
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '0.75rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  Search
+                </label>
+                <input
+                  type="search"
+                  placeholder="Name or ID"
+                  value={filterText.search}
+                  onChange={(e) => setFilterText({ ...filterText, search: e.target.value })}
+                  onBlur={applyFilterText}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                  }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  User
+                </label>
+                <select
+                  value={filters.userId || ''}
+                  onChange={(e) => updateFilter('userId', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    backgroundColor: 'white',
+                  }}
+                >
+                  <option value="">All</option>
+                  {[...members].sort((a, b) => (a.fullName || a.email).localeCompare(b.fullName || b.email)).map((member) => (
+                    <option key={member.userId} value={member.userId}>
+                      {member.fullName || member.email || member.userId}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  Email Domain
+                </label>
+                <input
+                  list="email-domains"
+                  placeholder="example.com"
+                  value={filterText.emailDomain}
+                  onChange={(e) => setFilterText({ ...filterText, emailDomain: e.target.value })}
+                  onBlur={applyFilterText}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                  }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  Project
+                </label>
+                <select
+                  value={filters.projectId || ''}
+                  onChange={(e) => updateFilter('projectId', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    backgroundColor: 'white',
+                  }}
+                >
+                  <option value="">All</option>
+                  <option value={UNASSIGNED_PROJECT_ID}>Unassigned</option>
+                  {projects.map((project) => (
+                    <option key={project.projectId} value={project.projectId}>{project.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  Environment Class
+                </label>
+                <select
+                  value={filters.environmentClassId || ''}
+                  onChange={(e) => updateFilter('environmentClassId', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    backgroundColor: 'white',
+                  }}
+                >
+                  <option value="">All</option>
+                  {environmentClasses.map((environmentClass) => (
+                    <option key={environmentClass.environmentClassId} value={environmentClass.environmentClassId}>
+                      {environmentClass.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  Runner
+                </label>
+                <select
+                  value={filters.runnerId || ''}
+                  onChange={(e) => updateFilter('runnerId', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    backgroundColor: 'white',
+                  }}
+                >
+                  <option value="">All</option>
+                  {runners.map((runner) => (
+                    <option key={runner.runnerId} value={runner.runnerId}>{runner.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', fontWeight: '600' }}>
+                  Min. Hours per User
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={filterText.minHours}
+                  onChange={(e) => setFilterText({ ...filterText, minHours: e.target.value })}
+                  onBlur={applyFilterText}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                  }}
+                />
+              </div>
+            </div>
+            <datalist id="email-domains">
+              {Array.from(new Set(members.map(member => member.email.split('@')[1]).filter(Boolean))).sort().map((domain) => (
+                <option key={domain} value={domain} />
+              ))}
+            </datalist>
+            <button type="submit" style={{ display: 'none' }} />
+          </form>
+        </div>
+
+        {budgets && budgets.statuses.length > 0 && (
+          <div style={{
+            border: '1px solid #e0e0e0',
+            borderRadius: '8px',
+            padding: '1rem',
+            marginBottom: '2rem'
+          }}>
+            <h3 style={{ marginTop: 0, marginBottom: '0.5rem', fontWeight: '600' }}>Budgets</h3>
+            {budgets.statuses.filter(status => status.state !== 'ok').length === 0 && (
+              <p style={{ margin: 0, color: '#1EA41D' }}>
+                All {budgets.statuses.length} budgets are within their limits.
+              </p>
+            )}
+            {budgets.statuses.filter(status => status.state !== 'ok').map((status) => (
+              <div
+                key={`${status.budgetId}-${status.subjectId}`}
                 style={{
-                  padding: '0.5rem 1rem',
-                  border: groupBy === 'user' ? '2px solid #1EA41D' : '1px solid #ccc',
-                  backgroundColor: groupBy === 'user' ? '#1EA41D' : 'white',
-                  color: groupBy === 'user' ? 'white' : 'black',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontWeight: groupBy === 'user' ? '600' : '400',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  padding: '0.5rem',
+                  marginBottom: '0.5rem',
+                  borderLeft: `4px solid ${BUDGET_STATE_COLORS[status.state]}`,
+                  backgroundColor: '#fafafa',
+                  fontSize: '0.875rem'
                 }}
               >
-                User
-              </button>
+                <span>
+                  <strong>{status.budgetName}</strong> · {status.subjectName}
+                </span>
+                <span>
+                  {status.limitHours !== undefined && `${formatHours(status.usedHours)} / ${status.limitHours} hours`}
+                  {status.limitHours !== undefined && status.limitCost !== undefined && ' · '}
+                  {status.limitCost !== undefined &&
+                    `${formatCost(status.usedCost, budgets.currency)} / ${formatCost(status.limitCost, budgets.currency)}`}
+                </span>
+                <span style={{ fontWeight: '600', color: BUDGET_STATE_COLORS[status.state], textTransform: 'uppercase' }}>
+                  {status.state} ({Math.round(status.utilization * 100)}%)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {chargeback && chargeback.configured && (
+          <div style={{
+            border: '1px solid #e0e0e0',
+            borderRadius: '8px',
+            padding: '1rem',
+            marginBottom: '2rem'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '1rem',
+              marginBottom: '0.5rem'
+            }}>
+              <h3 style={{ margin: 0, fontWeight: '600' }}>Chargeback</h3>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+                <input
+                  type="month"
+                  value={statementMonth}
+                  onChange={(e) => {
+                    statementMonthPicked.current = true;
+                    setStatementMonth(e.target.value);
+                  }}
+                  style={{ padding: '0.25rem', border: '1px solid #ccc', borderRadius: '4px' }}
+                />
+                <a
+                  href={statementMonth ? statementUrl() : undefined}
+                  download
+                  style={{
+                    padding: '0.25rem 0.75rem',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    color: 'black',
+                    textDecoration: 'none',
+                  }}
+                >
+                  Monthly statement (HTML)
+                </a>
+              </div>
+            </div>
+            {chargeback.unmapped.lines.length > 0 && (
+              <div style={{
+                padding: '0.5rem',
+                marginBottom: '0.5rem',
+                borderLeft: '4px solid #FF8A00',
+                backgroundColor: '#fafafa',
+                fontSize: '0.875rem'
+              }}>
+                <strong>
+                  {formatHours(chargeback.unmapped.totalHours)} hours ({formatCost(chargeback.unmapped.estimatedCost, chargeback.currency)})
+                  matched no cost center rule
+                </strong>
+                {chargeback.unmapped.chargedTo === UNMAPPED_COST_CENTER_ID
+                  ? ' and are not allocated to any cost center'
+                  : ` and were charged to ${chargeback.costCenters.find(center => center.costCenterId === chargeback.unmapped.chargedTo)?.costCenterName || chargeback.unmapped.chargedTo}`}
+                : {chargeback.unmapped.lines.map(line => `${line.userName} · ${line.projectName}`).join(', ')}
+              </div>
+            )}
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid #e0e0e0' }}>
+                  <th style={{ padding: '0.5rem', textAlign: 'left', fontWeight: '600' }}>Cost Center</th>
+                  <th style={{ padding: '0.5rem', textAlign: 'right', fontWeight: '600' }}>Hours</th>
+                  <th style={{ padding: '0.5rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
+                  <th style={{ padding: '0.5rem', textAlign: 'right', fontWeight: '600' }}>Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {chargeback.costCenters.map((center) => (
+                  <tr key={center.costCenterId} style={{ borderBottom: '1px solid #f0f0f0' }}>
+                    <td style={{ padding: '0.5rem' }}>
+                      {center.costCenterName} <span style={{ color: '#666' }}>{center.costCenterId}</span>
+                    </td>
+                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatHours(center.totalHours)}</td>
+                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>
+                      {formatCost(center.estimatedCost, chargeback.currency)}
+                    </td>
+                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatPercent(center.shareOfTotal)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {(runningEnvironments.size > 0 || liveStatus.connected || liveStatus.error) && (
+          <div style={{
+            border: '1px solid #e0e0e0',
+            borderRadius: '8px',
+            padding: '1rem',
+            marginBottom: '2rem'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: '0.5rem'
+            }}>
+              <h3 style={{ margin: 0, fontWeight: '600' }}>
+                Running Now ({runningEnvironments.size})
+              </h3>
+              <span style={{ fontSize: '0.875rem', color: liveStatus.connected ? '#1EA41D' : '#c00' }}>
+                {liveStatus.connected ? '● Live' : `● ${liveStatus.error || 'Disconnected'}`}
+              </span>
+            </div>
+            {runningEnvironments.size === 0 ? (
+              <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>No environments are running.</p>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid #e0e0e0' }}>
+                    <th style={{ padding: '0.5rem', textAlign: 'left', fontWeight: '600' }}>Environment</th>
+                    <th style={{ padding: '0.5rem', textAlign: 'left', fontWeight: '600' }}>Owner</th>
+                    <th style={{ padding: '0.5rem', textAlign: 'left', fontWeight: '600' }}>Class</th>
+                    <th style={{ padding: '0.5rem', textAlign: 'left', fontWeight: '600' }}>Runner</th>
+                    <th style={{ padding: '0.5rem', textAlign: 'left', fontWeight: '600' }}>Phase</th>
+                    <th style={{ padding: '0.5rem', textAlign: 'right', fontWeight: '600' }}>Elapsed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from(runningEnvironments.values())
+                    .sort((a, b) => (a.startedAt || '').localeCompare(b.startedAt || ''))
+                    .map((environment) => {
+                      const owner = members.find(member => member.userId === environment.userId);
+                      return (
+                        <tr key={environment.environmentId} style={{ borderBottom: '1px solid #f0f0f0' }}>
+                          <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{environment.environmentId}</td>
+                          <td style={{ padding: '0.5rem' }}>{owner?.fullName || environment.userId || '—'}</td>
+                          <td style={{ padding: '0.5rem' }}>
+                            {environmentClasses.find(environmentClass => environmentClass.environmentClassId === environment.environmentClassId)?.name
+                              || environment.environmentClassId || '—'}
+                          </td>
+                          <td style={{ padding: '0.5rem' }}>
+                            {runners.find(runner => runner.runnerId === environment.runnerId)?.name || environment.runnerId || '—'}
+                          </td>
+                          <td style={{ padding: '0.5rem' }}>{formatEnumLabel(environment.phase)}</td>
+                          <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatElapsed(environment.startedAt)}</td>
+                        </tr>
+                      );
+                    })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {!loading && !error && filteredRecords.length > 0 && (
+          <div style={{
+            border: '1px solid #e0e0e0',
+            borderRadius: '8px',
+            padding: '1rem',
+            marginBottom: '2rem'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              flexWrap: 'wrap',
+              gap: '0.5rem',
+              marginBottom: '0.5rem'
+            }}>
+              <h3 style={{ margin: 0, fontWeight: '600' }}>Attention</h3>
+              <label style={{ fontSize: '0.875rem' }}>
+                Flag sessions longer than{' '}
+                <input
+                  type="number"
+                  min="1"
+                  value={maxSessionHours}
+                  onChange={(e) => setMaxSessionHours(Math.max(1, Number(e.target.value) || 1))}
+                  style={{ width: '4rem', padding: '0.25rem', border: '1px solid #ccc', borderRadius: '4px' }}
+                />{' '}
+                hours
+              </label>
+            </div>
+            {anomalies.length === 0 && (
+              <p style={{ margin: 0, color: '#1EA41D' }}>
+                No long-running, off-hours or unusually heavy usage in this range.
+              </p>
+            )}
+            {(showAllAnomalies ? anomalies : anomalies.slice(0, ANOMALY_LIMIT)).map((anomaly, index) => (
+              <div
+                key={`${anomaly.kind}-${anomaly.userId}-${anomaly.environmentId}-${anomaly.startTime}-${index}`}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  padding: '0.5rem',
+                  marginBottom: '0.5rem',
+                  borderLeft: `4px solid ${anomaly.inProgress ? '#c00' : '#FF8A00'}`,
+                  backgroundColor: '#fafafa',
+                  fontSize: '0.875rem'
+                }}
+              >
+                <span>
+                  <strong>{ANOMALY_LABELS[anomaly.kind]}</strong>
+                  {' · '}
+                  {renderViewLink(anomaly.userName, { filters: { userId: anomaly.userId }, groupBy: 'user' })}
+                  {anomaly.environmentId && (
+                    <>
+                      {' · '}
+                      <span style={{ fontFamily: 'monospace' }}>
+                        {renderViewLink(anomaly.environmentId, {
+                          filters: { search: anomaly.environmentId },
+                          groupBy: 'environment',
+                        })}
+                      </span>
+                    </>
+                  )}
+                </span>
+                <span>
+                  {describeAnomaly(anomaly)}
+                  {anomaly.estimatedCost > 0 && ` · ${formatMoney(anomaly.estimatedCost)}`}
+                  {anomaly.inProgress && (
+                    <span style={{ marginLeft: '0.5rem', color: '#c00', fontWeight: '600' }}>STILL RUNNING</span>
+                  )}
+                </span>
+              </div>
+            ))}
+            {anomalies.length > ANOMALY_LIMIT && (
               <button
-                onClick={() => setGroupBy('environment')}
+                onClick={() => setShowAllAnomalies(!showAllAnomalies)}
                 style={{
-                  padding: '0.5rem 1rem',
-                  border: groupBy === 'environment' ? '2px solid #1EA41D' : '1px solid #ccc',
-                  backgroundColor: groupBy === 'environment' ? '#1EA41D' : 'white',
-                  color: groupBy === 'environment' ? 'white' : 'black',
+                  padding: '0.25rem 0.75rem',
+                  border: '1px solid #ccc',
+                  backgroundColor: 'white',
                   borderRadius: '4px',
                   cursor: 'pointer',
-                  fontWeight: groupBy === 'environment' ? '600' : '400',
+                  fontSize: '0.875rem',
                 }}
               >
-                Environment
+                {showAllAnomalies ? 'Show fewer' : `Show all ${anomalies.length}`}
               </button>
-            </div>
+            )}
           </div>
-        </div>
+        )}
 
         {loading && (
           <div style={{ textAlign: 'center', padding: '2rem' }}>
             <p>Loading usage data...</p>
+            {loadProgress && loadProgress.totalChunks > 0 && (
+              <>
+                <div style={{
+                  maxWidth: '24rem',
+                  height: '6px',
+                  margin: '0 auto 0.5rem',
+                  backgroundColor: '#e0e0e0',
+                  borderRadius: '3px',
+                  overflow: 'hidden'
+                }}>
+                  <div style={{
+                    width: `${Math.min(100, (loadProgress.completedChunks / loadProgress.totalChunks) * 100)}%`,
+                    height: '100%',
+                    backgroundColor: '#1F53FF'
+                  }} />
+                </div>
+                <p style={{ margin: 0, fontSize: '0.875rem', color: '#666' }}>
+                  Fetched {loadProgress.completedChunks} of {loadProgress.totalChunks} chunks · {loadProgress.fetchedRecords} records
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div style={{ 
+            backgroundColor: '#fee', 
+            border: '1px solid #fcc',
+            padding: '1rem', 
+            borderRadius: '4px',
+            marginBottom: '1rem'
+          }}>
+            <p style={{ color: '#c00' }}>Error: {error}</p>
+          </div>
+        )}
+
+        {!loading && !error && warnings.length > 0 && (
+          <div style={{
+            border: '1px solid #FF8A00',
+            borderLeft: '4px solid #FF8A00',
+            backgroundColor: '#fff8f0',
+            padding: '0.75rem 1rem',
+            borderRadius: '4px',
+            marginBottom: '1rem',
+            fontSize: '0.875rem'
+          }}>
+            <strong>Some data could not be loaded, so these results may be incomplete.</strong>
+            <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+              {warnings.map((warning, index) => (
+                <li key={`${warning.organizationId}-${warning.code}-${index}`}>{warning.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!loading && !error && usageRecords.length === 0 && (
+          <div style={{ textAlign: 'center', padding: '2rem' }}>
+            <p>No usage data found for the selected date range.</p>
+          </div>
+        )}
+
+        {!loading && !error && usageRecords.length > 0 && filteredRecords.length === 0 && (
+          <div style={{ textAlign: 'center', padding: '2rem' }}>
+            <p>No usage matches the current filters.</p>
+          </div>
+        )}
+
+        {!loading && !error && accounting && accounting.totalRecords > 0 && (
+          <div style={{
+            display: 'flex',
+            gap: '1.5rem',
+            flexWrap: 'wrap',
+            padding: '0.75rem 1rem',
+            marginBottom: '1rem',
+            backgroundColor: '#f9f9f9',
+            border: '1px solid #e0e0e0',
+            borderRadius: '4px',
+            fontSize: '0.875rem'
+          }}>
+            <span><strong>{accounting.countedRecords}</strong> of {accounting.totalRecords} records counted</span>
+            <span><strong>{accounting.clippedRecords}</strong> clipped to range</span>
+            <span><strong>{accounting.openRecords}</strong> still running</span>
+            {hasFilters(filters) && (
+              <span style={{ color: '#1F53FF' }}>
+                <strong>{filteredRecords.length}</strong> match filters
+              </span>
+            )}
+            {accounting.malformedRecords > 0 && (
+              <span style={{ color: '#c00' }}>
+                <strong>{accounting.malformedRecords}</strong> malformed (excluded)
+              </span>
+            )}
+            {asOf && <span style={{ color: '#666' }}>As of {formatDate(asOf)}</span>}
+            {syncStatus && (
+              <span style={{ color: '#666' }}>
+                {syncStatus.mode === 'store' && syncStatus.syncedUntil
+                  ? `Stored data synced up to ${formatDate(syncStatus.syncedUntil)} (${syncStatus.fetchedRecords} fetched)`
+                  : `Fetched live (${syncStatus.fetchedRecords} records)`}
+              </span>
+            )}
           </div>
         )}
 
-        {error && (
-          <div style={{ 
-            backgroundColor: '#fee', 
-            border: '1px solid #fcc',
-            padding: '1rem', 
-            borderRadius: '4px',
+        {!loading && !error && filteredRecords.length > 0 && accountingWindow && (
+          <div style={{
+            display: 'flex',
+            gap: '0.5rem',
+            alignItems: 'center',
+            flexWrap: 'wrap',
             marginBottom: '1rem'
           }}>
-            <p style={{ color: '#c00' }}>Error: {error}</p>
+            <span style={{ fontWeight: '600', fontSize: '0.875rem' }}>
+              Export {GROUP_BY_OPTIONS.find(option => option.value === groupBy)?.label} rollup:
+            </span>
+            {renderExportLink(groupBy, 'csv', 'CSV')}
+            {renderExportLink(groupBy, 'json', 'JSON')}
+            {renderExportLink(groupBy, 'ndjson', 'NDJSON')}
+            <span style={{ fontWeight: '600', fontSize: '0.875rem', marginLeft: '1rem' }}>
+              Raw sessions:
+            </span>
+            {renderExportLink('raw', 'csv', 'CSV')}
+            {renderExportLink('raw', 'ndjson', 'NDJSON')}
           </div>
         )}
 
-        {!loading && !error && usageRecords.length === 0 && (
-          <div style={{ textAlign: 'center', padding: '2rem' }}>
-            <p>No usage data found for the selected date range.</p>
+        {!error && filteredRecords.length > 0 && timeSeries && timeSeries.buckets.length > 0 && (
+          renderUsageChart(timeSeries)
+        )}
+
+        {!loading && !error && compareMode !== 'off' && baseline && (
+          <div style={{
+            border: '1px solid #e0e0e0',
+            borderRadius: '8px',
+            overflow: 'hidden'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              flexWrap: 'wrap',
+              gap: '0.5rem',
+              padding: '0.75rem 1rem',
+              backgroundColor: '#f9f9f9',
+              borderBottom: '1px solid #e0e0e0',
+              fontSize: '0.875rem'
+            }}>
+              <span>
+                Compared with {formatDate(baseline.window.startTime)} – {formatDate(baseline.window.endTime)}
+              </span>
+              <span style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                Sort by:
+                {COMPARISON_SORT_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setComparisonSort(option.value)}
+                    style={{
+                      padding: '0.25rem 0.75rem',
+                      border: comparisonSort === option.value ? '2px solid #1F53FF' : '1px solid #ccc',
+                      backgroundColor: comparisonSort === option.value ? '#1F53FF' : 'white',
+                      color: comparisonSort === option.value ? 'white' : 'black',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      fontSize: '0.875rem',
+                    }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </span>
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
+                  <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>
+                    {GROUP_BY_OPTIONS.find(option => option.value === groupBy)?.label}
+                  </th>
+                  <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Baseline Hours</th>
+                  <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Current Hours</th>
+                  <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Change</th>
+                  <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Change %</th>
+                  <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Cost Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedComparisonRows.map((row) => (
+                  <tr
+                    key={row.key}
+                    style={{
+                      borderBottom: '1px solid #e0e0e0',
+                      backgroundColor: row.status === 'new' ? '#eefbea' : row.status === 'departed' ? '#fdeaea' : 'white'
+                    }}
+                  >
+                    <td style={{ padding: '1rem' }}>
+                      {row.label}
+                      {row.status !== 'changed' && (
+                        <span style={{
+                          marginLeft: '0.5rem',
+                          padding: '0.125rem 0.5rem',
+                          borderRadius: '12px',
+                          fontSize: '0.75rem',
+                          color: 'white',
+                          backgroundColor: row.status === 'new' ? '#1EA41D' : '#c00'
+                        }}>
+                          {row.status === 'new' ? 'New' : 'Departed'}
+                        </span>
+                      )}
+                    </td>
+                    <td style={{ padding: '1rem', textAlign: 'right' }}>{formatHours(row.baselineHours)}</td>
+                    <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>{formatHours(row.currentHours)}</td>
+                    <td style={{ padding: '1rem', textAlign: 'right' }}>{formatSigned(row.deltaHours, formatHours)}</td>
+                    <td style={{ padding: '1rem', textAlign: 'right' }}>
+                      {row.deltaPercent === null ? '—' : formatSigned(row.deltaPercent, formatPercent)}
+                    </td>
+                    <td style={{ padding: '1rem', textAlign: 'right' }}>{formatSigned(row.deltaCost, formatMoney)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         )}
 
-        {!loading && !error && usageRecords.length > 0 && (
+        {!error && filteredRecords.length > 0 && compareMode === 'off' && (
           <div style={{ 
             border: '1px solid #e0e0e0',
             borderRadius: '8px',
@@ -307,6 +2217,7 @@ export default function Dashboard() {
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>User</th>
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Email</th>
                     <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
                     <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Environments</th>
                   </tr>
                 </thead>
@@ -327,6 +2238,9 @@ export default function Dashboard() {
                         <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
                           {formatHours(user.totalHours)}
                         </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(user.estimatedCost)}
+                        </td>
                         <td style={{ padding: '1rem', textAlign: 'center' }}>
                           <span style={{ 
                             backgroundColor: '#1F53FF',
@@ -341,7 +2255,7 @@ export default function Dashboard() {
                       </tr>
                       {expandedRows.has(user.userId) && (
                         <tr>
-                          <td colSpan={4} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                          <td colSpan={5} style={{ padding: '0', backgroundColor: '#fafafa' }}>
                             <div style={{ padding: '1rem', paddingLeft: '3rem' }}>
                               <h4 style={{ marginBottom: '0.5rem', fontWeight: '600' }}>Environments:</h4>
                               {user.environments.map((env) => (
@@ -358,9 +2272,14 @@ export default function Dashboard() {
                                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                                     <span style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
                                       {env.environmentId}
+                                      {env.sessions.some(s => s.inProgress) && (
+                                        <span style={{ marginLeft: '0.5rem', color: '#1EA41D', fontFamily: 'inherit' }}>
+                                          (running)
+                                        </span>
+                                      )}
                                     </span>
                                     <span style={{ fontWeight: '600' }}>
-                                      {formatHours(env.totalHours)} hours
+                                      {formatHours(env.totalHours)} hours · {formatMoney(env.estimatedCost)}
                                     </span>
                                   </div>
                                 </div>
@@ -373,20 +2292,431 @@ export default function Dashboard() {
                   ))}
                 </tbody>
               </table>
+            ) : groupBy === 'environmentClass' ? (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Environment Class</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Hourly Rate</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Users</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Environments</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {classUsages.map((environmentClass) => (
+                    <>
+                      <tr
+                        key={environmentClass.environmentClassId}
+                        style={{
+                          borderBottom: '1px solid #e0e0e0',
+                          cursor: 'pointer',
+                          backgroundColor: expandedRows.has(environmentClass.environmentClassId) ? '#f9f9f9' : 'white'
+                        }}
+                        onClick={() => toggleRow(environmentClass.environmentClassId)}
+                      >
+                        <td style={{ padding: '1rem' }}>
+                          {environmentClass.className}
+                          {environmentClass.className !== environmentClass.environmentClassId &&
+                            environmentClass.environmentClassId !== UNKNOWN_ENVIRONMENT_CLASS_ID && (
+                            <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#666' }}>
+                              {environmentClass.environmentClassId}
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(environmentClass.hourlyRate)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {formatHours(environmentClass.totalHours)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(environmentClass.estimatedCost)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1F53FF',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {environmentClass.users.length}
+                          </span>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1EA41D',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {environmentClass.environments.length}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedRows.has(environmentClass.environmentClassId) && (
+                        <tr>
+                          <td colSpan={6} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                            {renderTopBreakdown(environmentClass.users, environmentClass.environments)}
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  ))}
+                </tbody>
+              </table>
+            ) : groupBy === 'team' ? (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Team</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Active Members</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {teamUsages.map((team) => (
+                    <>
+                      <tr
+                        key={team.teamId}
+                        style={{
+                          borderBottom: '1px solid #e0e0e0',
+                          cursor: 'pointer',
+                          backgroundColor: expandedRows.has(team.teamId) ? '#f9f9f9' : 'white'
+                        }}
+                        onClick={() => toggleRow(team.teamId)}
+                      >
+                        <td style={{ padding: '1rem', fontStyle: team.teamId === NO_TEAM_ID ? 'italic' : 'normal' }}>
+                          {team.teamName}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {formatHours(team.totalHours)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(team.estimatedCost)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1F53FF',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {team.teamId === NO_TEAM_ID ? team.members.length : `${team.members.length} / ${team.memberCount}`}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedRows.has(team.teamId) && (
+                        <tr>
+                          <td colSpan={4} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                            <div style={{ padding: '1rem', paddingLeft: '3rem' }}>
+                              <h4 style={{ marginBottom: '0.5rem', fontWeight: '600' }}>Members:</h4>
+                              {team.members.map((member) => (
+                                <div
+                                  key={member.userId}
+                                  style={{
+                                    display: 'flex',
+                                    justifyContent: 'space-between',
+                                    marginBottom: '0.5rem',
+                                    padding: '0.5rem',
+                                    backgroundColor: 'white',
+                                    borderRadius: '4px',
+                                    border: '1px solid #e0e0e0'
+                                  }}
+                                >
+                                  <span>
+                                    {member.userName}
+                                    {member.email && (
+                                      <span style={{ marginLeft: '0.5rem', color: '#666', fontSize: '0.875rem' }}>
+                                        {member.email}
+                                      </span>
+                                    )}
+                                    {member.teamCount > 1 && (
+                                      <span style={{ marginLeft: '0.5rem', color: '#666', fontSize: '0.875rem' }}>
+                                        ({member.share < 1 ? `1/${member.teamCount} share` : `also in ${member.teamCount - 1} other team${member.teamCount > 2 ? 's' : ''}`})
+                                      </span>
+                                    )}
+                                  </span>
+                                  <span style={{ fontWeight: '600' }}>
+                                    {formatHours(member.totalHours)} hours · {formatMoney(member.estimatedCost)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  ))}
+                </tbody>
+              </table>
+            ) : groupBy === 'runner' ? (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Runner</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Kind</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Provider</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Share of Usage</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Users</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Environments</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runnerUsages.map((runner) => (
+                    <>
+                      <tr
+                        key={runner.runnerId}
+                        style={{
+                          borderBottom: '1px solid #e0e0e0',
+                          cursor: 'pointer',
+                          backgroundColor: expandedRows.has(runner.runnerId) ? '#f9f9f9' : 'white'
+                        }}
+                        onClick={() => toggleRow(runner.runnerId)}
+                      >
+                        <td style={{ padding: '1rem' }}>
+                          {runner.runnerName}
+                          {runner.runnerName !== runner.runnerId && runner.runnerId !== UNKNOWN_RUNNER_ID && (
+                            <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#666' }}>
+                              {runner.runnerId}
+                            </div>
+                          )}
+                          {runner.phase && runner.phase !== 'RUNNER_PHASE_ACTIVE' && (
+                            <div style={{ fontSize: '0.75rem', color: '#c00' }}>
+                              {formatEnumLabel(runner.phase)}
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '1rem' }}>{formatEnumLabel(runner.kind)}</td>
+                        <td style={{ padding: '1rem' }}>{formatEnumLabel(runner.provider)}</td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {formatHours(runner.totalHours)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(runner.estimatedCost)}
+                        </td>
+                        <td style={{ padding: '1rem', minWidth: '140px' }}>
+                          <div style={{ fontSize: '0.875rem', marginBottom: '0.25rem' }}>
+                            {formatPercent(runner.shareOfTotal)}
+                          </div>
+                          <div style={{ height: '6px', backgroundColor: '#e0e0e0', borderRadius: '3px' }}>
+                            <div style={{
+                              width: formatPercent(runner.shareOfTotal),
+                              height: '100%',
+                              backgroundColor: '#1F53FF',
+                              borderRadius: '3px'
+                            }} />
+                          </div>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1F53FF',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {runner.userCount}
+                          </span>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1EA41D',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {runner.environmentCount}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedRows.has(runner.runnerId) && (
+                        <tr>
+                          <td colSpan={8} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                            {renderTopBreakdown(runner.users, runner.environments)}
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  ))}
+                </tbody>
+              </table>
+            ) : groupBy === 'repository' ? (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Repository</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Share of Usage</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Users</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Environments</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {repositoryUsages.map((repository) => (
+                    <>
+                      <tr
+                        key={repository.repository}
+                        style={{
+                          borderBottom: '1px solid #e0e0e0',
+                          cursor: 'pointer',
+                          backgroundColor: expandedRows.has(repository.repository) ? '#f9f9f9' : 'white'
+                        }}
+                        onClick={() => toggleRow(repository.repository)}
+                      >
+                        <td style={{ padding: '1rem', color: repository.repository === NO_REPOSITORY_ID ? '#666' : 'inherit' }}>
+                          {repository.repositoryName}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {formatHours(repository.totalHours)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(repository.estimatedCost)}
+                        </td>
+                        <td style={{ padding: '1rem', minWidth: '140px' }}>
+                          <div style={{ fontSize: '0.875rem', marginBottom: '0.25rem' }}>
+                            {formatPercent(repository.shareOfTotal)}
+                          </div>
+                          <div style={{ height: '6px', backgroundColor: '#e0e0e0', borderRadius: '3px' }}>
+                            <div style={{
+                              width: formatPercent(repository.shareOfTotal),
+                              height: '100%',
+                              backgroundColor: '#1F53FF',
+                              borderRadius: '3px'
+                            }} />
+                          </div>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1F53FF',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {repository.userCount}
+                          </span>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1EA41D',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {repository.environmentCount}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedRows.has(repository.repository) && (
+                        <tr>
+                          <td colSpan={6} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                            {renderTopBreakdown(repository.users, repository.environments)}
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  ))}
+                </tbody>
+              </table>
+            ) : groupBy === 'project' ? (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Project</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Users</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Environments</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {projectUsages.map((project) => (
+                    <>
+                      <tr
+                        key={project.projectId}
+                        style={{
+                          borderBottom: '1px solid #e0e0e0',
+                          cursor: 'pointer',
+                          backgroundColor: expandedRows.has(project.projectId) ? '#f9f9f9' : 'white'
+                        }}
+                        onClick={() => toggleRow(project.projectId)}
+                      >
+                        <td style={{ padding: '1rem' }}>
+                          {project.projectName}
+                          {project.projectName !== project.projectId && project.projectId !== UNASSIGNED_PROJECT_ID && (
+                            <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#666' }}>
+                              {project.projectId}
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {formatHours(project.totalHours)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right' }}>
+                          {formatMoney(project.estimatedCost)}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1F53FF',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {project.users.length}
+                          </span>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            backgroundColor: '#1EA41D',
+                            color: 'white',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '12px',
+                            fontSize: '0.875rem'
+                          }}>
+                            {project.environments.length}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedRows.has(project.projectId) && (
+                        <tr>
+                          <td colSpan={5} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                            {renderTopBreakdown(project.users, project.environments)}
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  ))}
+                </tbody>
+              </table>
             ) : (
               <table style={{ width: '100%', borderCollapse: 'collapse' }}>
                 <thead>
                   <tr style={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid #e0e0e0' }}>
-                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Environment ID</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Environment</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Repository</th>
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>User</th>
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: '600' }}>Email</th>
                     <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Total Hours</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>Est. Cost</th>
                     <th style={{ padding: '1rem', textAlign: 'center', fontWeight: '600' }}>Sessions</th>
                   </tr>
                 </thead>
                 <tbody>
                   {envUsages.map((env) => {
                     const rowKey = `${env.environmentId}-${env.userId}`;
+                    const info = environmentMap.get(env.environmentId);
                     return (
                       <>
                         <tr 
@@ -398,14 +2728,36 @@ export default function Dashboard() {
                           }}
                           onClick={() => toggleRow(rowKey)}
                         >
-                          <td style={{ padding: '1rem', fontFamily: 'monospace', fontSize: '0.875rem' }}>
-                            {env.environmentId}
+                          <td style={{ padding: '1rem' }}>
+                            {renderEnvironmentName(env.environmentId)}
+                            {renderEnvironmentState(info)}
+                            {info?.name && (
+                              <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#666' }}>
+                                {env.environmentId}
+                              </div>
+                            )}
+                            {info?.phase && !info.deleted && (
+                              <div style={{ fontSize: '0.75rem', color: '#666' }}>
+                                {formatEnumLabel(info.phase)}
+                              </div>
+                            )}
+                          </td>
+                          <td style={{ padding: '1rem' }}>
+                            {info?.repository || info?.contextUrl || '—'}
+                            {info?.branch && (
+                              <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#666' }}>
+                                {info.branch}
+                              </div>
+                            )}
                           </td>
                           <td style={{ padding: '1rem' }}>{env.userName}</td>
                           <td style={{ padding: '1rem' }}>{env.email}</td>
                           <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
                             {formatHours(env.totalHours)}
                           </td>
+                          <td style={{ padding: '1rem', textAlign: 'right' }}>
+                            {formatMoney(env.estimatedCost)}
+                          </td>
                           <td style={{ padding: '1rem', textAlign: 'center' }}>
                             <span style={{ 
                               backgroundColor: '#1EA41D',
@@ -420,7 +2772,7 @@ export default function Dashboard() {
                         </tr>
                         {expandedRows.has(rowKey) && (
                           <tr>
-                            <td colSpan={5} style={{ padding: '0', backgroundColor: '#fafafa' }}>
+                            <td colSpan={8} style={{ padding: '0', backgroundColor: '#fafafa' }}>
                               <div style={{ padding: '1rem', paddingLeft: '3rem' }}>
                                 <h4 style={{ marginBottom: '0.5rem', fontWeight: '600' }}>Sessions:</h4>
                                 {env.sessions.map((session, idx) => (
@@ -438,10 +2790,22 @@ export default function Dashboard() {
                                     <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.25rem' }}>
                                       <span>Start: {formatDate(session.startTime)}</span>
                                       <span style={{ fontWeight: '600' }}>
-                                        {formatHours(session.durationHours)} hours
+                                        {formatHours(session.durationHours)} hours · {formatMoney(session.estimatedCost)}
                                       </span>
                                     </div>
-                                    <div>End: {formatDate(session.endTime)}</div>
+                                    <div>
+                                      End: {formatDate(session.endTime)}
+                                      {session.inProgress && (
+                                        <span style={{ marginLeft: '0.5rem', color: '#1EA41D' }}>
+                                          (still running)
+                                        </span>
+                                      )}
+                                      {session.clipped && (
+                                        <span style={{ marginLeft: '0.5rem', color: '#666' }}>
+                                          (clipped to range)
+                                        </span>
+                                      )}
+                                    </div>
                                   </div>
                                 ))}
                               </div>
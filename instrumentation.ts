@@ -0,0 +1,17 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startBudgetMonitor } = await import('./lib/budgets');
+    try {
+      startBudgetMonitor();
+    } catch (error) {
+      console.error('Error starting budget monitor:', error);
+    }
+
+    const { startDigestScheduler } = await import('./lib/reports');
+    try {
+      startDigestScheduler();
+    } catch (error) {
+      console.error('Error starting digest scheduler:', error);
+    }
+  }
+}
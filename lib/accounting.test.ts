@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { accountSessions } from './accounting';
+import { UsageRecord } from './types';
+
+const window = { startTime: '2025-01-06T00:00:00Z', endTime: '2025-01-13T00:00:00Z' };
+const now = new Date('2025-01-20T00:00:00Z');
+const rateCard = { currency: 'USD', defaultHourlyRate: 1, rates: { 'cls-large': 2 } };
+
+const record = (id: string, createdAt: string, stoppedAt?: string, extra: Partial<UsageRecord> = {}): UsageRecord => ({
+  id,
+  userId: 'u-alice',
+  environmentId: 'env-a1',
+  environmentClassId: 'cls-small',
+  createdAt,
+  stoppedAt,
+  ...extra,
+});
+
+const account = (records: UsageRecord[], options = {}) =>
+  accountSessions(records, { window, now, rateCard, ...options });
+
+describe('accountSessions', () => {
+  it('counts sessions inside the window in full and prices them by class', () => {
+    const { sessions, summary } = account([
+      record('r-1', '2025-01-07T09:00:00Z', '2025-01-07T13:00:00Z', { environmentClassId: 'cls-large' }),
+    ]);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ durationHours: 4, estimatedCost: 8, clipped: false, inProgress: false });
+    expect(summary).toMatchObject({ totalRecords: 1, countedRecords: 1, clippedRecords: 0 });
+  });
+
+  it('clips sessions at both edges of the window', () => {
+    const { sessions, summary } = account([
+      record('before', '2025-01-05T22:00:00Z', '2025-01-06T02:00:00Z'),
+      record('after', '2025-01-12T20:00:00Z', '2025-01-13T04:00:00Z'),
+      record('across', '2025-01-01T00:00:00Z', '2025-01-20T00:00:00Z'),
+    ]);
+
+    expect(sessions.map(session => [session.record.id, session.startTime, session.endTime, session.durationHours])).toEqual([
+      ['before', '2025-01-06T00:00:00.000Z', '2025-01-06T02:00:00.000Z', 2],
+      ['after', '2025-01-12T20:00:00.000Z', '2025-01-13T00:00:00.000Z', 4],
+      ['across', '2025-01-06T00:00:00.000Z', '2025-01-13T00:00:00.000Z', 168],
+    ]);
+    expect(summary).toMatchObject({ countedRecords: 3, clippedRecords: 3 });
+  });
+
+  it('counts open sessions up to now or the window end', () => {
+    const open = record('open', '2025-01-10T13:00:00Z');
+
+    expect(account([open], { now: new Date('2025-01-11T01:00:00Z') }).sessions[0])
+      .toMatchObject({ durationHours: 12, inProgress: true, clipped: false });
+    expect(account([open]).sessions[0]).toMatchObject({ durationHours: 59, inProgress: true, clipped: true });
+    expect(account([open]).summary.openRecords).toBe(1);
+  });
+
+  it('leaves out sessions that only touch the window', () => {
+    const { sessions, summary } = account([
+      record('ends-at-start', '2025-01-05T20:00:00Z', '2025-01-06T00:00:00Z'),
+      record('starts-at-end', '2025-01-13T00:00:00Z', '2025-01-13T02:00:00Z'),
+      record('starts-at-start', '2025-01-06T00:00:00Z', '2025-01-06T01:00:00Z'),
+    ]);
+
+    expect(sessions.map(session => [session.record.id, session.clipped])).toEqual([['starts-at-start', false]]);
+    expect(summary).toMatchObject({ countedRecords: 1, outOfRangeRecords: 2, clippedRecords: 0 });
+  });
+
+  it('reports records with missing fields or invalid timestamps as malformed', () => {
+    const { sessions, summary } = account([
+      record('no-owner', '2025-01-07T09:00:00Z', '2025-01-07T10:00:00Z', { userId: undefined }),
+      record('no-environment', '2025-01-07T09:00:00Z', '2025-01-07T10:00:00Z', { environmentId: undefined }),
+      record('bad-start', 'not-a-date', '2025-01-07T10:00:00Z'),
+      record('bad-stop', '2025-01-07T09:00:00Z', 'not-a-date'),
+      record('stops-before-start', '2025-01-07T10:00:00Z', '2025-01-07T09:00:00Z'),
+    ]);
+
+    expect(sessions).toEqual([]);
+    expect(summary).toMatchObject({ totalRecords: 5, malformedRecords: 5, countedRecords: 0 });
+  });
+
+  it('rejects an invalid window', () => {
+    expect(() => account([], { window: { startTime: 'nope', endTime: window.endTime } })).toThrow('Invalid accounting window');
+  });
+});
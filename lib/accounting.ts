@@ -0,0 +1,98 @@
+import { UsageRecord, AccountingOptions, AccountedSession, AccountingSummary } from './types';
+import { hourlyRateFor } from './pricing';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export interface AccountingResult {
+  sessions: AccountedSession[];
+  summary: AccountingSummary;
+}
+
+function parseTime(value: string): number | null {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+export function emptyAccountingSummary(): AccountingSummary {
+  return {
+    totalRecords: 0,
+    countedRecords: 0,
+    clippedRecords: 0,
+    openRecords: 0,
+    malformedRecords: 0,
+    outOfRangeRecords: 0,
+  };
+}
+
+/**
+ * Turns raw runtime records into billable sessions for a window.
+ *
+ * Sessions are clipped to [window.startTime, window.endTime). Records without
+ * `stoppedAt` are still running and are counted up to `now` or the window end,
+ * whichever comes first. Records missing an owner, environment or valid
+ * timestamps are reported as malformed and never counted. Each session is
+ * priced at its environment class's hourly rate from `rateCard`.
+ */
+export function accountSessions(
+  records: UsageRecord[],
+  { window, now = new Date(), rateCard }: AccountingOptions = {}
+): AccountingResult {
+  const summary = emptyAccountingSummary();
+  const sessions: AccountedSession[] = [];
+
+  const windowStart = window ? parseTime(window.startTime) : null;
+  const windowEnd = window ? parseTime(window.endTime) : null;
+  if (window && (windowStart === null || windowEnd === null)) {
+    throw new Error('Invalid accounting window');
+  }
+  const nowMs = now.getTime();
+
+  records.forEach(record => {
+    summary.totalRecords++;
+
+    if (!record.userId || !record.createdAt || !record.environmentId) {
+      summary.malformedRecords++;
+      return;
+    }
+
+    const start = parseTime(record.createdAt);
+    const stopped = record.stoppedAt ? parseTime(record.stoppedAt) : null;
+    const inProgress = !record.stoppedAt;
+    if (start === null || (!inProgress && (stopped === null || stopped < start))) {
+      summary.malformedRecords++;
+      return;
+    }
+    const end = inProgress ? Math.max(nowMs, start) : stopped!;
+
+    const lower = windowStart ?? start;
+    const upper = windowEnd ?? end;
+    // Sessions that end exactly when the window starts do not overlap it.
+    if ((windowStart !== null && end <= windowStart) || start >= upper) {
+      summary.outOfRangeRecords++;
+      return;
+    }
+
+    const clippedStart = Math.max(start, lower);
+    const clippedEnd = Math.min(end, upper);
+    const clipped = clippedStart !== start || clippedEnd !== end;
+    const durationHours = (clippedEnd - clippedStart) / MS_PER_HOUR;
+
+    summary.countedRecords++;
+    if (clipped) summary.clippedRecords++;
+    if (inProgress) summary.openRecords++;
+
+    sessions.push({
+      userId: record.userId,
+      environmentId: record.environmentId,
+      record,
+      startTime: new Date(clippedStart).toISOString(),
+      endTime: new Date(clippedEnd).toISOString(),
+      durationHours,
+      estimatedCost: durationHours * hourlyRateFor(rateCard, record.environmentClassId),
+      inProgress,
+      clipped,
+    });
+  });
+
+  return { sessions, summary };
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateByEnvironment,
+  aggregateByTeam,
+  aggregateByUser,
+  calculateDurationHours,
+  comparePeriods,
+  NO_TEAM_ID,
+} from './aggregation';
+import { acmeOrganization, ACME_RATE_CARD, ACME_WINDOW } from '../test/mock-api/fixtures';
+import { GroupTotal, Team, UsageRecord } from './types';
+
+const acme = acmeOrganization();
+const options = { window: ACME_WINDOW, now: new Date('2025-01-20T00:00:00Z'), rateCard: ACME_RATE_CARD };
+
+describe('calculateDurationHours', () => {
+  it('returns fractional hours', () => {
+    expect(calculateDurationHours('2025-01-06T09:00:00Z', '2025-01-06T17:30:00Z')).toBe(8.5);
+  });
+
+  it('honours UTC offsets', () => {
+    expect(calculateDurationHours('2025-01-06T09:00:00+01:00', '2025-01-06T09:00:00Z')).toBe(1);
+  });
+
+  it('is negative when the end is before the start', () => {
+    expect(calculateDurationHours('2025-01-06T10:00:00Z', '2025-01-06T09:00:00Z')).toBe(-1);
+  });
+});
+
+describe('aggregateByUser', () => {
+  const users = aggregateByUser(acme.records, acme.members, options);
+  const byId = (userId: string) => users.find(user => user.userId === userId)!;
+
+  it('sorts users by hours and skips malformed records', () => {
+    expect(users.map(user => [user.userId, user.totalHours])).toEqual([
+      ['u-carol', 59],
+      ['u-alice', 15.5],
+      ['u-bob', 12],
+      ['u-dave', 4],
+      ['u-erin', 1],
+    ]);
+  });
+
+  it('joins member names and falls back to the user ID for former members', () => {
+    expect(byId('u-alice')).toMatchObject({ userName: 'Alice Example', email: 'alice@acme.test' });
+    expect(byId('u-erin')).toMatchObject({ userName: 'u-erin', email: '' });
+  });
+
+  it('groups sessions by environment and prices them by class', () => {
+    const alice = byId('u-alice');
+    expect(alice.estimatedCost).toBe(13.75);
+    expect(alice.environments.map(environment => [environment.environmentId, environment.totalHours, environment.sessions.length]))
+      .toEqual([
+        ['env-a1', 11.5, 2],
+        ['env-a2', 4, 1],
+      ]);
+  });
+
+  it('clips sessions to the window and counts running sessions up to its end', () => {
+    const [bobSession] = byId('u-bob').environments[0].sessions;
+    expect(bobSession).toMatchObject({ startTime: ACME_WINDOW.startTime, durationHours: 2, clipped: true });
+    expect(byId('u-carol').environments[0].sessions[0]).toMatchObject({
+      endTime: ACME_WINDOW.endTime,
+      inProgress: true,
+      clipped: true,
+    });
+  });
+
+  it('counts running sessions up to now inside the window', () => {
+    const carol = aggregateByUser(acme.records, acme.members, { ...options, now: new Date('2025-01-10T15:00:00Z') })
+      .find(user => user.userId === 'u-carol')!;
+    expect(carol.totalHours).toBe(2);
+  });
+
+  it('uses whole sessions without a window', () => {
+    const bob = aggregateByUser(acme.records, acme.members, { now: options.now }).find(user => user.userId === 'u-bob')!;
+    expect(bob.totalHours).toBe(14);
+  });
+
+  it('returns nothing for no records', () => {
+    expect(aggregateByUser([], acme.members, options)).toEqual([]);
+  });
+});
+
+describe('aggregateByEnvironment', () => {
+  it('rolls sessions up per environment and owner', () => {
+    const environments = aggregateByEnvironment(acme.records, acme.members, options);
+    expect(environments.slice(0, 3).map(environment => [environment.environmentId, environment.totalHours]))
+      .toEqual([
+        ['env-c1', 59],
+        ['env-b1', 12],
+        ['env-a1', 11.5],
+      ]);
+    expect(environments.reduce((sum, environment) => sum + environment.totalHours, 0)).toBe(91.5);
+  });
+
+  it('keeps an environment used by two users as separate rows', () => {
+    const records: UsageRecord[] = [
+      { id: 'a', userId: 'u-alice', environmentId: 'env-shared', createdAt: '2025-01-06T09:00:00Z', stoppedAt: '2025-01-06T10:00:00Z' },
+      { id: 'b', userId: 'u-bob', environmentId: 'env-shared', createdAt: '2025-01-06T11:00:00Z', stoppedAt: '2025-01-06T14:00:00Z' },
+    ];
+    expect(aggregateByEnvironment(records, acme.members, options).map(row => [row.userName, row.totalHours])).toEqual([
+      ['Bob Example', 3],
+      ['Alice Example', 1],
+    ]);
+  });
+});
+
+describe('aggregateByTeam', () => {
+  const teams: Team[] = [
+    { teamId: 't-web', name: 'Web', memberIds: ['u-alice', 'u-bob'] },
+    { teamId: 't-platform', name: 'Platform', memberIds: ['u-alice', 'u-carol'] },
+    { teamId: 't-idle', name: 'Idle', memberIds: ['u-nobody'] },
+  ];
+  const hoursOf = (rows: { teamId: string; totalHours: number }[]) => rows.map(row => [row.teamId, row.totalHours]);
+
+  it('counts members of several teams fully in each team', () => {
+    const rows = aggregateByTeam(acme.records, acme.members, teams, 'full', options);
+
+    expect(hoursOf(rows)).toEqual([
+      ['t-platform', 74.5],
+      ['t-web', 27.5],
+      [NO_TEAM_ID, 5],
+    ]);
+    expect(rows[0].members.find(member => member.userId === 'u-alice')).toMatchObject({ share: 1, teamCount: 2 });
+  });
+
+  it('splits members of several teams evenly so teams add up to the org total', () => {
+    const rows = aggregateByTeam(acme.records, acme.members, teams, 'split', options);
+
+    expect(hoursOf(rows)).toEqual([
+      ['t-platform', 66.75],
+      ['t-web', 19.75],
+      [NO_TEAM_ID, 5],
+    ]);
+    expect(rows[1].members.find(member => member.userId === 'u-alice')).toMatchObject({ totalHours: 7.75, share: 0.5 });
+    expect(rows.reduce((sum, row) => sum + row.totalHours, 0)).toBe(91.5);
+  });
+
+  it('collects users in no team, including former members, under No team', () => {
+    const unassigned = aggregateByTeam(acme.records, acme.members, teams, 'full', options)
+      .find(row => row.teamId === NO_TEAM_ID)!;
+
+    expect(unassigned).toMatchObject({ teamName: 'No team', memberCount: 2 });
+    expect(unassigned.members.map(member => [member.userId, member.teamCount])).toEqual([
+      ['u-dave', 0],
+      ['u-erin', 0],
+    ]);
+  });
+
+  it('leaves out teams without usage', () => {
+    expect(aggregateByTeam(acme.records, acme.members, teams, 'full', options).map(row => row.teamId))
+      .not.toContain('t-idle');
+  });
+});
+
+describe('comparePeriods', () => {
+  const totals = (...rows: [string, number][]) =>
+    new Map<string, GroupTotal>(rows.map(([key, totalHours]) => [key, { key, label: key, totalHours, estimatedCost: totalHours * 2 }]));
+
+  it('marks every group as new against an empty previous period', () => {
+    const rows = comparePeriods(totals(['alice', 4], ['bob', 10]), new Map());
+
+    expect(rows.map(row => [row.key, row.status, row.deltaHours, row.deltaPercent])).toEqual([
+      ['bob', 'new', 10, null],
+      ['alice', 'new', 4, null],
+    ]);
+    expect(rows[0]).toMatchObject({ baselineHours: 0, baselineCost: 0, deltaCost: 20 });
+  });
+
+  it('has no percent change from a zero base', () => {
+    const [row] = comparePeriods(totals(['alice', 3]), totals(['alice', 0]));
+
+    expect(row).toMatchObject({ status: 'changed', deltaHours: 3, deltaPercent: null });
+  });
+
+  it('joins groups on their key and sorts by the size of the change', () => {
+    const rows = comparePeriods(totals(['alice', 6], ['bob', 1]), totals(['alice', 4], ['bob', 4], ['carol', 5]));
+
+    expect(rows.map(row => [row.key, row.status, row.deltaHours, row.deltaPercent])).toEqual([
+      ['carol', 'departed', -5, -1],
+      ['bob', 'changed', -3, -0.75],
+      ['alice', 'changed', 2, 0.5],
+    ]);
+  });
+
+  it('returns nothing when both periods are empty', () => {
+    expect(comparePeriods(new Map(), new Map())).toEqual([]);
+  });
+});
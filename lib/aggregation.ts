@@ -1,4 +1,42 @@
-import { UsageRecord, Member, UserUsage, EnvironmentUsage, SessionInfo } from './types';
+import {
+  UsageRecord,
+  Member,
+  Project,
+  EnvironmentClass,
+  EnvironmentInfo,
+  Runner,
+  Team,
+  TeamAttribution,
+  UserUsage,
+  EnvironmentUsage,
+  ProjectUsage,
+  EnvironmentClassUsage,
+  RunnerUsage,
+  RepositoryUsage,
+  TeamUsage,
+  GroupTotal,
+  ComparisonRow,
+  GroupBy,
+  Granularity,
+  SeriesKey,
+  TimeSeries,
+  TimeSeriesBucket,
+  UsageResponse,
+  SessionInfo,
+  AccountingOptions,
+  AccountedSession,
+} from './types';
+import { accountSessions } from './accounting';
+import { hourlyRateFor } from './pricing';
+import { addDays, addMonths, calendarDateOf, dayOfWeek, localTimeZone, startOfDay } from './date-ranges';
+
+export const UNASSIGNED_PROJECT_ID = 'unassigned';
+export const UNKNOWN_ENVIRONMENT_CLASS_ID = 'unknown';
+export const UNKNOWN_RUNNER_ID = 'unknown';
+export const NO_TEAM_ID = 'none';
+export const NO_REPOSITORY_ID = 'none';
+export const OTHER_SERIES_KEY = 'other';
+export const DEFAULT_TOP_SERIES = 5;
 
 export function calculateDurationHours(startTime: string, endTime: string): number {
   const start = new Date(startTime).getTime();
@@ -6,106 +44,657 @@ export function calculateDurationHours(startTime: string, endTime: string): numb
   return (end - start) / (1000 * 60 * 60);
 }
 
-export function aggregateByUser(
-  records: UsageRecord[],
-  members: Member[]
-): UserUsage[] {
-  const userMap = new Map<string, UserUsage>();
+function toSessionInfo(session: AccountedSession): SessionInfo {
+  return {
+    startTime: session.startTime,
+    endTime: session.endTime,
+    durationHours: session.durationHours,
+    estimatedCost: session.estimatedCost,
+    inProgress: session.inProgress,
+    clipped: session.clipped,
+  };
+}
+
+function buildMemberMap(members: Member[]): Map<string, Member> {
   const memberMap = new Map<string, Member>();
 
   members.forEach(member => {
     memberMap.set(member.userId, member);
   });
 
-  records.forEach(record => {
-    if (!record.userId || !record.createdAt || !record.stoppedAt || !record.environmentId) {
-      return;
+  return memberMap;
+}
+
+function bucketSessions(
+  sessions: AccountedSession[],
+  keyOf: (session: AccountedSession) => string
+): Map<string, AccountedSession[]> {
+  const buckets = new Map<string, AccountedSession[]>();
+
+  sessions.forEach(session => {
+    const key = keyOf(session);
+    if (!buckets.has(key)) {
+      buckets.set(key, []);
     }
+    buckets.get(key)!.push(session);
+  });
+
+  return buckets;
+}
+
+function sumHours(sessions: AccountedSession[]): number {
+  return sessions.reduce((sum, session) => sum + session.durationHours, 0);
+}
 
-    const member = memberMap.get(record.userId);
-    const userName = member?.fullName || record.userId;
+function sumCost(sessions: AccountedSession[]): number {
+  return sessions.reduce((sum, session) => sum + session.estimatedCost, 0);
+}
+
+function projectKeyOf(session: AccountedSession): string {
+  return session.record.projectId || UNASSIGNED_PROJECT_ID;
+}
+
+function environmentClassKeyOf(session: AccountedSession): string {
+  return session.record.environmentClassId || UNKNOWN_ENVIRONMENT_CLASS_ID;
+}
+
+function runnerKeyOf(session: AccountedSession): string {
+  return session.record.runnerId || UNKNOWN_RUNNER_ID;
+}
+
+function repositoryKeyOf(session: AccountedSession, environmentMap: Map<string, EnvironmentInfo>): string {
+  return environmentMap.get(session.environmentId)?.repository || NO_REPOSITORY_ID;
+}
+
+function repositoryLabel(repository: string): string {
+  return repository === NO_REPOSITORY_ID ? 'No repository' : repository;
+}
+
+function projectLabel(projectId: string, projectMap: Map<string, Project>): string {
+  return projectId === UNASSIGNED_PROJECT_ID ? 'Unassigned' : projectMap.get(projectId)?.name || projectId;
+}
+
+function environmentClassLabel(environmentClassId: string, classMap: Map<string, EnvironmentClass>): string {
+  return environmentClassId === UNKNOWN_ENVIRONMENT_CLASS_ID
+    ? 'Unknown class'
+    : classMap.get(environmentClassId)?.name || environmentClassId;
+}
+
+function runnerLabel(runnerId: string, runnerMap: Map<string, Runner>): string {
+  return runnerId === UNKNOWN_RUNNER_ID ? 'Unknown runner' : runnerMap.get(runnerId)?.name || runnerId;
+}
+
+function groupSessionsByUser(
+  sessions: AccountedSession[],
+  memberMap: Map<string, Member>
+): UserUsage[] {
+  const userMap = new Map<string, UserUsage>();
+
+  sessions.forEach(session => {
+    const member = memberMap.get(session.userId);
+    const userName = member?.fullName || session.userId;
     const email = member?.email || '';
 
-    if (!userMap.has(record.userId)) {
-      userMap.set(record.userId, {
-        userId: record.userId,
+    if (!userMap.has(session.userId)) {
+      userMap.set(session.userId, {
+        userId: session.userId,
         userName,
         email,
         totalHours: 0,
+        estimatedCost: 0,
         environments: [],
       });
     }
 
-    const userUsage = userMap.get(record.userId)!;
-    const durationHours = calculateDurationHours(record.createdAt, record.stoppedAt);
-    userUsage.totalHours += durationHours;
+    const userUsage = userMap.get(session.userId)!;
+    userUsage.totalHours += session.durationHours;
+    userUsage.estimatedCost += session.estimatedCost;
 
-    let envUsage = userUsage.environments.find(e => e.environmentId === record.environmentId);
+    let envUsage = userUsage.environments.find(e => e.environmentId === session.environmentId);
     if (!envUsage) {
       envUsage = {
-        environmentId: record.environmentId,
-        userId: record.userId,
+        environmentId: session.environmentId,
+        userId: session.userId,
         userName,
         email,
         totalHours: 0,
+        estimatedCost: 0,
         sessions: [],
       };
       userUsage.environments.push(envUsage);
     }
 
-    envUsage.totalHours += durationHours;
-    envUsage.sessions.push({
-      startTime: record.createdAt,
-      endTime: record.stoppedAt,
-      durationHours,
-    });
+    envUsage.totalHours += session.durationHours;
+    envUsage.estimatedCost += session.estimatedCost;
+    envUsage.sessions.push(toSessionInfo(session));
   });
 
   return Array.from(userMap.values()).sort((a, b) => b.totalHours - a.totalHours);
 }
 
-export function aggregateByEnvironment(
-  records: UsageRecord[],
-  members: Member[]
+function groupSessionsByEnvironment(
+  sessions: AccountedSession[],
+  memberMap: Map<string, Member>
 ): EnvironmentUsage[] {
   const envMap = new Map<string, EnvironmentUsage>();
-  const memberMap = new Map<string, Member>();
-
-  members.forEach(member => {
-    memberMap.set(member.userId, member);
-  });
 
-  records.forEach(record => {
-    if (!record.userId || !record.createdAt || !record.stoppedAt || !record.environmentId) {
-      return;
-    }
-
-    const member = memberMap.get(record.userId);
-    const userName = member?.fullName || record.userId;
+  sessions.forEach(session => {
+    const member = memberMap.get(session.userId);
+    const userName = member?.fullName || session.userId;
     const email = member?.email || '';
 
-    const key = `${record.environmentId}-${record.userId}`;
+    const key = `${session.environmentId}-${session.userId}`;
     
     if (!envMap.has(key)) {
       envMap.set(key, {
-        environmentId: record.environmentId,
-        userId: record.userId,
+        environmentId: session.environmentId,
+        userId: session.userId,
         userName,
         email,
         totalHours: 0,
+        estimatedCost: 0,
         sessions: [],
       });
     }
 
     const envUsage = envMap.get(key)!;
-    const durationHours = calculateDurationHours(record.createdAt, record.stoppedAt);
-    envUsage.totalHours += durationHours;
-    envUsage.sessions.push({
-      startTime: record.createdAt,
-      endTime: record.stoppedAt,
-      durationHours,
-    });
+    envUsage.totalHours += session.durationHours;
+    envUsage.estimatedCost += session.estimatedCost;
+    envUsage.sessions.push(toSessionInfo(session));
   });
 
   return Array.from(envMap.values()).sort((a, b) => b.totalHours - a.totalHours);
 }
+
+export function aggregateByUser(
+  records: UsageRecord[],
+  members: Member[],
+  options: AccountingOptions = {}
+): UserUsage[] {
+  const { sessions } = accountSessions(records, options);
+  return groupSessionsByUser(sessions, buildMemberMap(members));
+}
+
+export function aggregateByEnvironment(
+  records: UsageRecord[],
+  members: Member[],
+  options: AccountingOptions = {}
+): EnvironmentUsage[] {
+  const { sessions } = accountSessions(records, options);
+  return groupSessionsByEnvironment(sessions, buildMemberMap(members));
+}
+
+export function aggregateByProject(
+  records: UsageRecord[],
+  members: Member[],
+  projects: Project[],
+  options: AccountingOptions = {}
+): ProjectUsage[] {
+  const memberMap = buildMemberMap(members);
+  const projectMap = new Map<string, Project>();
+
+  projects.forEach(project => {
+    projectMap.set(project.projectId, project);
+  });
+
+  const { sessions } = accountSessions(records, options);
+  const buckets = bucketSessions(sessions, projectKeyOf);
+
+  return Array.from(buckets.entries())
+    .map(([projectId, projectSessions]) => ({
+      projectId,
+      projectName: projectLabel(projectId, projectMap),
+      totalHours: sumHours(projectSessions),
+      estimatedCost: sumCost(projectSessions),
+      users: groupSessionsByUser(projectSessions, memberMap),
+      environments: groupSessionsByEnvironment(projectSessions, memberMap),
+    }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+export function aggregateByEnvironmentClass(
+  records: UsageRecord[],
+  members: Member[],
+  environmentClasses: EnvironmentClass[],
+  options: AccountingOptions = {}
+): EnvironmentClassUsage[] {
+  const memberMap = buildMemberMap(members);
+  const classMap = new Map<string, EnvironmentClass>();
+
+  environmentClasses.forEach(environmentClass => {
+    classMap.set(environmentClass.environmentClassId, environmentClass);
+  });
+
+  const { sessions } = accountSessions(records, options);
+  const buckets = bucketSessions(sessions, environmentClassKeyOf);
+
+  return Array.from(buckets.entries())
+    .map(([environmentClassId, classSessions]) => ({
+      environmentClassId,
+      className: environmentClassLabel(environmentClassId, classMap),
+      hourlyRate: hourlyRateFor(
+        options.rateCard,
+        environmentClassId === UNKNOWN_ENVIRONMENT_CLASS_ID ? undefined : environmentClassId
+      ),
+      totalHours: sumHours(classSessions),
+      estimatedCost: sumCost(classSessions),
+      users: groupSessionsByUser(classSessions, memberMap),
+      environments: groupSessionsByEnvironment(classSessions, memberMap),
+    }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+export function aggregateByRunner(
+  records: UsageRecord[],
+  members: Member[],
+  runners: Runner[],
+  options: AccountingOptions = {}
+): RunnerUsage[] {
+  const memberMap = buildMemberMap(members);
+  const runnerMap = new Map<string, Runner>();
+
+  runners.forEach(runner => {
+    runnerMap.set(runner.runnerId, runner);
+  });
+
+  const { sessions } = accountSessions(records, options);
+  const orgHours = sumHours(sessions);
+  const buckets = bucketSessions(sessions, runnerKeyOf);
+
+  return Array.from(buckets.entries())
+    .map(([runnerId, runnerSessions]) => {
+      const runner = runnerMap.get(runnerId);
+      const totalHours = sumHours(runnerSessions);
+      const users = groupSessionsByUser(runnerSessions, memberMap);
+
+      return {
+        runnerId,
+        runnerName: runnerLabel(runnerId, runnerMap),
+        kind: runner?.kind,
+        provider: runner?.provider,
+        phase: runner?.phase,
+        totalHours,
+        estimatedCost: sumCost(runnerSessions),
+        shareOfTotal: orgHours > 0 ? totalHours / orgHours : 0,
+        userCount: users.length,
+        environmentCount: new Set(runnerSessions.map(session => session.environmentId)).size,
+        users,
+        environments: groupSessionsByEnvironment(runnerSessions, memberMap),
+      };
+    })
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+/**
+ * Usage per repository the environments were created from, so that
+ * environments of the same repository are counted together. Environments
+ * without a known repository are collected under `NO_REPOSITORY_ID`.
+ */
+export function aggregateByRepository(
+  records: UsageRecord[],
+  members: Member[],
+  environments: EnvironmentInfo[],
+  options: AccountingOptions = {}
+): RepositoryUsage[] {
+  const memberMap = buildMemberMap(members);
+  const environmentMap = new Map(environments.map(environment => [environment.environmentId, environment]));
+
+  const { sessions } = accountSessions(records, options);
+  const orgHours = sumHours(sessions);
+  const buckets = bucketSessions(sessions, session => repositoryKeyOf(session, environmentMap));
+
+  return Array.from(buckets.entries())
+    .map(([repository, repositorySessions]) => {
+      const totalHours = sumHours(repositorySessions);
+      const users = groupSessionsByUser(repositorySessions, memberMap);
+
+      return {
+        repository,
+        repositoryName: repositoryLabel(repository),
+        totalHours,
+        estimatedCost: sumCost(repositorySessions),
+        shareOfTotal: orgHours > 0 ? totalHours / orgHours : 0,
+        userCount: users.length,
+        environmentCount: new Set(repositorySessions.map(session => session.environmentId)).size,
+        users,
+        environments: groupSessionsByEnvironment(repositorySessions, memberMap),
+      };
+    })
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+function buildTeamsByUser(teams: Team[]): Map<string, Team[]> {
+  const teamsByUser = new Map<string, Team[]>();
+
+  teams.forEach(team => {
+    team.memberIds.forEach(userId => {
+      if (!teamsByUser.has(userId)) {
+        teamsByUser.set(userId, []);
+      }
+      teamsByUser.get(userId)!.push(team);
+    });
+  });
+
+  return teamsByUser;
+}
+
+/**
+ * Rolls user usage up per team. With `full` attribution a user in several
+ * teams counts fully in each of them, so team totals can add up to more than
+ * the org total; with `split` their usage is divided evenly between their
+ * teams. Users in no team are collected under `NO_TEAM_ID`.
+ */
+export function aggregateByTeam(
+  records: UsageRecord[],
+  members: Member[],
+  teams: Team[],
+  attribution: TeamAttribution = 'full',
+  options: AccountingOptions = {}
+): TeamUsage[] {
+  const teamsByUser = buildTeamsByUser(teams);
+  const teamMap = new Map<string, TeamUsage>();
+
+  teams.forEach(team => {
+    teamMap.set(team.teamId, {
+      teamId: team.teamId,
+      teamName: team.name,
+      memberCount: team.memberIds.length,
+      totalHours: 0,
+      estimatedCost: 0,
+      members: [],
+    });
+  });
+
+  aggregateByUser(records, members, options).forEach(user => {
+    const userTeams = teamsByUser.get(user.userId) || [];
+    const teamIds = userTeams.length > 0 ? userTeams.map(team => team.teamId) : [NO_TEAM_ID];
+    const share = attribution === 'split' ? 1 / teamIds.length : 1;
+
+    teamIds.forEach(teamId => {
+      if (!teamMap.has(teamId)) {
+        teamMap.set(teamId, {
+          teamId,
+          teamName: 'No team',
+          memberCount: 0,
+          totalHours: 0,
+          estimatedCost: 0,
+          members: [],
+        });
+      }
+      const teamUsage = teamMap.get(teamId)!;
+      if (teamId === NO_TEAM_ID) {
+        teamUsage.memberCount++;
+      }
+      teamUsage.totalHours += user.totalHours * share;
+      teamUsage.estimatedCost += user.estimatedCost * share;
+      teamUsage.members.push({
+        userId: user.userId,
+        userName: user.userName,
+        email: user.email,
+        totalHours: user.totalHours * share,
+        estimatedCost: user.estimatedCost * share,
+        share,
+        teamCount: userTeams.length,
+      });
+    });
+  });
+
+  return Array.from(teamMap.values())
+    .filter(team => team.members.length > 0)
+    .map(team => ({ ...team, members: team.members.sort((a, b) => b.totalHours - a.totalHours) }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+export type UsageLookups = Pick<
+  UsageResponse,
+  'members' | 'projects' | 'environmentClasses' | 'runners' | 'teams' | 'environments'
+>;
+
+export function seriesKeyForGroupBy(
+  groupBy: GroupBy,
+  lookups: UsageLookups,
+  attribution: TeamAttribution = 'full'
+): (session: AccountedSession) => SeriesKey | SeriesKey[] {
+  const memberMap = buildMemberMap(lookups.members);
+  const projectMap = new Map(lookups.projects.map(project => [project.projectId, project]));
+  const classMap = new Map(lookups.environmentClasses.map(environmentClass => [
+    environmentClass.environmentClassId,
+    environmentClass,
+  ]));
+  const runnerMap = new Map(lookups.runners.map(runner => [runner.runnerId, runner]));
+  const environmentMap = new Map(lookups.environments.map(environment => [environment.environmentId, environment]));
+
+  switch (groupBy) {
+    case 'environment':
+      return session => ({
+        key: session.environmentId,
+        label: environmentMap.get(session.environmentId)?.name || session.environmentId,
+      });
+    case 'repository':
+      return session => {
+        const key = repositoryKeyOf(session, environmentMap);
+        return { key, label: repositoryLabel(key) };
+      };
+    case 'project':
+      return session => {
+        const key = projectKeyOf(session);
+        return { key, label: projectLabel(key, projectMap) };
+      };
+    case 'environmentClass':
+      return session => {
+        const key = environmentClassKeyOf(session);
+        return { key, label: environmentClassLabel(key, classMap) };
+      };
+    case 'runner':
+      return session => {
+        const key = runnerKeyOf(session);
+        return { key, label: runnerLabel(key, runnerMap) };
+      };
+    case 'team': {
+      const teamsByUser = buildTeamsByUser(lookups.teams);
+      return session => {
+        const userTeams = teamsByUser.get(session.userId);
+        if (!userTeams || userTeams.length === 0) {
+          return { key: NO_TEAM_ID, label: 'No team' };
+        }
+        const weight = attribution === 'split' ? 1 / userTeams.length : 1;
+        return userTeams.map(team => ({ key: team.teamId, label: team.name, weight }));
+      };
+    }
+    default:
+      return session => ({
+        key: session.userId,
+        label: memberMap.get(session.userId)?.fullName || session.userId,
+      });
+  }
+}
+
+export function startOfBucket(time: number, granularity: Granularity, timeZone: string = localTimeZone()): Date {
+  let date = calendarDateOf(time, timeZone);
+  if (granularity === 'week') {
+    // Weeks start on Monday.
+    date = addDays(date, -((dayOfWeek(date) + 6) % 7));
+  } else if (granularity === 'month') {
+    date = { ...date, day: 1 };
+  }
+  return new Date(startOfDay(date, timeZone));
+}
+
+export function nextBucket(date: Date, granularity: Granularity, timeZone: string = localTimeZone()): Date {
+  const day = calendarDateOf(date.getTime(), timeZone);
+  const next = granularity === 'day'
+    ? addDays(day, 1)
+    : granularity === 'week'
+      ? addDays(day, 7)
+      : addMonths(day, 1);
+  return new Date(startOfDay(next, timeZone));
+}
+
+function firstBucketEndingAfter(boundaries: { start: number; end: number }[], time: number): number {
+  let low = 0;
+  let high = boundaries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (boundaries[mid].end <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Splits session hours across calendar buckets. A session that spans a
+ * bucket boundary contributes to each bucket only the hours inside it.
+ * The `topN` series with the most hours keep their own key; the rest are
+ * merged into `OTHER_SERIES_KEY`. `seriesOf` may attribute a session to
+ * several series, each receiving the session's hours times its `weight`.
+ * Buckets start at midnight in `options.timeZone`, or in local time.
+ */
+export function aggregateTimeSeries(
+  records: UsageRecord[],
+  granularity: Granularity,
+  seriesOf: (session: AccountedSession) => SeriesKey | SeriesKey[],
+  options: AccountingOptions & { timeZone?: string } = {},
+  topN: number = DEFAULT_TOP_SERIES
+): TimeSeries {
+  const { sessions } = accountSessions(records, options);
+  const timeZone = options.timeZone || localTimeZone();
+
+  let rangeStart: number;
+  let rangeEnd: number;
+  if (options.window) {
+    rangeStart = new Date(options.window.startTime).getTime();
+    rangeEnd = new Date(options.window.endTime).getTime();
+  } else if (sessions.length > 0) {
+    rangeStart = sessions.reduce((min, session) => Math.min(min, new Date(session.startTime).getTime()), Infinity);
+    rangeEnd = sessions.reduce((max, session) => Math.max(max, new Date(session.endTime).getTime()), -Infinity);
+  } else {
+    return { granularity, series: [], buckets: [] };
+  }
+
+  const boundaries: { start: number; end: number }[] = [];
+  for (let bucket = startOfBucket(rangeStart, granularity, timeZone); bucket.getTime() < rangeEnd; ) {
+    const next = nextBucket(bucket, granularity, timeZone);
+    boundaries.push({ start: bucket.getTime(), end: next.getTime() });
+    bucket = next;
+  }
+
+  const bucketValues = boundaries.map(() => new Map<string, number>());
+  const seriesTotals = new Map<string, SeriesKey & { totalHours: number }>();
+
+  sessions.forEach(session => {
+    const start = new Date(session.startTime).getTime();
+    const end = new Date(session.endTime).getTime();
+    const keys = ([] as SeriesKey[]).concat(seriesOf(session));
+
+    for (let index = firstBucketEndingAfter(boundaries, start); index < boundaries.length; index++) {
+      const boundary = boundaries[index];
+      if (boundary.start >= end) {
+        break;
+      }
+      const overlap = Math.min(end, boundary.end) - Math.max(start, boundary.start);
+      if (overlap <= 0) {
+        continue;
+      }
+      const values = bucketValues[index];
+      keys.forEach(({ key, label, weight = 1 }) => {
+        const hours = (overlap / (1000 * 60 * 60)) * weight;
+        values.set(key, (values.get(key) || 0) + hours);
+
+        if (!seriesTotals.has(key)) {
+          seriesTotals.set(key, { key, label, totalHours: 0 });
+        }
+        seriesTotals.get(key)!.totalHours += hours;
+      });
+    }
+  });
+
+  const ranked = Array.from(seriesTotals.values()).sort((a, b) => b.totalHours - a.totalHours);
+  const series = ranked.slice(0, topN);
+  const rest = ranked.slice(topN);
+  const keptKeys = new Set(series.map(entry => entry.key));
+  if (rest.length > 0) {
+    series.push({
+      key: OTHER_SERIES_KEY,
+      label: `Other (${rest.length})`,
+      totalHours: rest.reduce((sum, entry) => sum + entry.totalHours, 0),
+    });
+  }
+
+  const buckets: TimeSeriesBucket[] = boundaries.map((boundary, index) => {
+    const values: Record<string, number> = {};
+    let totalHours = 0;
+    bucketValues[index].forEach((hours, key) => {
+      const seriesKey = keptKeys.has(key) ? key : OTHER_SERIES_KEY;
+      values[seriesKey] = (values[seriesKey] || 0) + hours;
+      totalHours += hours;
+    });
+    return {
+      startTime: new Date(boundary.start).toISOString(),
+      endTime: new Date(boundary.end).toISOString(),
+      totalHours,
+      values,
+    };
+  });
+
+  return { granularity, series, buckets };
+}
+
+export function totalsByGroup(
+  records: UsageRecord[],
+  seriesOf: (session: AccountedSession) => SeriesKey | SeriesKey[],
+  options: AccountingOptions = {}
+): Map<string, GroupTotal> {
+  const totals = new Map<string, GroupTotal>();
+
+  accountSessions(records, options).sessions.forEach(session => {
+    ([] as SeriesKey[]).concat(seriesOf(session)).forEach(({ key, label, weight = 1 }) => {
+      if (!totals.has(key)) {
+        totals.set(key, { key, label, totalHours: 0, estimatedCost: 0 });
+      }
+      const total = totals.get(key)!;
+      total.totalHours += session.durationHours * weight;
+      total.estimatedCost += session.estimatedCost * weight;
+    });
+  });
+
+  return totals;
+}
+
+/**
+ * Joins per-group totals of two periods on the group key. Groups only in
+ * the current period are `new`, groups only in the baseline are `departed`.
+ * `deltaPercent` is null when there was no baseline usage.
+ */
+export function comparePeriods(
+  current: Map<string, GroupTotal>,
+  baseline: Map<string, GroupTotal>
+): ComparisonRow[] {
+  const keys = new Set([...Array.from(current.keys()), ...Array.from(baseline.keys())]);
+
+  return Array.from(keys)
+    .map(key => {
+      const now = current.get(key);
+      const before = baseline.get(key);
+      const currentHours = now?.totalHours ?? 0;
+      const baselineHours = before?.totalHours ?? 0;
+      const currentCost = now?.estimatedCost ?? 0;
+      const baselineCost = before?.estimatedCost ?? 0;
+
+      return {
+        key,
+        label: now?.label ?? before!.label,
+        currentHours,
+        baselineHours,
+        deltaHours: currentHours - baselineHours,
+        deltaPercent: baselineHours > 0 ? (currentHours - baselineHours) / baselineHours : null,
+        currentCost,
+        baselineCost,
+        deltaCost: currentCost - baselineCost,
+        status: !before ? 'new' as const : !now ? 'departed' as const : 'changed' as const,
+      };
+    })
+    .sort((a, b) => Math.abs(b.deltaHours) - Math.abs(a.deltaHours));
+}
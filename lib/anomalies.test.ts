@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANOMALY_THRESHOLDS, detectAnomalies, offHoursOf } from './anomalies';
+import { Member, UsageRecord } from './types';
+
+const window = { startTime: '2025-01-06T00:00:00Z', endTime: '2025-01-13T00:00:00Z' };
+const trailingWindow = { startTime: '2024-12-09T00:00:00Z', endTime: '2025-01-06T00:00:00Z' };
+const now = new Date(window.endTime);
+const members: Member[] = [
+  { userId: 'u-alice', email: 'alice@acme.test', fullName: 'Alice Example' },
+  { userId: 'u-bob', email: 'bob@acme.test', fullName: 'Bob Example' },
+];
+
+const session = (startTime: string, endTime: string) => ({ startTime, endTime });
+
+const record = (id: string, userId: string, createdAt: string, stoppedAt: string): UsageRecord => ({
+  id,
+  userId,
+  environmentId: `env-${id}`,
+  environmentClassId: 'cls-small',
+  createdAt,
+  stoppedAt,
+});
+
+describe('offHoursOf', () => {
+  it('splits a session at the working hours of the timezone', () => {
+    // Tuesday 18:00–22:00 UTC is 19:00–23:00 in Berlin.
+    const evening = session('2025-01-07T18:00:00Z', '2025-01-07T22:00:00Z');
+
+    expect(offHoursOf(evening, DEFAULT_ANOMALY_THRESHOLDS, 'UTC')).toEqual({ offHours: 2, weekend: false });
+    expect(offHoursOf(evening, DEFAULT_ANOMALY_THRESHOLDS, 'Europe/Berlin')).toEqual({ offHours: 3, weekend: false });
+  });
+
+  it('counts nights between working days as off hours', () => {
+    const overnight = session('2025-01-07T08:00:00Z', '2025-01-08T10:00:00Z');
+
+    expect(offHoursOf(overnight, DEFAULT_ANOMALY_THRESHOLDS, 'UTC')).toEqual({ offHours: 11, weekend: false });
+  });
+
+  it('counts weekend sessions as off hours in full', () => {
+    expect(offHoursOf(session('2025-01-11T10:00:00Z', '2025-01-11T14:00:00Z'), DEFAULT_ANOMALY_THRESHOLDS, 'UTC'))
+      .toEqual({ offHours: 4, weekend: true });
+    // Friday night in UTC is already Saturday in Berlin.
+    const fridayNight = session('2025-01-10T23:00:00Z', '2025-01-10T23:30:00Z');
+    expect(offHoursOf(fridayNight, DEFAULT_ANOMALY_THRESHOLDS, 'UTC').weekend).toBe(false);
+    expect(offHoursOf(fridayNight, DEFAULT_ANOMALY_THRESHOLDS, 'Europe/Berlin').weekend).toBe(true);
+  });
+});
+
+describe('detectAnomalies', () => {
+  const records = [
+    record('long', 'u-alice', '2025-01-07T08:00:00Z', '2025-01-08T00:00:00Z'),
+    record('tue', 'u-bob', '2025-01-07T09:00:00Z', '2025-01-07T17:00:00Z'),
+    record('wed', 'u-bob', '2025-01-08T09:00:00Z', '2025-01-08T17:00:00Z'),
+  ];
+  const trailing = {
+    records: [record('before', 'u-bob', '2024-12-10T06:00:00Z', '2024-12-10T20:00:00Z')],
+    window: trailingWindow,
+  };
+  const kinds = (thresholds = {}) => detectAnomalies(records, { window, now, members, trailing, thresholds, timeZone: 'UTC' })
+    .map(anomaly => [anomaly.kind, anomaly.userId]);
+
+  it('flags long sessions, off hours and spikes past their thresholds', () => {
+    const anomalies = detectAnomalies(records, { window, now, members, trailing, timeZone: 'UTC' });
+
+    expect(anomalies.map(anomaly => [anomaly.kind, anomaly.userName, anomaly.hours])).toEqual([
+      ['longSession', 'Alice Example', 16],
+      ['usageSpike', 'Bob Example', 16 / 7],
+    ]);
+    expect(anomalies[1].baselineHours).toBe(0.5);
+  });
+
+  it('follows the configured thresholds', () => {
+    expect(kinds({ maxSessionHours: 16, maxOffHours: 3 })).toEqual([['offHours', 'u-alice'], ['usageSpike', 'u-bob']]);
+    expect(kinds({ spikeFactor: 5 })).toEqual([['longSession', 'u-alice']]);
+    expect(kinds({ minSpikeHours: 20 })).toEqual([['longSession', 'u-alice']]);
+  });
+
+  it('needs a baseline to flag a spike', () => {
+    expect(detectAnomalies(records, { window, now, members, timeZone: 'UTC' }).map(anomaly => anomaly.kind))
+      .toEqual(['longSession']);
+  });
+});
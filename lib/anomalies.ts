@@ -0,0 +1,158 @@
+import { Anomaly, AnomalyThresholds, AccountingOptions, AccountedSession, Member, TimeWindow, UsageRecord } from './types';
+import { accountSessions } from './accounting';
+import { addDays, atHour, calendarDateOf, CalendarDate, dayOfWeek, localTimeZone, startOfDay } from './date-ranges';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  maxSessionHours: 12,
+  workdayStartHour: 7,
+  workdayEndHour: 20,
+  maxOffHours: 4,
+  trailingDays: 28,
+  spikeFactor: 3,
+  minSpikeHours: 4,
+};
+
+export interface AnomalyInput extends AccountingOptions {
+  window: TimeWindow;
+  members: Member[];
+  thresholds?: Partial<AnomalyThresholds>;
+  /** Usage before `window`, used as each user's trailing baseline. */
+  trailing?: { records: UsageRecord[]; window: TimeWindow };
+  /** Timezone working hours and weekends are in; defaults to the machine's. */
+  timeZone?: string;
+}
+
+function isWeekend(day: CalendarDate): boolean {
+  return dayOfWeek(day) === 0 || dayOfWeek(day) === 6;
+}
+
+function overlapMs(start: number, end: number, from: number, to: number): number {
+  return Math.max(0, Math.min(end, to) - Math.max(start, from));
+}
+
+/**
+ * Splits a session into hours inside working time (weekdays between
+ * `workdayStartHour` and `workdayEndHour` in `timeZone`) and hours outside it.
+ */
+export function offHoursOf(
+  session: Pick<AccountedSession, 'startTime' | 'endTime'>,
+  { workdayStartHour, workdayEndHour }: Pick<AnomalyThresholds, 'workdayStartHour' | 'workdayEndHour'>,
+  timeZone: string = localTimeZone()
+): { offHours: number; weekend: boolean } {
+  const start = new Date(session.startTime).getTime();
+  const end = new Date(session.endTime).getTime();
+  let workingMs = 0;
+  let weekend = false;
+
+  for (let day = calendarDateOf(start, timeZone); startOfDay(day, timeZone) < end; day = addDays(day, 1)) {
+    if (isWeekend(day)) {
+      const dayEnd = startOfDay(addDays(day, 1), timeZone);
+      weekend = weekend || overlapMs(start, end, startOfDay(day, timeZone), dayEnd) > 0;
+      continue;
+    }
+    const workStart = atHour(day, workdayStartHour, timeZone);
+    const workEnd = atHour(day, workdayEndHour, timeZone);
+    workingMs += overlapMs(start, end, workStart, workEnd);
+  }
+
+  return { offHours: (end - start - workingMs) / MS_PER_HOUR, weekend };
+}
+
+function windowDays(window: TimeWindow): number {
+  const ms = new Date(window.endTime).getTime() - new Date(window.startTime).getTime();
+  return Math.max(ms / MS_PER_DAY, 1 / 24);
+}
+
+function sessionsByUser(sessions: AccountedSession[]): Map<string, AccountedSession[]> {
+  const byUser = new Map<string, AccountedSession[]>();
+  sessions.forEach(session => {
+    const userSessions = byUser.get(session.userId);
+    if (userSessions) {
+      userSessions.push(session);
+    } else {
+      byUser.set(session.userId, [session]);
+    }
+  });
+  return byUser;
+}
+
+function sumHours(sessions: AccountedSession[]): number {
+  return sessions.reduce((sum, session) => sum + session.durationHours, 0);
+}
+
+/**
+ * Flags usage worth a second look:
+ * - `longSession`: sessions longer than `maxSessionHours`
+ * - `offHours`: sessions with more than `maxOffHours` outside working time,
+ *   i.e. running through nights or weekends
+ * - `usageSpike`: users whose hours per day in `window` are at least
+ *   `spikeFactor` times their hours per day in the trailing window
+ *
+ * Session checks use each session's full length, including time outside
+ * `window`, for every session overlapping it. Users without trailing usage
+ * have no baseline and are never flagged as spikes.
+ */
+export function detectAnomalies(records: UsageRecord[], input: AnomalyInput): Anomaly[] {
+  const thresholds = { ...DEFAULT_ANOMALY_THRESHOLDS, ...input.thresholds };
+  const { window, now = new Date(), rateCard, members, trailing, timeZone = localTimeZone() } = input;
+  const memberMap = new Map(members.map(member => [member.userId, member]));
+  const userNameOf = (userId: string) => memberMap.get(userId)?.fullName || userId;
+  const windowStart = new Date(window.startTime).getTime();
+  const windowEnd = new Date(window.endTime).getTime();
+  const anomalies: Anomaly[] = [];
+
+  accountSessions(records, { now, rateCard }).sessions
+    .filter(session => (
+      new Date(session.endTime).getTime() > windowStart && new Date(session.startTime).getTime() < windowEnd
+    ))
+    .forEach(session => {
+      const base = {
+        userId: session.userId,
+        userName: userNameOf(session.userId),
+        environmentId: session.environmentId,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        inProgress: session.inProgress,
+        estimatedCost: session.estimatedCost,
+      };
+      if (session.durationHours > thresholds.maxSessionHours) {
+        anomalies.push({ ...base, kind: 'longSession', hours: session.durationHours });
+      }
+      const { offHours, weekend } = offHoursOf(session, thresholds, timeZone);
+      if (offHours > thresholds.maxOffHours) {
+        anomalies.push({ ...base, kind: 'offHours', hours: offHours, weekend });
+      }
+    });
+
+  if (trailing) {
+    const current = sessionsByUser(accountSessions(records, { window, now, rateCard }).sessions);
+    const baseline = sessionsByUser(
+      accountSessions(trailing.records, { window: trailing.window, now }).sessions
+    );
+    const currentDays = windowDays(window);
+    const baselineDays = windowDays(trailing.window);
+
+    current.forEach((userSessions, userId) => {
+      const hours = sumHours(userSessions);
+      const rate = hours / currentDays;
+      const baselineRate = sumHours(baseline.get(userId) || []) / baselineDays;
+      if (!baselineRate || hours < thresholds.minSpikeHours || rate < baselineRate * thresholds.spikeFactor) {
+        return;
+      }
+      anomalies.push({
+        kind: 'usageSpike',
+        userId,
+        userName: userNameOf(userId),
+        inProgress: userSessions.some(session => session.inProgress),
+        hours: rate,
+        baselineHours: baselineRate,
+        estimatedCost: userSessions.reduce((sum, session) => sum + session.estimatedCost, 0),
+      });
+    });
+  }
+
+  return anomalies.sort((a, b) => b.estimatedCost - a.estimatedCost || b.hours - a.hours);
+}
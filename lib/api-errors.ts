@@ -0,0 +1,40 @@
+import { AccessDeniedError, AuthenticationError } from './auth';
+import { DateRangeError } from './date-ranges';
+import { OrganizationAccessError } from './organizations';
+import { ApiErrorBody, ApiErrorCode } from './types';
+import { UpstreamError } from './upstream';
+
+/** A request parameter is missing or invalid. */
+export class InvalidArgumentError extends Error {}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  invalid_argument: 400,
+  unauthenticated: 401,
+  permission_denied: 403,
+  unavailable: 503,
+  internal: 500,
+};
+
+function errorCode(error: unknown): ApiErrorCode {
+  if (error instanceof InvalidArgumentError || error instanceof DateRangeError) return 'invalid_argument';
+  if (error instanceof AuthenticationError) return 'unauthenticated';
+  if (error instanceof AccessDeniedError || error instanceof OrganizationAccessError) return 'permission_denied';
+  if (error instanceof UpstreamError && error.retryable) return 'unavailable';
+  return 'internal';
+}
+
+/** HTTP status for an error thrown while serving any route. */
+export function errorStatus(error: unknown): number {
+  return STATUS_BY_CODE[errorCode(error)];
+}
+
+/**
+ * Status and body for an error thrown while serving the versioned API. The
+ * codes follow the Connect codes the Ona API itself uses.
+ */
+export function toApiError(error: unknown): { status: number; body: ApiErrorBody } {
+  const code = errorCode(error);
+  const status = STATUS_BY_CODE[code];
+  const message = error instanceof Error && error.message ? error.message : 'Internal error';
+  return { status, body: { error: { code, message, status } } };
+}
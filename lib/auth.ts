@@ -0,0 +1,158 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { OrganizationRole } from '@gitpod/sdk/resources/shared';
+import { authEnabled, sessionSecret } from './config';
+import { createClient } from './ona';
+import { SessionUser, UserRole } from './types';
+
+export const SESSION_COOKIE = 'ona_session';
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+/** No valid session; the user has to sign in (again). */
+export class AuthenticationError extends Error {}
+
+/** Signed in, but the user's role does not allow the request. */
+export class AccessDeniedError extends Error {}
+
+interface SessionPayload extends SessionUser {
+  expiresAt: number;
+}
+
+let fallbackSecret: string | null = null;
+
+function signingSecret(): string {
+  const secret = sessionSecret();
+  if (secret) {
+    return secret;
+  }
+  if (!fallbackSecret) {
+    console.warn('ONA_SESSION_SECRET is not set; sessions will not survive a restart');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', signingSecret()).update(payload).digest('base64url');
+}
+
+export function toUserRole(role: OrganizationRole | undefined): UserRole | null {
+  if (role === 'ORGANIZATION_ROLE_ADMIN') return 'admin';
+  if (role === 'ORGANIZATION_ROLE_MEMBER') return 'member';
+  return null;
+}
+
+/** Cookie value for `user`: the session as base64url JSON plus its HMAC. */
+export function encodeSession(user: SessionUser, now: Date = new Date()): string {
+  const payload: SessionPayload = { ...user, expiresAt: now.getTime() + SESSION_TTL_MS };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/** The user in a session cookie, or null when it is missing, tampered with or expired. */
+export function decodeSession(value: string | undefined, now: Date = new Date()): SessionUser | null {
+  const [encoded, signature] = (value || '').split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    const { expiresAt, ...user }: SessionPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return expiresAt > now.getTime() ? user : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signed-in user for a request's session cookie. Returns null when
+ * sign-in is turned off, meaning full access; throws when it is on and there
+ * is no valid session.
+ */
+export function currentUser(cookie: string | undefined): SessionUser | null {
+  if (!authEnabled()) {
+    return null;
+  }
+  const user = decodeSession(cookie);
+  if (!user) {
+    throw new AuthenticationError('Sign in to view usage');
+  }
+  return user;
+}
+
+/** Whether an `Authorization` header carries `token` as its bearer token. */
+export function matchesBearerToken(header: string | null, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header || '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Throws unless sign-in is off or `user` is an admin of `organizationId`. */
+export function requireAdmin(user: SessionUser | null, organizationId: string | null) {
+  if (user && (!organizationId || user.roles[organizationId] !== 'admin')) {
+    throw new AccessDeniedError('Only organization admins can see this');
+  }
+}
+
+/**
+ * Identifies the owner of a personal access token and their role in each of
+ * their organizations. The token is only used here; it is not kept.
+ */
+export async function signIn(token: string): Promise<SessionUser> {
+  const client = createClient(token);
+  if (!client) {
+    throw new AuthenticationError('Enter a personal access token');
+  }
+
+  let identity;
+  try {
+    identity = await client.identity.getAuthenticatedIdentity({});
+  } catch (error: any) {
+    if (error?.status === 401 || error?.status === 403) {
+      throw new AuthenticationError('The access token is invalid or expired');
+    }
+    throw error;
+  }
+  const userId = identity.subject?.id;
+  const organizationId = identity.organizationId;
+  if (!userId || !organizationId || identity.subject?.principal !== 'PRINCIPAL_USER') {
+    throw new AuthenticationError('Sign in with a personal access token of a user account');
+  }
+
+  const user: SessionUser = { userId, name: userId, email: '', organizationId, roles: {} };
+  try {
+    const { account } = await client.accounts.retrieve({});
+    user.name = account.name || userId;
+    user.email = account.email || '';
+    account.memberships?.forEach(membership => {
+      const role = toUserRole(membership.userRole);
+      if (role) {
+        user.roles[membership.organizationId] = role;
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching account memberships:', error);
+  }
+
+  // Fall back to the member list when memberships don't cover the token's organization.
+  if (!user.roles[organizationId]) {
+    for await (const member of client.organizations.listMembers({
+      organizationId,
+      pagination: {
+        pageSize: 100,
+      },
+    })) {
+      if (member.userId === userId) {
+        user.roles[organizationId] = toUserRole(member.role) || 'member';
+        break;
+      }
+    }
+  }
+  if (!user.roles[organizationId]) {
+    throw new AuthenticationError('You are not a member of the access token\'s organization');
+  }
+  return user;
+}
@@ -0,0 +1,255 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import Gitpod from '@gitpod/sdk';
+import { accountSessions } from './accounting';
+import { aggregateByUser, aggregateByProject } from './aggregation';
+import { loadBudgets, budgetWebhookUrl, budgetStatePath, budgetCheckIntervalMs } from './config';
+import { postWebhook, FetchLike, SlackMessage } from './notify';
+import { fetchUsage, createClient } from './ona';
+import { formatCost } from './pricing';
+import { Budget, BudgetState, BudgetStatus, BudgetResponse, UsageResponse } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const STATE_SEVERITY: Record<BudgetState, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+export type BudgetStateMap = Record<string, BudgetState>;
+
+export function budgetStatusKey(status: Pick<BudgetStatus, 'budgetId' | 'subjectId'>): string {
+  return `${status.budgetId}:${status.subjectId}`;
+}
+
+function utilizationOf(budget: Budget, usedHours: number, usedCost: number): number {
+  const ratios: number[] = [];
+  if (budget.limitHours !== undefined) {
+    ratios.push(budget.limitHours > 0 ? usedHours / budget.limitHours : usedHours > 0 ? 1 : 0);
+  }
+  if (budget.limitCost !== undefined) {
+    ratios.push(budget.limitCost > 0 ? usedCost / budget.limitCost : usedCost > 0 ? 1 : 0);
+  }
+  return Math.max(0, ...ratios);
+}
+
+function stateOf(budget: Budget, utilization: number): BudgetState {
+  if (utilization >= 1) {
+    return 'exceeded';
+  }
+  return utilization >= budget.warnThreshold ? 'warning' : 'ok';
+}
+
+/**
+ * Evaluates each budget over its rolling period ending at `now`, using the
+ * same accounting as the dashboard. User and project budgets without a
+ * `target` apply to every user or project individually.
+ */
+export function evaluateBudgets(budgets: Budget[], data: UsageResponse, now: Date = new Date()): BudgetStatus[] {
+  const statuses: BudgetStatus[] = [];
+
+  budgets.forEach(budget => {
+    const window = {
+      startTime: new Date(now.getTime() - budget.periodDays * MS_PER_DAY).toISOString(),
+      endTime: now.toISOString(),
+    };
+    const options = { window, now, rateCard: data.rateCard };
+    let subjects: { subjectId: string; subjectName: string; usedHours: number; usedCost: number }[];
+
+    if (budget.scope === 'user') {
+      const users = aggregateByUser(data.usageRecords, data.members, options);
+      subjects = users
+        .filter(user => !budget.target || user.userId === budget.target || user.email === budget.target)
+        .map(user => ({
+          subjectId: user.userId,
+          subjectName: user.userName,
+          usedHours: user.totalHours,
+          usedCost: user.estimatedCost,
+        }));
+      if (budget.target && subjects.length === 0) {
+        subjects = [{ subjectId: budget.target, subjectName: budget.target, usedHours: 0, usedCost: 0 }];
+      }
+    } else if (budget.scope === 'project') {
+      const projects = aggregateByProject(data.usageRecords, data.members, data.projects, options);
+      subjects = projects
+        .filter(project => !budget.target || project.projectId === budget.target)
+        .map(project => ({
+          subjectId: project.projectId,
+          subjectName: project.projectName,
+          usedHours: project.totalHours,
+          usedCost: project.estimatedCost,
+        }));
+      if (budget.target && subjects.length === 0) {
+        subjects = [{ subjectId: budget.target, subjectName: budget.target, usedHours: 0, usedCost: 0 }];
+      }
+    } else {
+      const { sessions } = accountSessions(data.usageRecords, options);
+      subjects = [{
+        subjectId: 'org',
+        subjectName: 'Organization',
+        usedHours: sessions.reduce((sum, session) => sum + session.durationHours, 0),
+        usedCost: sessions.reduce((sum, session) => sum + session.estimatedCost, 0),
+      }];
+    }
+
+    subjects.forEach(subject => {
+      const utilization = utilizationOf(budget, subject.usedHours, subject.usedCost);
+      statuses.push({
+        budgetId: budget.id,
+        budgetName: budget.name,
+        scope: budget.scope,
+        ...subject,
+        periodStart: window.startTime,
+        periodEnd: window.endTime,
+        limitHours: budget.limitHours,
+        limitCost: budget.limitCost,
+        utilization,
+        state: stateOf(budget, utilization),
+      });
+    });
+  });
+
+  return statuses.sort((a, b) => b.utilization - a.utilization);
+}
+
+/**
+ * Returns the statuses whose state got more severe since `previous`.
+ * Dropping back to a lower state is not a crossing, but re-arms the alert.
+ */
+export function detectCrossings(statuses: BudgetStatus[], previous: BudgetStateMap): BudgetStatus[] {
+  return statuses.filter(status => {
+    const before = previous[budgetStatusKey(status)] ?? 'ok';
+    return STATE_SEVERITY[status.state] > STATE_SEVERITY[before];
+  });
+}
+
+export function formatBudgetAlert(status: BudgetStatus, currency: string): SlackMessage {
+  const icon = status.state === 'exceeded' ? ':rotating_light:' : ':warning:';
+  const usage: string[] = [];
+  if (status.limitHours !== undefined) {
+    usage.push(`${status.usedHours.toFixed(1)} of ${status.limitHours} hours`);
+  }
+  if (status.limitCost !== undefined) {
+    usage.push(`${formatCost(status.usedCost, currency)} of ${formatCost(status.limitCost, currency)}`);
+  }
+  const days = Math.round(
+    (new Date(status.periodEnd).getTime() - new Date(status.periodStart).getTime()) / MS_PER_DAY
+  );
+  const text = `${icon} Budget "${status.budgetName}" ${status.state} for ${status.subjectName}: ` +
+    `${usage.join(', ')} (${Math.round(status.utilization * 100)}%) in the last ${days} days`;
+
+  return {
+    text,
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }],
+  };
+}
+
+async function readBudgetState(statePath: string): Promise<BudgetStateMap> {
+  try {
+    return JSON.parse(await fs.readFile(statePath, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writeBudgetState(statePath: string, state: BudgetStateMap): Promise<void> {
+  await fs.mkdir(path.dirname(statePath), { recursive: true });
+  await fs.writeFile(statePath, JSON.stringify(state));
+}
+
+/**
+ * Fetches usage for the longest budget period and evaluates every budget
+ * at `now`, without notifying anyone.
+ */
+export async function checkBudgets(client: Gitpod, now: Date = new Date()): Promise<BudgetResponse> {
+  const budgets = loadBudgets();
+  if (budgets.length === 0) {
+    return { statuses: [], currency: 'USD', evaluatedAt: now.toISOString(), notified: 0 };
+  }
+
+  const longestPeriod = Math.max(...budgets.map(budget => budget.periodDays));
+  const data = await fetchUsage(client, {
+    startTime: new Date(now.getTime() - longestPeriod * MS_PER_DAY).toISOString(),
+    endTime: now.toISOString(),
+  });
+
+  return {
+    statuses: evaluateBudgets(budgets, data, now),
+    currency: data.rateCard.currency,
+    evaluatedAt: now.toISOString(),
+    notified: 0,
+  };
+}
+
+export interface BudgetCheckOptions {
+  now?: Date;
+  webhookUrl?: string | null;
+  statePath?: string;
+  fetchImpl?: FetchLike;
+}
+
+/**
+ * Evaluates every budget and posts an alert for each new crossing. The last
+ * notified state is kept on disk so an alert is sent once per crossing, not
+ * once per check.
+ */
+export async function runBudgetCheck(client: Gitpod, options: BudgetCheckOptions = {}): Promise<BudgetResponse> {
+  const result = await checkBudgets(client, options.now);
+  const webhookUrl = options.webhookUrl === undefined ? budgetWebhookUrl() : options.webhookUrl;
+  const statePath = options.statePath ?? budgetStatePath();
+
+  if (result.statuses.length === 0) {
+    return result;
+  }
+
+  const previous = await readBudgetState(statePath);
+  const crossings = detectCrossings(result.statuses, previous);
+  let notified = 0;
+  const nextState: BudgetStateMap = {};
+  result.statuses.forEach(status => {
+    nextState[budgetStatusKey(status)] = status.state;
+  });
+
+  for (const status of crossings) {
+    if (webhookUrl) {
+      try {
+        await postWebhook(webhookUrl, formatBudgetAlert(status, result.currency), options.fetchImpl);
+        notified++;
+        continue;
+      } catch (error) {
+        console.error('Error delivering budget alert:', error);
+      }
+    }
+    // Keep the previous state so the crossing is alerted on a later check,
+    // also when no webhook is configured yet.
+    nextState[budgetStatusKey(status)] = previous[budgetStatusKey(status)] ?? 'ok';
+  }
+
+  await writeBudgetState(statePath, nextState);
+
+  return { ...result, notified };
+}
+
+let monitorTimer: ReturnType<typeof setInterval> | null = null;
+
+export function startBudgetMonitor(): void {
+  const intervalMs = budgetCheckIntervalMs();
+  if (!intervalMs || monitorTimer) {
+    return;
+  }
+
+  const check = async () => {
+    const client = createClient();
+    if (!client) {
+      return;
+    }
+    try {
+      await runBudgetCheck(client);
+    } catch (error) {
+      console.error('Error running budget check:', error);
+    }
+  };
+
+  monitorTimer = setInterval(check, intervalMs);
+  monitorTimer.unref?.();
+  check();
+}
@@ -0,0 +1,225 @@
+import { aggregateByProject } from './aggregation';
+import { calendarDateOf, formatCalendarDate } from './date-ranges';
+import { escapeHtml } from './digest';
+import { formatCost } from './pricing';
+import {
+  ChargebackLine,
+  ChargebackResponse,
+  CostCenterAllocation,
+  CostCenterConfig,
+  CostCenterMatch,
+  CostCenterRule,
+  Team,
+  UsageResponse,
+} from './types';
+
+export const UNMAPPED_COST_CENTER_ID = 'unmapped';
+
+const MATCH_LABELS: Record<CostCenterMatch, string> = {
+  user: 'User',
+  project: 'Project',
+  group: 'Group',
+  emailDomain: 'Email domain',
+};
+
+function ruleMatches(rule: CostCenterRule, line: ChargebackLine, groups: Team[]): boolean {
+  const value = rule.value.toLowerCase();
+  switch (rule.match) {
+    case 'user':
+      return rule.value === line.userId || (!!line.email && value === line.email.toLowerCase());
+    case 'project':
+      return rule.value === line.projectId || rule.value === line.projectName;
+    case 'group':
+      return groups.some(group => rule.value === group.teamId || rule.value === group.name);
+    case 'emailDomain':
+      return !!line.email && value.replace(/^@/, '') === line.email.split('@')[1]?.toLowerCase();
+  }
+}
+
+/** The first rule of the strongest kind that matches, or null. */
+function matchRule(config: CostCenterConfig, line: ChargebackLine, groups: Team[]): CostCenterRule | null {
+  for (const match of config.precedence) {
+    const rule = config.rules.find(rule => rule.match === match && ruleMatches(rule, line, groups));
+    if (rule) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Charges each user's usage per project to a cost center. Lines no rule
+ * matches go to the default cost center, or to an `unmapped` bucket without
+ * one, and are listed under `unmapped` either way. Without a config
+ * everything is unmapped.
+ */
+export function allocateChargeback(data: UsageResponse, config: CostCenterConfig | null): ChargebackResponse {
+  const options = { window: data.window, now: new Date(data.asOf), rateCard: data.rateCard };
+  const lines: ChargebackLine[] = aggregateByProject(data.usageRecords, data.members, data.projects, options)
+    .flatMap(project => project.users.map(user => ({
+      userId: user.userId,
+      userName: user.userName,
+      email: user.email,
+      projectId: project.projectId,
+      projectName: project.projectName,
+      totalHours: user.totalHours,
+      estimatedCost: user.estimatedCost,
+      matchedBy: null,
+    })))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || b.totalHours - a.totalHours);
+
+  const totalHours = lines.reduce((sum, line) => sum + line.totalHours, 0);
+  const chargedTo = config?.defaultCostCenterId || UNMAPPED_COST_CENTER_ID;
+  const allocations = new Map<string, CostCenterAllocation>();
+  const allocation = (costCenterId: string, costCenterName: string) => {
+    if (!allocations.has(costCenterId)) {
+      allocations.set(costCenterId, {
+        costCenterId,
+        costCenterName,
+        totalHours: 0,
+        estimatedCost: 0,
+        shareOfTotal: 0,
+        lines: [],
+      });
+    }
+    return allocations.get(costCenterId)!;
+  };
+  config?.costCenters.forEach(center => allocation(center.id, center.name));
+
+  const unmapped: ChargebackLine[] = [];
+  lines.forEach(line => {
+    const groups = data.teams.filter(team => team.memberIds.includes(line.userId));
+    const rule = config ? matchRule(config, line, groups) : null;
+    line.matchedBy = rule?.match ?? null;
+    if (!rule) {
+      unmapped.push(line);
+    }
+    const center = allocation(rule?.costCenterId || chargedTo, 'Unmapped');
+    center.lines.push(line);
+    center.totalHours += line.totalHours;
+    center.estimatedCost += line.estimatedCost;
+  });
+
+  const costCenters = Array.from(allocations.values())
+    .map(center => ({ ...center, shareOfTotal: totalHours > 0 ? center.totalHours / totalHours : 0 }))
+    .sort((a, b) =>
+      Number(a.costCenterId === UNMAPPED_COST_CENTER_ID) - Number(b.costCenterId === UNMAPPED_COST_CENTER_ID) ||
+      b.estimatedCost - a.estimatedCost ||
+      b.totalHours - a.totalHours
+    );
+
+  return {
+    organizationIds: data.organizationIds,
+    window: data.window,
+    timeZone: data.timeZone,
+    asOf: data.asOf,
+    currency: data.rateCard.currency,
+    configured: !!config && config.costCenters.length > 0,
+    costCenters,
+    totals: {
+      totalHours,
+      estimatedCost: lines.reduce((sum, line) => sum + line.estimatedCost, 0),
+    },
+    unmapped: {
+      totalHours: unmapped.reduce((sum, line) => sum + line.totalHours, 0),
+      estimatedCost: unmapped.reduce((sum, line) => sum + line.estimatedCost, 0),
+      chargedTo,
+      lines: unmapped,
+    },
+    accounting: data.accounting,
+  };
+}
+
+/** First and last day of the window in its timezone; the end itself is exclusive. */
+function formatStatementPeriod(chargeback: ChargebackResponse): string {
+  const { window, timeZone } = chargeback;
+  const first = formatCalendarDate(calendarDateOf(new Date(window.startTime).getTime(), timeZone));
+  const last = formatCalendarDate(calendarDateOf(new Date(window.endTime).getTime() - 1, timeZone));
+  return `${first} – ${last} (${timeZone})`;
+}
+
+function renderTable(columns: string[], textColumns: number, rows: string[][], footer?: string[]): string {
+  const cell = 'padding:4px 12px;border-bottom:1px solid #e0e0e0;';
+  const align = (index: number) => (index < textColumns ? 'left' : 'right');
+  const renderRow = (row: string[], tag: 'th' | 'td', extra = '') => `<tr>${row
+    .map((value, index) => `<${tag} style="${cell}${extra}text-align:${align(index)}">${escapeHtml(value)}</${tag}>`)
+    .join('')}</tr>`;
+  return [
+    '<table style="border-collapse:collapse;width:100%">',
+    `<thead>${renderRow(columns, 'th')}</thead>`,
+    `<tbody>${rows.map(row => renderRow(row, 'td')).join('')}</tbody>`,
+    footer ? `<tfoot>${renderRow(footer, 'th', 'border-top:2px solid #000;')}</tfoot>` : '',
+    '</table>',
+  ].join('');
+}
+
+/** A printable HTML statement of the hours and estimated cost per cost center. */
+export function renderChargebackStatement(chargeback: ChargebackResponse): string {
+  const cost = (amount: number) => formatCost(amount, chargeback.currency);
+  const hours = (value: number) => value.toFixed(1);
+  const period = formatStatementPeriod(chargeback);
+  const chargedTo = chargeback.costCenters.find(center => center.costCenterId === chargeback.unmapped.chargedTo);
+  const lineRow = (line: ChargebackLine) => [
+    line.userName,
+    line.email,
+    line.projectName,
+    line.matchedBy ? MATCH_LABELS[line.matchedBy] : 'No rule',
+    hours(line.totalHours),
+    cost(line.estimatedCost),
+  ];
+  const lineColumns = ['User', 'Email', 'Project', 'Matched by', 'Hours', 'Estimated cost'];
+
+  const unmapped = chargeback.unmapped.lines.length === 0
+    ? '<p>All usage matched a cost center rule.</p>'
+    : [
+      '<div style="border:2px solid #FF8A00;padding:8px 12px;margin-bottom:12px">',
+      `<strong>${hours(chargeback.unmapped.totalHours)} hours (${escapeHtml(cost(chargeback.unmapped.estimatedCost))}) ` +
+        'matched no cost center rule</strong> and ' +
+        (chargeback.unmapped.chargedTo === UNMAPPED_COST_CENTER_ID
+          ? 'are not allocated to any cost center.'
+          : `were charged to the default cost center, ${escapeHtml(chargedTo?.costCenterName || chargeback.unmapped.chargedTo)}.`),
+      '</div>',
+      renderTable(lineColumns, 4, chargeback.unmapped.lines.map(lineRow)),
+    ].join('');
+
+  const details = chargeback.costCenters
+    .filter(center => center.lines.length > 0)
+    .map(center => [
+      `<h3 style="break-after:avoid">${escapeHtml(center.costCenterName)} <span style="color:#666">${escapeHtml(center.costCenterId)}</span></h3>`,
+      renderTable(lineColumns, 4, center.lines.map(lineRow), [
+        'Total', '', '', '', hours(center.totalHours), cost(center.estimatedCost),
+      ]),
+    ].join(''));
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>Ona chargeback statement ${escapeHtml(period)}</title>`,
+    '<style>@page{margin:1.5cm}@media print{h2{break-before:auto}table{break-inside:auto}tr{break-inside:avoid}}</style>',
+    '</head>',
+    '<body style="font-family:system-ui,sans-serif;color:#000;background:#fff">',
+    '<h1 style="color:#1F53FF">Chargeback statement</h1>',
+    `<p>Period: ${escapeHtml(period)}<br>Organizations: ${escapeHtml(chargeback.organizationIds.join(', '))}<br>` +
+      `Currency: ${escapeHtml(chargeback.currency)}</p>`,
+    '<h2>Cost centers</h2>',
+    renderTable(
+      ['Cost center', 'ID', 'Hours', 'Estimated cost', 'Share'],
+      2,
+      chargeback.costCenters.map(center => [
+        center.costCenterName,
+        center.costCenterId,
+        hours(center.totalHours),
+        cost(center.estimatedCost),
+        `${(center.shareOfTotal * 100).toFixed(1)}%`,
+      ]),
+      ['Total', '', hours(chargeback.totals.totalHours), cost(chargeback.totals.estimatedCost), '100.0%']
+    ),
+    '<h2>Unmapped usage</h2>',
+    unmapped,
+    '<h2>Details</h2>',
+    ...(details.length > 0 ? details : ['<p>No usage.</p>']),
+    `<p style="color:#666">Estimated from environment hours and the rate card as of ${escapeHtml(chargeback.asOf)}. ` +
+      `${chargeback.accounting.malformedRecords} malformed usage records were left out.</p>`,
+    '</body></html>',
+  ].join('\n');
+}
@@ -0,0 +1,432 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { Budget, CostCenterConfig, CostCenterMatch, CostCenterRule, RateCard } from './types';
+import { DEFAULT_RATE_CARD } from './pricing';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './date-ranges';
+
+const DEFAULT_RATE_CARD_PATH = 'rate-card.json';
+const DEFAULT_USAGE_STORE_DIR = '.usage-store';
+const DEFAULT_BUDGETS_PATH = 'budgets.json';
+const DEFAULT_BUDGET_STATE_PATH = '.usage-store/budget-state.json';
+const DEFAULT_ORGANIZATION_TOKENS_PATH = 'organization-tokens.json';
+const DEFAULT_COST_CENTERS_PATH = 'cost-centers.json';
+const DEFAULT_DIGEST_DIR = 'digests';
+const DEFAULT_DIGEST_DAY = 1;
+const DEFAULT_DIGEST_HOUR = 8;
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function loadJsonConfig(inlineVar: string, pathVar: string, defaultPath: string): unknown | undefined {
+  const inline = process.env[inlineVar];
+  if (inline) {
+    return JSON.parse(inline);
+  }
+
+  const filePath = path.resolve(process.cwd(), process.env[pathVar] || defaultPath);
+  if (!existsSync(filePath)) {
+    if (process.env[pathVar]) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+    return undefined;
+  }
+
+  return JSON.parse(readFileSync(filePath, 'utf8'));
+}
+
+export function parseRateCard(raw: unknown): RateCard {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Rate card must be a JSON object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  const currency = input.currency ?? DEFAULT_RATE_CARD.currency;
+  const defaultHourlyRate = input.defaultHourlyRate ?? DEFAULT_RATE_CARD.defaultHourlyRate;
+  const rates = input.rates ?? {};
+
+  if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency)) {
+    throw new Error('Rate card currency must be a three-letter ISO 4217 code');
+  }
+  if (!isNonNegativeNumber(defaultHourlyRate)) {
+    throw new Error('Rate card defaultHourlyRate must be a non-negative number');
+  }
+  if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+    throw new Error('Rate card rates must map environment class IDs to hourly prices');
+  }
+
+  const parsedRates: Record<string, number> = {};
+  Object.entries(rates).forEach(([environmentClassId, rate]) => {
+    if (!isNonNegativeNumber(rate)) {
+      throw new Error(`Rate card rate for ${environmentClassId} must be a non-negative number`);
+    }
+    parsedRates[environmentClassId] = rate;
+  });
+
+  return { currency, defaultHourlyRate, rates: parsedRates };
+}
+
+/**
+ * Loads the rate card from `ONA_RATE_CARD` (inline JSON) or from the file at
+ * `ONA_RATE_CARD_PATH` (default `rate-card.json`). Without either, every
+ * class is priced at zero.
+ */
+export function loadRateCard(): RateCard {
+  const raw = loadJsonConfig('ONA_RATE_CARD', 'ONA_RATE_CARD_PATH', DEFAULT_RATE_CARD_PATH);
+  return raw === undefined ? DEFAULT_RATE_CARD : parseRateCard(raw);
+}
+
+/**
+ * Access tokens for organizations other than the one `ONA_PAT` belongs to,
+ * keyed by organization ID.
+ */
+export function loadOrganizationTokens(): Record<string, string> {
+  const raw = loadJsonConfig(
+    'ONA_ORGANIZATION_TOKENS',
+    'ONA_ORGANIZATION_TOKENS_PATH',
+    DEFAULT_ORGANIZATION_TOKENS_PATH
+  );
+  if (raw === undefined) {
+    return {};
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Organization tokens must be a JSON object of organization ID to token');
+  }
+  Object.entries(raw).forEach(([organizationId, token]) => {
+    if (typeof token !== 'string' || !token) {
+      throw new Error(`Token for organization ${organizationId} must be a non-empty string`);
+    }
+  });
+  return raw as Record<string, string>;
+}
+
+/**
+ * Directory of the persistent usage store, from `ONA_USAGE_STORE_DIR`
+ * (default `.usage-store`). Returns null when `ONA_USAGE_STORE` is `off`.
+ */
+export function usageStoreDir(): string | null {
+  if (process.env.ONA_USAGE_STORE === 'off') {
+    return null;
+  }
+  return path.resolve(process.cwd(), process.env.ONA_USAGE_STORE_DIR || DEFAULT_USAGE_STORE_DIR);
+}
+
+export function parseBudgets(raw: unknown): Budget[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Budgets must be a JSON array');
+  }
+
+  const ids = new Set<string>();
+  return raw.map((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Budget ${index} must be an object`);
+    }
+    const input = entry as Record<string, unknown>;
+    const id = typeof input.id === 'string' && input.id ? input.id : `budget-${index + 1}`;
+    if (ids.has(id)) {
+      throw new Error(`Duplicate budget id: ${id}`);
+    }
+    ids.add(id);
+
+    const scope = input.scope ?? 'org';
+    if (scope !== 'user' && scope !== 'project' && scope !== 'org') {
+      throw new Error(`Budget ${id} scope must be user, project or org`);
+    }
+    if (input.target !== undefined && typeof input.target !== 'string') {
+      throw new Error(`Budget ${id} target must be a string`);
+    }
+    if (!isNonNegativeNumber(input.periodDays) || input.periodDays === 0) {
+      throw new Error(`Budget ${id} periodDays must be a positive number`);
+    }
+    if (input.limitHours === undefined && input.limitCost === undefined) {
+      throw new Error(`Budget ${id} needs limitHours or limitCost`);
+    }
+    if (input.limitHours !== undefined && !isNonNegativeNumber(input.limitHours)) {
+      throw new Error(`Budget ${id} limitHours must be a non-negative number`);
+    }
+    if (input.limitCost !== undefined && !isNonNegativeNumber(input.limitCost)) {
+      throw new Error(`Budget ${id} limitCost must be a non-negative number`);
+    }
+    const warnThreshold = input.warnThreshold ?? 0.8;
+    if (!isNonNegativeNumber(warnThreshold) || warnThreshold > 1) {
+      throw new Error(`Budget ${id} warnThreshold must be between 0 and 1`);
+    }
+
+    return {
+      id,
+      name: typeof input.name === 'string' && input.name ? input.name : id,
+      scope,
+      target: input.target as string | undefined,
+      periodDays: input.periodDays,
+      limitHours: input.limitHours as number | undefined,
+      limitCost: input.limitCost as number | undefined,
+      warnThreshold,
+    };
+  });
+}
+
+/**
+ * Loads budgets from `ONA_BUDGETS` (inline JSON) or from the file at
+ * `ONA_BUDGETS_PATH` (default `budgets.json`).
+ */
+export function loadBudgets(): Budget[] {
+  const raw = loadJsonConfig('ONA_BUDGETS', 'ONA_BUDGETS_PATH', DEFAULT_BUDGETS_PATH);
+  return raw === undefined ? [] : parseBudgets(raw);
+}
+
+export const COST_CENTER_MATCHES: CostCenterMatch[] = ['user', 'project', 'group', 'emailDomain'];
+
+export function parseCostCenters(raw: unknown): CostCenterConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Cost centers must be a JSON object');
+  }
+  const input = raw as Record<string, unknown>;
+  if (!Array.isArray(input.costCenters)) {
+    throw new Error('Cost centers need a costCenters array');
+  }
+
+  const ids = new Set<string>();
+  const costCenters = input.costCenters.map((entry, index) => {
+    const center = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof center.id !== 'string' || !center.id) {
+      throw new Error(`Cost center ${index} needs an id`);
+    }
+    if (ids.has(center.id)) {
+      throw new Error(`Duplicate cost center id: ${center.id}`);
+    }
+    ids.add(center.id);
+    return { id: center.id, name: typeof center.name === 'string' && center.name ? center.name : center.id };
+  });
+
+  const rules = input.rules ?? [];
+  if (!Array.isArray(rules)) {
+    throw new Error('Cost center rules must be an array');
+  }
+  const parsedRules: CostCenterRule[] = rules.map((entry, index) => {
+    const rule = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (!COST_CENTER_MATCHES.includes(rule.match as CostCenterMatch)) {
+      throw new Error(`Cost center rule ${index} match must be one of ${COST_CENTER_MATCHES.join(', ')}`);
+    }
+    if (typeof rule.value !== 'string' || !rule.value) {
+      throw new Error(`Cost center rule ${index} needs a value`);
+    }
+    if (typeof rule.costCenterId !== 'string' || !ids.has(rule.costCenterId)) {
+      throw new Error(`Cost center rule ${index} refers to an unknown cost center`);
+    }
+    return { match: rule.match as CostCenterMatch, value: rule.value, costCenterId: rule.costCenterId };
+  });
+
+  const precedence = input.precedence ?? COST_CENTER_MATCHES;
+  if (
+    !Array.isArray(precedence) ||
+    precedence.length !== COST_CENTER_MATCHES.length ||
+    !COST_CENTER_MATCHES.every(match => precedence.includes(match))
+  ) {
+    throw new Error(`Cost center precedence must order all of ${COST_CENTER_MATCHES.join(', ')}`);
+  }
+
+  const defaultCostCenterId = input.defaultCostCenterId ?? null;
+  if (defaultCostCenterId !== null && (typeof defaultCostCenterId !== 'string' || !ids.has(defaultCostCenterId))) {
+    throw new Error('defaultCostCenterId refers to an unknown cost center');
+  }
+
+  return { costCenters, rules: parsedRules, precedence: precedence as CostCenterMatch[], defaultCostCenterId };
+}
+
+/**
+ * Loads cost centers and their rules from `ONA_COST_CENTERS` (inline JSON)
+ * or from the file at `ONA_COST_CENTERS_PATH` (default `cost-centers.json`).
+ * Returns null when neither is set.
+ */
+export function loadCostCenters(): CostCenterConfig | null {
+  const raw = loadJsonConfig('ONA_COST_CENTERS', 'ONA_COST_CENTERS_PATH', DEFAULT_COST_CENTERS_PATH);
+  return raw === undefined ? null : parseCostCenters(raw);
+}
+
+export function budgetWebhookUrl(): string | null {
+  return process.env.ONA_BUDGET_WEBHOOK_URL || null;
+}
+
+export function budgetStatePath(): string {
+  return path.resolve(process.cwd(), process.env.ONA_BUDGET_STATE_PATH || DEFAULT_BUDGET_STATE_PATH);
+}
+
+export function budgetCheckIntervalMs(): number | null {
+  const minutes = Number(process.env.ONA_BUDGET_CHECK_INTERVAL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : null;
+}
+
+/**
+ * IANA timezone date ranges and chart buckets use unless a request picks
+ * another, from `ONA_TIMEZONE` (default `UTC`).
+ */
+export function defaultTimeZone(): string {
+  const timeZone = process.env.ONA_TIMEZONE || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`ONA_TIMEZONE is not a valid IANA timezone: ${timeZone}`);
+  }
+  return timeZone;
+}
+
+export type DigestTransportKind = 'smtp' | 'webhook' | 'directory';
+
+export interface DigestConfig {
+  transports: DigestTransportKind[];
+  day: number;
+  hour: number;
+  smtpUrl: string | null;
+  from: string | null;
+  to: string[];
+  webhookUrl: string | null;
+  dir: string;
+}
+
+/**
+ * Digest delivery settings. `ONA_DIGEST_TRANSPORTS` is a comma-separated list
+ * of transports; without it the scheduler stays off.
+ */
+export function loadDigestConfig(): DigestConfig {
+  const transports = (process.env.ONA_DIGEST_TRANSPORTS || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+  transports.forEach(transport => {
+    if (!['smtp', 'webhook', 'directory'].includes(transport)) {
+      throw new Error(`Unknown digest transport: ${transport}`);
+    }
+  });
+
+  const day = process.env.ONA_DIGEST_DAY ? Number(process.env.ONA_DIGEST_DAY) : DEFAULT_DIGEST_DAY;
+  const hour = process.env.ONA_DIGEST_HOUR ? Number(process.env.ONA_DIGEST_HOUR) : DEFAULT_DIGEST_HOUR;
+  if (!Number.isInteger(day) || day < 0 || day > 6) {
+    throw new Error('ONA_DIGEST_DAY must be a weekday number from 0 (Sunday) to 6 (Saturday)');
+  }
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error('ONA_DIGEST_HOUR must be an hour from 0 to 23');
+  }
+
+  return {
+    transports: transports as DigestTransportKind[],
+    day,
+    hour,
+    smtpUrl: process.env.ONA_DIGEST_SMTP_URL || null,
+    from: process.env.ONA_DIGEST_FROM || null,
+    to: (process.env.ONA_DIGEST_TO || '').split(',').map(value => value.trim()).filter(Boolean),
+    webhookUrl: process.env.ONA_DIGEST_WEBHOOK_URL || null,
+    dir: path.resolve(process.cwd(), process.env.ONA_DIGEST_DIR || DEFAULT_DIGEST_DIR),
+  };
+}
+
+/** Whether the dashboard requires sign-in; turned off with `ONA_AUTH=off`. */
+export function authEnabled(): boolean {
+  return process.env.ONA_AUTH !== 'off';
+}
+
+/**
+ * Secret that signs session cookies, from `ONA_SESSION_SECRET`. Null when it
+ * is not set, in which case sessions end when the server restarts.
+ */
+export function sessionSecret(): string | null {
+  return process.env.ONA_SESSION_SECRET || null;
+}
+
+/** Labels the metrics endpoint can split usage by. */
+export const METRIC_LABELS = ['user', 'project', 'class', 'runner'] as const;
+export type MetricLabel = (typeof METRIC_LABELS)[number];
+
+const DEFAULT_METRICS_WINDOW_HOURS = 24;
+const DEFAULT_METRICS_REFRESH_SECONDS = 300;
+const DEFAULT_METRICS_MAX_LABEL_VALUES = 50;
+
+function positiveNumber(name: string, fallback: number, allowZero = false): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (value === 0 && !allowZero)) {
+    throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} number`);
+  }
+  return value;
+}
+
+function positiveInteger(name: string, fallback: number, allowZero = false): number {
+  const value = positiveNumber(name, fallback, allowZero);
+  if (!Number.isInteger(value)) {
+    throw new Error(`${name} must be a whole number`);
+  }
+  return value;
+}
+
+const DEFAULT_FETCH_CHUNK_DAYS = 7;
+const DEFAULT_FETCH_CONCURRENCY = 4;
+const DEFAULT_FETCH_RETRIES = 3;
+const DEFAULT_FETCH_RETRY_DELAY_MS = 500;
+const DEFAULT_ENVIRONMENT_CACHE_SECONDS = 600;
+
+export interface FetchConfig {
+  /** Length of the chunks a window of usage records is fetched in. */
+  chunkDays: number;
+  /** Chunks fetched at the same time. */
+  concurrency: number;
+  /** Retries of a rate-limited or transiently failing call. */
+  retries: number;
+  /** Delay before the first retry; doubles with each further one. */
+  retryDelayMs: number;
+  /** How long looked up environment details are reused. */
+  environmentCacheMs: number;
+}
+
+/**
+ * Usage fetching settings from `ONA_FETCH_CHUNK_DAYS` (default 7),
+ * `ONA_FETCH_CONCURRENCY` (default 4), `ONA_FETCH_RETRIES` (default 3),
+ * `ONA_FETCH_RETRY_DELAY_MS` (default 500) and `ONA_ENVIRONMENT_CACHE_SECONDS`
+ * (default 600).
+ */
+export function loadFetchConfig(): FetchConfig {
+  return {
+    chunkDays: positiveNumber('ONA_FETCH_CHUNK_DAYS', DEFAULT_FETCH_CHUNK_DAYS),
+    concurrency: positiveInteger('ONA_FETCH_CONCURRENCY', DEFAULT_FETCH_CONCURRENCY),
+    retries: positiveInteger('ONA_FETCH_RETRIES', DEFAULT_FETCH_RETRIES, true),
+    retryDelayMs: positiveNumber('ONA_FETCH_RETRY_DELAY_MS', DEFAULT_FETCH_RETRY_DELAY_MS, true),
+    environmentCacheMs: positiveNumber('ONA_ENVIRONMENT_CACHE_SECONDS', DEFAULT_ENVIRONMENT_CACHE_SECONDS, true) * 1000,
+  };
+}
+
+export interface MetricsConfig {
+  /** Trailing window the usage gauges cover. */
+  windowHours: number;
+  refreshMs: number;
+  labels: MetricLabel[];
+  /** Per label, values beyond the top ones by hours are merged into `other`. */
+  maxLabelValues: number;
+}
+
+/**
+ * Metrics settings from `ONA_METRICS_WINDOW_HOURS` (default 24),
+ * `ONA_METRICS_REFRESH_SECONDS` (default 300), `ONA_METRICS_LABELS`
+ * (comma-separated, default all of `METRIC_LABELS`) and
+ * `ONA_METRICS_MAX_LABEL_VALUES` (default 50).
+ */
+export function loadMetricsConfig(): MetricsConfig {
+  const labels = process.env.ONA_METRICS_LABELS
+    ? process.env.ONA_METRICS_LABELS.split(',').map(label => label.trim()).filter(Boolean)
+    : [...METRIC_LABELS];
+  labels.forEach(label => {
+    if (!METRIC_LABELS.includes(label as MetricLabel)) {
+      throw new Error(`ONA_METRICS_LABELS must only contain ${METRIC_LABELS.join(', ')}`);
+    }
+  });
+
+  return {
+    windowHours: positiveNumber('ONA_METRICS_WINDOW_HOURS', DEFAULT_METRICS_WINDOW_HOURS),
+    refreshMs: positiveNumber('ONA_METRICS_REFRESH_SECONDS', DEFAULT_METRICS_REFRESH_SECONDS) * 1000,
+    labels: labels as MetricLabel[],
+    maxLabelValues: Math.floor(positiveNumber('ONA_METRICS_MAX_LABEL_VALUES', DEFAULT_METRICS_MAX_LABEL_VALUES)),
+  };
+}
+
+/** Bearer token scrapers must send to `/api/metrics`, from `ONA_METRICS_TOKEN`. */
+export function metricsToken(): string | null {
+  return process.env.ONA_METRICS_TOKEN || null;
+}
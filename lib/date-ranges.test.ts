@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMonths,
+  DateRangeError,
+  parseCalendarDate,
+  resolveDateRange,
+  resolveRangeParams,
+} from './date-ranges';
+import { aggregateTimeSeries, nextBucket, startOfBucket } from './aggregation';
+import { UsageRecord } from './types';
+
+const at = (time: string) => new Date(time);
+
+describe('resolveDateRange', () => {
+  it('ends yesterday at midnight in the timezone', () => {
+    expect(resolveDateRange('yesterday', { timeZone: 'Europe/Berlin', now: at('2024-05-15T10:00:00Z') })).toEqual({
+      startTime: '2024-05-13T22:00:00.000Z',
+      endTime: '2024-05-14T22:00:00.000Z',
+    });
+  });
+
+  it('starts today at local midnight even when the UTC date differs', () => {
+    expect(resolveDateRange('today', { timeZone: 'America/New_York', now: at('2024-05-15T02:00:00Z') })).toEqual({
+      startTime: '2024-05-14T04:00:00.000Z',
+      endTime: '2024-05-15T02:00:00.000Z',
+    });
+  });
+
+  it('keeps the wall-clock time for rolling ranges across a DST change', () => {
+    expect(resolveDateRange('7d', { timeZone: 'Europe/Berlin', now: at('2024-04-02T10:00:00Z') })).toEqual({
+      startTime: '2024-03-26T11:00:00.000Z',
+      endTime: '2024-04-02T10:00:00.000Z',
+    });
+  });
+
+  it('clamps month-based rolling ranges to the end of the month', () => {
+    expect(resolveDateRange('6m', { timeZone: 'UTC', now: at('2024-08-31T12:00:00Z') }).startTime)
+      .toBe('2024-02-29T12:00:00.000Z');
+  });
+
+  it('resolves calendar presets', () => {
+    const now = at('2024-05-15T10:00:00Z');
+    expect(resolveDateRange('thisMonth', { timeZone: 'UTC', now })).toEqual({
+      startTime: '2024-05-01T00:00:00.000Z',
+      endTime: '2024-05-15T10:00:00.000Z',
+    });
+    expect(resolveDateRange('lastMonth', { timeZone: 'UTC', now })).toEqual({
+      startTime: '2024-04-01T00:00:00.000Z',
+      endTime: '2024-05-01T00:00:00.000Z',
+    });
+    expect(resolveDateRange('lastQuarter', { timeZone: 'UTC', now })).toEqual({
+      startTime: '2024-01-01T00:00:00.000Z',
+      endTime: '2024-04-01T00:00:00.000Z',
+    });
+  });
+
+  it('rolls last month and last quarter back across the year', () => {
+    const now = at('2024-01-10T12:00:00Z');
+    expect(resolveDateRange('lastMonth', { timeZone: 'Europe/Berlin', now })).toEqual({
+      startTime: '2023-11-30T23:00:00.000Z',
+      endTime: '2023-12-31T23:00:00.000Z',
+    });
+    expect(resolveDateRange('lastQuarter', { timeZone: 'UTC', now })).toEqual({
+      startTime: '2023-10-01T00:00:00.000Z',
+      endTime: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('includes the last day of a custom range', () => {
+    expect(resolveDateRange('custom', { timeZone: 'Europe/Berlin', from: '2024-03-01', to: '2024-03-31' })).toEqual({
+      startTime: '2024-02-29T23:00:00.000Z',
+      endTime: '2024-03-31T22:00:00.000Z',
+    });
+  });
+
+  it('handles timezones with non-hour offsets', () => {
+    expect(resolveDateRange('custom', { timeZone: 'Asia/Kolkata', from: '2024-05-01', to: '2024-05-01' })).toEqual({
+      startTime: '2024-04-30T18:30:00.000Z',
+      endTime: '2024-05-01T18:30:00.000Z',
+    });
+  });
+
+  it('rejects invalid custom ranges and unknown timezones', () => {
+    expect(() => resolveDateRange('custom', { from: '2024-05-02', to: '2024-05-01' })).toThrow(DateRangeError);
+    expect(() => resolveDateRange('custom', { from: '2024-02-30', to: '2024-03-01' })).toThrow(DateRangeError);
+    expect(() => resolveDateRange('custom', {})).toThrow(DateRangeError);
+    expect(() => resolveDateRange('today', { timeZone: 'Mars/Olympus_Mons' })).toThrow(DateRangeError);
+  });
+});
+
+describe('resolveRangeParams', () => {
+  const now = at('2024-05-15T10:00:00Z');
+
+  it('resolves a named range in the requested timezone', () => {
+    const params = new URLSearchParams({ range: 'yesterday', timezone: 'America/New_York' });
+    expect(resolveRangeParams(params, 'UTC', now)).toEqual({
+      window: { startTime: '2024-05-14T04:00:00.000Z', endTime: '2024-05-15T04:00:00.000Z' },
+      timeZone: 'America/New_York',
+    });
+  });
+
+  it('falls back to the default timezone', () => {
+    const params = new URLSearchParams({ range: 'yesterday' });
+    expect(resolveRangeParams(params, 'Europe/Berlin', now).timeZone).toBe('Europe/Berlin');
+  });
+
+  it('accepts explicit timestamps', () => {
+    const params = new URLSearchParams({ startTime: '2024-05-01T00:00:00Z', endTime: '2024-05-02T00:00:00Z' });
+    expect(resolveRangeParams(params, 'UTC', now).window).toEqual({
+      startTime: '2024-05-01T00:00:00Z',
+      endTime: '2024-05-02T00:00:00Z',
+    });
+  });
+
+  it('rejects unknown ranges and missing or invalid timestamps', () => {
+    expect(() => resolveRangeParams(new URLSearchParams({ range: 'fortnight' }), 'UTC', now)).toThrow(DateRangeError);
+    expect(() => resolveRangeParams(new URLSearchParams(), 'UTC', now)).toThrow(DateRangeError);
+    expect(() => resolveRangeParams(new URLSearchParams({ startTime: 'soon', endTime: 'later' }), 'UTC', now))
+      .toThrow(DateRangeError);
+  });
+});
+
+describe('calendar helpers', () => {
+  it('parses only real dates', () => {
+    expect(parseCalendarDate('2024-02-29')).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(parseCalendarDate('2023-02-29')).toBeNull();
+    expect(parseCalendarDate('2024-5-1')).toBeNull();
+  });
+
+  it('adds months across the year', () => {
+    expect(addMonths({ year: 2024, month: 1, day: 31 }, -2)).toEqual({ year: 2023, month: 11, day: 30 });
+  });
+});
+
+describe('bucket boundaries', () => {
+  it('starts days and Monday weeks at midnight in the timezone', () => {
+    const time = at('2024-05-15T02:00:00Z').getTime();
+    expect(startOfBucket(time, 'day', 'America/New_York').toISOString()).toBe('2024-05-14T04:00:00.000Z');
+    expect(startOfBucket(time, 'week', 'America/New_York').toISOString()).toBe('2024-05-13T04:00:00.000Z');
+    expect(startOfBucket(time, 'week', 'Asia/Tokyo').toISOString()).toBe('2024-05-12T15:00:00.000Z');
+  });
+
+  it('steps over DST changes', () => {
+    const bucket = startOfBucket(at('2024-03-30T12:00:00Z').getTime(), 'day', 'Europe/Berlin');
+    expect(nextBucket(bucket, 'day', 'Europe/Berlin').toISOString()).toBe('2024-03-30T23:00:00.000Z');
+    expect(nextBucket(nextBucket(bucket, 'day', 'Europe/Berlin'), 'day', 'Europe/Berlin').toISOString())
+      .toBe('2024-03-31T22:00:00.000Z');
+  });
+
+  it('splits session hours at midnight in the timezone', () => {
+    const record: UsageRecord = {
+      id: 'record-1',
+      environmentId: 'env-1',
+      userId: 'user-1',
+      createdAt: '2024-05-15T02:00:00Z',
+      stoppedAt: '2024-05-15T08:00:00Z',
+    };
+    const series = aggregateTimeSeries([record], 'day', session => ({ key: session.userId, label: session.userId }), {
+      window: { startTime: '2024-05-14T04:00:00Z', endTime: '2024-05-16T04:00:00Z' },
+      now: at('2024-05-20T00:00:00Z'),
+      timeZone: 'America/New_York',
+    });
+    expect(series.buckets.map(bucket => [bucket.startTime, bucket.totalHours])).toEqual([
+      ['2024-05-14T04:00:00.000Z', 2],
+      ['2024-05-15T04:00:00.000Z', 4],
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+import { TimeWindow } from './types';
+
+export type DateRange =
+  | 'today'
+  | 'yesterday'
+  | '7d'
+  | '30d'
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'lastQuarter'
+  | '6m'
+  | '12m'
+  | 'custom';
+
+export const DATE_RANGES: DateRange[] = [
+  'today',
+  'yesterday',
+  '7d',
+  '30d',
+  'thisMonth',
+  'lastMonth',
+  'lastQuarter',
+  '6m',
+  '12m',
+  'custom',
+];
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export class DateRangeError extends Error {}
+
+/** A day on the calendar, independent of any timezone. `month` is 1–12. */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface WallTime extends CalendarDate {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export interface ResolveOptions {
+  timeZone?: string;
+  now?: Date;
+  /** First day of a custom range, `YYYY-MM-DD`. */
+  from?: string | null;
+  /** Last day of a custom range, `YYYY-MM-DD`, included in the window. */
+  to?: string | null;
+}
+
+export interface ResolvedRange {
+  window: TimeWindow;
+  timeZone: string;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The timezone of the machine running the code. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+function wallTimeAt(time: number, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone)
+    .formatToParts(new Date(time))
+    .forEach(part => {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `time`. */
+function offsetAt(time: number, timeZone: string): number {
+  const wall = wallTimeAt(time, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return wallAsUtc - (time - (((time % 1000) + 1000) % 1000));
+}
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. A time skipped by a
+ * daylight saving change resolves to the same distance after the change.
+ */
+function zonedToUtc(wall: WallTime, timeZone: string): number {
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const guess = wallAsUtc - offsetAt(wallAsUtc, timeZone);
+  return wallAsUtc - offsetAt(guess, timeZone);
+}
+
+export function calendarDateOf(time: number, timeZone: string): CalendarDate {
+  const { year, month, day } = wallTimeAt(time, timeZone);
+  return { year, month, day };
+}
+
+/** Midnight at the start of `date` in `timeZone`. */
+export function startOfDay(date: CalendarDate, timeZone: string): number {
+  return atHour(date, 0, timeZone);
+}
+
+/** `hour`:00 on `date` in `timeZone`; hour 24 is midnight at the end of the day. */
+export function atHour(date: CalendarDate, hour: number, timeZone: string): number {
+  return zonedToUtc({ ...date, hour, minute: 0, second: 0 }, timeZone);
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const result = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: result.getUTCFullYear(), month: result.getUTCMonth() + 1, day: result.getUTCDate() };
+}
+
+/** Adds calendar months, keeping the day but clamping it to the length of the month. */
+export function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const first = new Date(Date.UTC(date.year, date.month - 1 + months, 1));
+  const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return {
+    year: first.getUTCFullYear(),
+    month: first.getUTCMonth() + 1,
+    day: Math.min(date.day, daysInMonth),
+  };
+}
+
+/** 0 for Sunday through 6 for Saturday. */
+export function dayOfWeek(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+export function parseCalendarDate(value: string | null | undefined): CalendarDate | null {
+  const match = value ? DATE_PATTERN.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  const normalized = addDays(date, 0);
+  return normalized.month === date.month && normalized.day === date.day ? date : null;
+}
+
+export function formatCalendarDate(date: CalendarDate): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Resolves a preset or custom range to a window in `timeZone`. Ranges that
+ * are still in progress (today, the rolling ranges and this month) end now;
+ * completed ones (yesterday, last month, last quarter and custom ranges) end
+ * at the midnight after their last day.
+ */
+export function resolveDateRange(range: DateRange, options: ResolveOptions = {}): TimeWindow {
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new DateRangeError(`Unknown timezone: ${timeZone}`);
+  }
+  const now = (options.now || new Date()).getTime();
+  const wallNow = wallTimeAt(now, timeZone);
+  const today: CalendarDate = { year: wallNow.year, month: wallNow.month, day: wallNow.day };
+  const window = (start: number, end: number): TimeWindow => ({
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+  });
+  const sameTimeOn = (date: CalendarDate) => zonedToUtc({ ...wallNow, ...date }, timeZone);
+
+  switch (range) {
+    case 'today':
+      return window(startOfDay(today, timeZone), now);
+    case 'yesterday':
+      return window(startOfDay(addDays(today, -1), timeZone), startOfDay(today, timeZone));
+    case '7d':
+      return window(sameTimeOn(addDays(today, -7)), now);
+    case '30d':
+      return window(sameTimeOn(addDays(today, -30)), now);
+    case 'thisMonth':
+      return window(startOfDay({ ...today, day: 1 }, timeZone), now);
+    case 'lastMonth': {
+      const firstOfMonth = { ...today, day: 1 };
+      return window(startOfDay(addMonths(firstOfMonth, -1), timeZone), startOfDay(firstOfMonth, timeZone));
+    }
+    case 'lastQuarter': {
+      const firstOfQuarter = { year: today.year, month: today.month - ((today.month - 1) % 3), day: 1 };
+      return window(startOfDay(addMonths(firstOfQuarter, -3), timeZone), startOfDay(firstOfQuarter, timeZone));
+    }
+    case '6m':
+      return window(sameTimeOn(addMonths(today, -6)), now);
+    case '12m':
+      return window(sameTimeOn(addMonths(today, -12)), now);
+    case 'custom': {
+      const from = parseCalendarDate(options.from);
+      const to = parseCalendarDate(options.to);
+      if (!from || !to) {
+        throw new DateRangeError('A custom range requires from and to dates as YYYY-MM-DD');
+      }
+      if (formatCalendarDate(from) > formatCalendarDate(to)) {
+        throw new DateRangeError('from must not be after to');
+      }
+      return window(startOfDay(from, timeZone), startOfDay(addDays(to, 1), timeZone));
+    }
+  }
+}
+
+/**
+ * The calendar month `YYYY-MM` in `timeZone`. The current month ends now;
+ * months that have not started yet are rejected.
+ */
+export function resolveMonth(value: string, timeZone: string, now: Date = new Date()): TimeWindow {
+  const match = MONTH_PATTERN.exec(value);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new DateRangeError('month must be YYYY-MM');
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new DateRangeError(`Unknown timezone: ${timeZone}`);
+  }
+  const first: CalendarDate = { year: Number(match[1]), month: Number(match[2]), day: 1 };
+  const start = startOfDay(first, timeZone);
+  if (start > now.getTime()) {
+    throw new DateRangeError(`${value} has not started yet`);
+  }
+  const end = Math.min(startOfDay(addMonths(first, 1), timeZone), now.getTime());
+  return { startTime: new Date(start).toISOString(), endTime: new Date(end).toISOString() };
+}
+
+/**
+ * The window a request asks for: either a named `range` (with `from` and
+ * `to` for a custom range) resolved in `timezone`, or explicit `startTime`
+ * and `endTime` timestamps.
+ */
+export function resolveRangeParams(
+  params: URLSearchParams,
+  defaultTimeZone: string,
+  now: Date = new Date()
+): ResolvedRange {
+  const timeZone = params.get('timezone') || defaultTimeZone;
+  if (!isValidTimeZone(timeZone)) {
+    throw new DateRangeError(`Unknown timezone: ${timeZone}`);
+  }
+
+  const range = params.get('range');
+  if (range !== null) {
+    if (!DATE_RANGES.includes(range as DateRange)) {
+      throw new DateRangeError(`range must be one of ${DATE_RANGES.join(', ')}`);
+    }
+    return {
+      window: resolveDateRange(range as DateRange, {
+        timeZone,
+        now,
+        from: params.get('from'),
+        to: params.get('to'),
+      }),
+      timeZone,
+    };
+  }
+
+  const startTime = params.get('startTime');
+  const endTime = params.get('endTime');
+  if (!startTime || !endTime) {
+    throw new DateRangeError('Either range or startTime and endTime are required');
+  }
+  if (isNaN(Date.parse(startTime)) || isNaN(Date.parse(endTime))) {
+    throw new DateRangeError('startTime and endTime must be valid ISO timestamps');
+  }
+  return { window: { startTime, endTime }, timeZone };
+}
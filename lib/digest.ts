@@ -0,0 +1,294 @@
+import {
+  aggregateByUser,
+  aggregateByEnvironment,
+  comparePeriods,
+  seriesKeyForGroupBy,
+  totalsByGroup,
+} from './aggregation';
+import { calendarDateOf, formatCalendarDate } from './date-ranges';
+import { formatCost } from './pricing';
+import { ComparisonRow, EnvironmentUsage, TimeWindow, UsageResponse, UserUsage } from './types';
+
+export const DIGEST_TOP_N = 5;
+
+export interface DigestSession {
+  userId: string;
+  userName: string;
+  environmentId: string;
+  startTime: string;
+  endTime: string;
+  durationHours: number;
+  estimatedCost: number;
+  inProgress: boolean;
+}
+
+export interface DigestTotals {
+  hours: number;
+  estimatedCost: number;
+  users: number;
+  environments: number;
+  sessions: number;
+}
+
+export interface Digest {
+  window: TimeWindow;
+  baselineWindow: TimeWindow;
+  /** Timezone the period's days are shown in. */
+  timeZone: string;
+  currency: string;
+  totals: DigestTotals;
+  baselineTotals: DigestTotals;
+  deltaPercent: number | null;
+  topUsers: UserUsage[];
+  topEnvironments: EnvironmentUsage[];
+  biggestChanges: ComparisonRow[];
+  longestSessions: DigestSession[];
+  asOf: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  markdown: string;
+}
+
+function totalsOf(users: UserUsage[]): DigestTotals {
+  const environments = users.flatMap(user => user.environments);
+  return {
+    hours: users.reduce((sum, user) => sum + user.totalHours, 0),
+    estimatedCost: users.reduce((sum, user) => sum + user.estimatedCost, 0),
+    users: users.length,
+    environments: new Set(environments.map(environment => environment.environmentId)).size,
+    sessions: environments.reduce((sum, environment) => sum + environment.sessions.length, 0),
+  };
+}
+
+/**
+ * Summarizes `current` for the digest and compares it with `baseline`, the
+ * period before it. Both go through the same accounting as the dashboard.
+ */
+export function buildDigest(
+  current: UsageResponse,
+  window: TimeWindow,
+  baseline: UsageResponse,
+  baselineWindow: TimeWindow,
+  topN: number = DIGEST_TOP_N
+): Digest {
+  const rateCard = current.rateCard;
+  const options = { window, now: new Date(current.asOf), rateCard };
+  const baselineOptions = { window: baselineWindow, now: new Date(baseline.asOf), rateCard };
+
+  const users = aggregateByUser(current.usageRecords, current.members, options);
+  const baselineUsers = aggregateByUser(baseline.usageRecords, baseline.members, baselineOptions);
+  const environments = aggregateByEnvironment(current.usageRecords, current.members, options);
+  const totals = totalsOf(users);
+  const baselineTotals = totalsOf(baselineUsers);
+
+  const seriesOf = seriesKeyForGroupBy('user', {
+    ...current,
+    members: [...baseline.members, ...current.members],
+  });
+  const biggestChanges = comparePeriods(
+    totalsByGroup(current.usageRecords, seriesOf, options),
+    totalsByGroup(baseline.usageRecords, seriesOf, baselineOptions)
+  ).slice(0, topN);
+
+  const longestSessions = environments
+    .flatMap(environment => environment.sessions.map(session => ({
+      userId: environment.userId,
+      userName: environment.userName,
+      environmentId: environment.environmentId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      durationHours: session.durationHours,
+      estimatedCost: session.estimatedCost,
+      inProgress: session.inProgress,
+    })))
+    .sort((a, b) => b.durationHours - a.durationHours)
+    .slice(0, topN);
+
+  return {
+    window,
+    baselineWindow,
+    timeZone: current.timeZone,
+    currency: rateCard.currency,
+    totals,
+    baselineTotals,
+    deltaPercent: baselineTotals.hours > 0 ? (totals.hours - baselineTotals.hours) / baselineTotals.hours : null,
+    topUsers: users.slice(0, topN),
+    topEnvironments: environments.slice(0, topN),
+    biggestChanges,
+    longestSessions,
+    asOf: current.asOf,
+  };
+}
+
+function formatHours(hours: number): string {
+  return hours.toFixed(1);
+}
+
+/** First and last day of a window in `timeZone`; the window end itself is exclusive. */
+function formatPeriod(window: TimeWindow, timeZone: string): string {
+  const firstDay = calendarDateOf(new Date(window.startTime).getTime(), timeZone);
+  const lastDay = calendarDateOf(new Date(window.endTime).getTime() - 1, timeZone);
+  return `${formatCalendarDate(firstDay)} – ${formatCalendarDate(lastDay)}`;
+}
+
+function formatChange(delta: number, percent: number | null): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '';
+  const hours = `${sign}${formatHours(Math.abs(delta))} h`;
+  return percent === null ? `${hours} (new)` : `${hours} (${sign}${(Math.abs(percent) * 100).toFixed(0)}%)`;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_|[\]<>])/g, '\\$1');
+}
+
+interface DigestSection {
+  title: string;
+  /** Leading columns holding text; the rest are right-aligned numbers. */
+  textColumns: number;
+  columns: string[];
+  rows: string[][];
+}
+
+function digestSections(digest: Digest): DigestSection[] {
+  const cost = (amount: number) => formatCost(amount, digest.currency);
+
+  return [
+    {
+      title: 'Totals',
+      textColumns: 1,
+      columns: ['', 'This period', 'Previous period', 'Change'],
+      rows: [
+        [
+          'Hours',
+          formatHours(digest.totals.hours),
+          formatHours(digest.baselineTotals.hours),
+          formatChange(digest.totals.hours - digest.baselineTotals.hours, digest.deltaPercent),
+        ],
+        ['Estimated cost', cost(digest.totals.estimatedCost), cost(digest.baselineTotals.estimatedCost), ''],
+        ['Active users', String(digest.totals.users), String(digest.baselineTotals.users), ''],
+        ['Environments', String(digest.totals.environments), String(digest.baselineTotals.environments), ''],
+        ['Sessions', String(digest.totals.sessions), String(digest.baselineTotals.sessions), ''],
+        ['Period', formatPeriod(digest.window, digest.timeZone), formatPeriod(digest.baselineWindow, digest.timeZone), ''],
+      ],
+    },
+    {
+      title: 'Top users',
+      textColumns: 1,
+      columns: ['User', 'Hours', 'Estimated cost', 'Environments'],
+      rows: digest.topUsers.map(user => [
+        user.userName,
+        formatHours(user.totalHours),
+        cost(user.estimatedCost),
+        String(user.environments.length),
+      ]),
+    },
+    {
+      title: 'Top environments',
+      textColumns: 2,
+      columns: ['Environment', 'User', 'Hours', 'Estimated cost'],
+      rows: digest.topEnvironments.map(environment => [
+        environment.environmentId,
+        environment.userName,
+        formatHours(environment.totalHours),
+        cost(environment.estimatedCost),
+      ]),
+    },
+    {
+      title: 'Biggest changes from the previous period',
+      textColumns: 1,
+      columns: ['User', 'Previous', 'This period', 'Change'],
+      rows: digest.biggestChanges.map(row => [
+        row.label,
+        formatHours(row.baselineHours),
+        formatHours(row.currentHours),
+        formatChange(row.deltaHours, row.deltaPercent),
+      ]),
+    },
+    {
+      title: 'Longest sessions',
+      textColumns: 3,
+      columns: ['Environment', 'User', 'Started', 'Hours'],
+      rows: digest.longestSessions.map(session => [
+        session.environmentId,
+        session.userName,
+        new Date(session.startTime).toISOString().slice(0, 16).replace('T', ' '),
+        `${formatHours(session.durationHours)}${session.inProgress ? ' (still running)' : ''}`,
+      ]),
+    },
+  ];
+}
+
+export function digestSubject(digest: Digest): string {
+  const change = digest.deltaPercent === null
+    ? ''
+    : ` (${digest.deltaPercent >= 0 ? '+' : '−'}${(Math.abs(digest.deltaPercent) * 100).toFixed(0)}%)`;
+  return `Ona usage ${formatPeriod(digest.window, digest.timeZone)}: ${formatHours(digest.totals.hours)} hours${change}`;
+}
+
+export function renderDigestMarkdown(digest: Digest): string {
+  const lines = [`# ${escapeMarkdown(digestSubject(digest))}`, ''];
+
+  digestSections(digest).forEach(section => {
+    lines.push(`## ${section.title}`, '');
+    if (section.rows.length === 0) {
+      lines.push('No usage.', '');
+      return;
+    }
+    lines.push(`| ${section.columns.join(' | ')} |`);
+    lines.push(`| ${section.columns.map((_, index) => (index < section.textColumns ? '---' : '---:')).join(' | ')} |`);
+    section.rows.forEach(row => lines.push(`| ${row.map(escapeMarkdown).join(' | ')} |`));
+    lines.push('');
+  });
+
+  lines.push(`_As of ${digest.asOf}_`, '');
+  return lines.join('\n');
+}
+
+export function renderDigestHtml(digest: Digest): string {
+  const cell = 'padding:4px 12px;border-bottom:1px solid #e0e0e0;';
+  const sections = digestSections(digest).map(section => {
+    if (section.rows.length === 0) {
+      return `<h2>${section.title}</h2><p>No usage.</p>`;
+    }
+    const align = (index: number) => (index < section.textColumns ? 'left' : 'right');
+    const head = section.columns
+      .map((column, index) => `<th style="${cell}text-align:${align(index)}">${escapeHtml(column)}</th>`)
+      .join('');
+    const body = section.rows
+      .map(row => `<tr>${row
+        .map((value, index) => `<td style="${cell}text-align:${align(index)}">${escapeHtml(value)}</td>`)
+        .join('')}</tr>`)
+      .join('');
+    return `<h2>${section.title}</h2><table style="border-collapse:collapse"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(digestSubject(digest))}</title></head>`,
+    '<body style="font-family:system-ui,sans-serif;color:#000;background:#fff">',
+    `<h1 style="color:#1F53FF">${escapeHtml(digestSubject(digest))}</h1>`,
+    ...sections,
+    `<p style="color:#666">As of ${escapeHtml(digest.asOf)}</p>`,
+    '</body></html>',
+  ].join('\n');
+}
+
+export function renderDigest(digest: Digest): RenderedDigest {
+  return {
+    subject: digestSubject(digest),
+    html: renderDigestHtml(digest),
+    markdown: renderDigestMarkdown(digest),
+  };
+}
@@ -0,0 +1,224 @@
+import {
+  aggregateByUser,
+  aggregateByEnvironment,
+  aggregateByRepository,
+  aggregateByProject,
+  aggregateByEnvironmentClass,
+  aggregateByRunner,
+  aggregateByTeam,
+  NO_REPOSITORY_ID,
+} from './aggregation';
+import { accountSessions } from './accounting';
+import { AccountingOptions, GroupBy, TeamAttribution, UsageResponse } from './types';
+
+export type ExportLevel = 'raw' | GroupBy;
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_LEVELS: ExportLevel[] = [
+  'raw', 'user', 'environment', 'repository', 'project', 'environmentClass', 'runner', 'team',
+];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export type ExportValue = string | number | boolean | null;
+export type ExportRow = Record<string, ExportValue>;
+
+export interface ExportTable {
+  columns: string[];
+  rows: ExportRow[];
+}
+
+export function buildExportTable(
+  level: ExportLevel,
+  data: UsageResponse,
+  options: AccountingOptions,
+  attribution: TeamAttribution = 'full'
+): ExportTable {
+  const { usageRecords, members, projects, environmentClasses, runners, teams, environments } = data;
+  const environmentMap = new Map(environments.map(environment => [environment.environmentId, environment]));
+
+  switch (level) {
+    case 'raw': {
+      const memberMap = new Map(members.map(member => [member.userId, member]));
+      const projectMap = new Map(projects.map(project => [project.projectId, project]));
+      const classMap = new Map(environmentClasses.map(environmentClass => [
+        environmentClass.environmentClassId,
+        environmentClass,
+      ]));
+      const runnerMap = new Map(runners.map(runner => [runner.runnerId, runner]));
+
+      return {
+        columns: [
+          'id', 'userId', 'userName', 'email', 'environmentId', 'environmentName', 'repository', 'projectId', 'projectName',
+          'environmentClassId', 'environmentClassName', 'runnerId', 'runnerName', 'createdAt',
+          'stoppedAt', 'startTime', 'endTime', 'durationHours', 'estimatedCost', 'inProgress', 'clipped',
+        ],
+        rows: accountSessions(usageRecords, options).sessions.map(session => {
+          const { record } = session;
+          const member = memberMap.get(session.userId);
+          return {
+            id: record.id ?? null,
+            userId: session.userId,
+            userName: member?.fullName || session.userId,
+            email: member?.email || '',
+            environmentId: session.environmentId,
+            environmentName: environmentMap.get(session.environmentId)?.name ?? null,
+            repository: environmentMap.get(session.environmentId)?.repository ?? null,
+            projectId: record.projectId ?? null,
+            projectName: record.projectId ? projectMap.get(record.projectId)?.name ?? null : null,
+            environmentClassId: record.environmentClassId ?? null,
+            environmentClassName: record.environmentClassId
+              ? classMap.get(record.environmentClassId)?.name ?? null
+              : null,
+            runnerId: record.runnerId ?? null,
+            runnerName: record.runnerId ? runnerMap.get(record.runnerId)?.name ?? null : null,
+            createdAt: record.createdAt ?? null,
+            stoppedAt: record.stoppedAt ?? null,
+            startTime: session.startTime,
+            endTime: session.endTime,
+            durationHours: session.durationHours,
+            estimatedCost: session.estimatedCost,
+            inProgress: session.inProgress,
+            clipped: session.clipped,
+          };
+        }),
+      };
+    }
+    case 'environment':
+      return {
+        columns: [
+          'environmentId', 'environmentName', 'repository', 'branch', 'phase', 'archived', 'deleted', 'userId',
+          'userName', 'email', 'totalHours', 'estimatedCost', 'sessionCount',
+        ],
+        rows: aggregateByEnvironment(usageRecords, members, options).map(env => {
+          const info = environmentMap.get(env.environmentId);
+          return {
+            environmentId: env.environmentId,
+            environmentName: info?.name ?? null,
+            repository: info?.repository ?? null,
+            branch: info?.branch ?? null,
+            phase: info?.phase ?? null,
+            archived: info?.archived ?? false,
+            deleted: info?.deleted ?? false,
+            userId: env.userId,
+            userName: env.userName,
+            email: env.email,
+            totalHours: env.totalHours,
+            estimatedCost: env.estimatedCost,
+            sessionCount: env.sessions.length,
+          };
+        }),
+      };
+    case 'repository':
+      return {
+        columns: ['repository', 'totalHours', 'estimatedCost', 'shareOfTotal', 'userCount', 'environmentCount'],
+        rows: aggregateByRepository(usageRecords, members, environments, options).map(repository => ({
+          repository: repository.repository === NO_REPOSITORY_ID ? null : repository.repository,
+          totalHours: repository.totalHours,
+          estimatedCost: repository.estimatedCost,
+          shareOfTotal: repository.shareOfTotal,
+          userCount: repository.userCount,
+          environmentCount: repository.environmentCount,
+        })),
+      };
+    case 'project':
+      return {
+        columns: ['projectId', 'projectName', 'totalHours', 'estimatedCost', 'userCount', 'environmentCount'],
+        rows: aggregateByProject(usageRecords, members, projects, options).map(project => ({
+          projectId: project.projectId,
+          projectName: project.projectName,
+          totalHours: project.totalHours,
+          estimatedCost: project.estimatedCost,
+          userCount: project.users.length,
+          environmentCount: new Set(project.environments.map(env => env.environmentId)).size,
+        })),
+      };
+    case 'environmentClass':
+      return {
+        columns: [
+          'environmentClassId', 'className', 'hourlyRate', 'totalHours', 'estimatedCost', 'userCount',
+          'environmentCount',
+        ],
+        rows: aggregateByEnvironmentClass(usageRecords, members, environmentClasses, options).map(
+          environmentClass => ({
+            environmentClassId: environmentClass.environmentClassId,
+            className: environmentClass.className,
+            hourlyRate: environmentClass.hourlyRate,
+            totalHours: environmentClass.totalHours,
+            estimatedCost: environmentClass.estimatedCost,
+            userCount: environmentClass.users.length,
+            environmentCount: new Set(environmentClass.environments.map(env => env.environmentId)).size,
+          })
+        ),
+      };
+    case 'runner':
+      return {
+        columns: [
+          'runnerId', 'runnerName', 'kind', 'provider', 'totalHours', 'estimatedCost', 'shareOfTotal',
+          'userCount', 'environmentCount',
+        ],
+        rows: aggregateByRunner(usageRecords, members, runners, options).map(runner => ({
+          runnerId: runner.runnerId,
+          runnerName: runner.runnerName,
+          kind: runner.kind ?? null,
+          provider: runner.provider ?? null,
+          totalHours: runner.totalHours,
+          estimatedCost: runner.estimatedCost,
+          shareOfTotal: runner.shareOfTotal,
+          userCount: runner.userCount,
+          environmentCount: runner.environmentCount,
+        })),
+      };
+    case 'team':
+      return {
+        columns: ['teamId', 'teamName', 'userId', 'userName', 'email', 'share', 'totalHours', 'estimatedCost'],
+        rows: aggregateByTeam(usageRecords, members, teams, attribution, options).flatMap(team =>
+          team.members.map(member => ({
+            teamId: team.teamId,
+            teamName: team.teamName,
+            userId: member.userId,
+            userName: member.userName,
+            email: member.email,
+            share: member.share,
+            totalHours: member.totalHours,
+            estimatedCost: member.estimatedCost,
+          }))
+        ),
+      };
+    default:
+      return {
+        columns: ['userId', 'userName', 'email', 'totalHours', 'estimatedCost', 'environmentCount'],
+        rows: aggregateByUser(usageRecords, members, options).map(user => ({
+          userId: user.userId,
+          userName: user.userName,
+          email: user.email,
+          totalHours: user.totalHours,
+          estimatedCost: user.estimatedCost,
+          environmentCount: user.environments.length,
+        })),
+      };
+  }
+}
+
+function toCsvCell(value: ExportValue): string {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Keep spreadsheets from evaluating user-controlled text as a formula.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+  const lines = [table.columns.join(',')];
+  table.rows.forEach(row => {
+    lines.push(table.columns.map(column => toCsvCell(row[column] ?? null)).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toNdjson(table: ExportTable): string {
+  return table.rows.map(row => JSON.stringify(row)).join('\n') + (table.rows.length > 0 ? '\n' : '');
+}
@@ -0,0 +1,121 @@
+import { UsageFilters, UsageRecord, AccountingOptions } from './types';
+import {
+  UNASSIGNED_PROJECT_ID,
+  UNKNOWN_ENVIRONMENT_CLASS_ID,
+  UNKNOWN_RUNNER_ID,
+  UsageLookups,
+} from './aggregation';
+import { accountSessions } from './accounting';
+
+/** Query parameter used for each filter, shared by the dashboard URL and the API. */
+export const FILTER_PARAMS: Record<keyof UsageFilters, string> = {
+  userId: 'user',
+  emailDomain: 'domain',
+  projectId: 'project',
+  environmentClassId: 'class',
+  runnerId: 'runner',
+  minHours: 'minHours',
+  search: 'q',
+};
+
+export function normalizeEmailDomain(value: string): string {
+  return value.trim().toLowerCase().replace(/^@/, '');
+}
+
+/** Reads filters from query parameters, ignoring empty and invalid values. */
+export function parseFilters(params: URLSearchParams): UsageFilters {
+  const filters: UsageFilters = {};
+  const value = (key: keyof UsageFilters) => params.get(FILTER_PARAMS[key])?.trim() || '';
+
+  (['userId', 'projectId', 'environmentClassId', 'runnerId', 'search'] as const).forEach(key => {
+    if (value(key)) filters[key] = value(key);
+  });
+  if (normalizeEmailDomain(value('emailDomain'))) {
+    filters.emailDomain = normalizeEmailDomain(value('emailDomain'));
+  }
+  const minHours = Number(value('minHours'));
+  if (Number.isFinite(minHours) && minHours > 0) {
+    filters.minHours = minHours;
+  }
+
+  return filters;
+}
+
+export function filtersToParams(filters: UsageFilters, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  (Object.keys(FILTER_PARAMS) as (keyof UsageFilters)[]).forEach(key => {
+    const value = filters[key];
+    if (value !== undefined && value !== '') {
+      params.set(FILTER_PARAMS[key], String(value));
+    }
+  });
+  return params;
+}
+
+export function hasFilters(filters: UsageFilters): boolean {
+  return filtersToParams(filters).toString() !== '';
+}
+
+/**
+ * Keeps the records that match every filter. The user, domain, project, class
+ * and runner filters match single records; `search` matches any ID or name
+ * the record resolves to. `minHours` then drops users whose accounted hours in
+ * the window (after the other filters) fall below the threshold.
+ */
+export function filterUsageRecords(
+  records: UsageRecord[],
+  lookups: Omit<UsageLookups, 'environments'>,
+  filters: UsageFilters,
+  options: AccountingOptions = {}
+): UsageRecord[] {
+  const memberMap = new Map(lookups.members.map(member => [member.userId, member]));
+  const projectMap = new Map(lookups.projects.map(project => [project.projectId, project]));
+  const classMap = new Map(lookups.environmentClasses.map(environmentClass => [
+    environmentClass.environmentClassId,
+    environmentClass,
+  ]));
+  const runnerMap = new Map(lookups.runners.map(runner => [runner.runnerId, runner]));
+  const domain = filters.emailDomain && normalizeEmailDomain(filters.emailDomain);
+  const search = filters.search?.trim().toLowerCase();
+
+  const matched = records.filter(record => {
+    const member = record.userId ? memberMap.get(record.userId) : undefined;
+    const projectId = record.projectId || UNASSIGNED_PROJECT_ID;
+    const environmentClassId = record.environmentClassId || UNKNOWN_ENVIRONMENT_CLASS_ID;
+    const runnerId = record.runnerId || UNKNOWN_RUNNER_ID;
+
+    if (filters.userId && record.userId !== filters.userId) return false;
+    if (domain && member?.email.toLowerCase().split('@')[1] !== domain) return false;
+    if (filters.projectId && projectId !== filters.projectId) return false;
+    if (filters.environmentClassId && environmentClassId !== filters.environmentClassId) return false;
+    if (filters.runnerId && runnerId !== filters.runnerId) return false;
+
+    if (search) {
+      const haystack = [
+        record.id,
+        record.userId,
+        record.environmentId,
+        member?.fullName,
+        member?.email,
+        record.projectId,
+        projectMap.get(projectId)?.name,
+        record.environmentClassId,
+        classMap.get(environmentClassId)?.name,
+        record.runnerId,
+        runnerMap.get(runnerId)?.name,
+      ];
+      if (!haystack.some(value => value?.toLowerCase().includes(search))) return false;
+    }
+
+    return true;
+  });
+
+  if (!filters.minHours) {
+    return matched;
+  }
+
+  const hoursByUser = new Map<string, number>();
+  accountSessions(matched, options).sessions.forEach(session => {
+    hoursByUser.set(session.userId, (hoursByUser.get(session.userId) || 0) + session.durationHours);
+  });
+  return matched.filter(record => (hoursByUser.get(record.userId || '') || 0) >= filters.minHours!);
+}
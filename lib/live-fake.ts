@@ -0,0 +1,99 @@
+import { LiveSource, ResourceEvent, isLivePhase } from './live';
+import { RunningEnvironment } from './types';
+
+export interface FakeLiveSource extends LiveSource {
+  /** Adds or updates an environment and emits an update event for it. */
+  put(environment: RunningEnvironment): void;
+  /** Removes an environment and emits a delete event for it. */
+  delete(environmentId: string): void;
+  /** Fails the open stream, as if the connection dropped. */
+  disconnect(error?: Error): void;
+  /** Number of times `watch` has been called. */
+  readonly connections: number;
+}
+
+/**
+ * In-memory stand-in for the events API. Environments live in a map; `put`
+ * and `delete` change it and push the matching resource event to the open
+ * stream, so the live view can be exercised without an organization.
+ */
+export function createFakeLiveSource(initial: RunningEnvironment[] = []): FakeLiveSource {
+  const environments = new Map(initial.map(environment => [environment.environmentId, environment]));
+  let push: ((event: ResourceEvent) => void) | null = null;
+  let fail: ((error: Error) => void) | null = null;
+  let connections = 0;
+
+  return {
+    get connections() {
+      return connections;
+    },
+    async listRunning() {
+      return Array.from(environments.values()).filter(environment => isLivePhase(environment.phase));
+    },
+    async retrieve(environmentId) {
+      return environments.get(environmentId) || null;
+    },
+    async watch(signal) {
+      connections++;
+      const queue: ResourceEvent[] = [];
+      let wake: (() => void) | null = null;
+      let failure: Error | null = null;
+      let closed = false;
+
+      push = event => {
+        queue.push(event);
+        wake?.();
+      };
+      fail = error => {
+        failure = error;
+        wake?.();
+      };
+      const onAbort = () => {
+        closed = true;
+        wake?.();
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      return {
+        async *[Symbol.asyncIterator]() {
+          try {
+            while (!closed) {
+              if (failure) throw failure;
+              if (queue.length > 0) {
+                yield queue.shift()!;
+                continue;
+              }
+              await new Promise<void>(resolve => {
+                wake = resolve;
+              });
+              wake = null;
+            }
+          } finally {
+            signal.removeEventListener('abort', onAbort);
+          }
+        },
+      };
+    },
+    put(environment) {
+      environments.set(environment.environmentId, environment);
+      push?.({
+        operation: 'RESOURCE_OPERATION_UPDATE',
+        resourceId: environment.environmentId,
+        resourceType: 'RESOURCE_TYPE_ENVIRONMENT',
+      });
+    },
+    delete(environmentId) {
+      environments.delete(environmentId);
+      push?.({
+        operation: 'RESOURCE_OPERATION_DELETE',
+        resourceId: environmentId,
+        resourceType: 'RESOURCE_TYPE_ENVIRONMENT',
+      });
+    },
+    disconnect(error = new Error('Fake stream disconnected')) {
+      fail?.(error);
+      push = null;
+      fail = null;
+    },
+  };
+}
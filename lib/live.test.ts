@@ -0,0 +1,135 @@
+import { getEventListeners } from 'events';
+import { describe, expect, it, vi } from 'vitest';
+import { createLiveHub, followRunningEnvironments } from './live';
+import { createFakeLiveSource } from './live-fake';
+import { LiveEvent, RunningEnvironment } from './types';
+
+const environment = (environmentId: string, phase = 'ENVIRONMENT_PHASE_RUNNING'): RunningEnvironment => ({
+  environmentId,
+  userId: 'u-alice',
+  phase,
+});
+
+/** Shortens events to what the assertions compare. */
+const outline = (event: LiveEvent) => {
+  switch (event.type) {
+    case 'snapshot':
+      return ['snapshot', event.environments.map(entry => entry.environmentId)];
+    case 'upsert':
+      return ['upsert', event.environment.environmentId];
+    case 'remove':
+      return ['remove', event.environmentId];
+    case 'status':
+      return event.error ? ['status', event.connected, event.error] : ['status', event.connected];
+  }
+};
+
+function collect() {
+  const events: LiveEvent[] = [];
+  const emit = (event: LiveEvent) => events.push(event);
+  const received = async (count: number) => {
+    await vi.waitFor(() => expect(events.length).toBeGreaterThanOrEqual(count));
+    return events.map(outline);
+  };
+  return { events, emit, received };
+}
+
+describe('followRunningEnvironments', () => {
+  it('starts with a snapshot of running environments and follows starts and stops', async () => {
+    const source = createFakeLiveSource([environment('env-a'), environment('env-x', 'ENVIRONMENT_PHASE_STOPPED')]);
+    const { emit, received } = collect();
+    const controller = new AbortController();
+    const following = followRunningEnvironments(source, emit, controller.signal, { initialRetryDelayMs: 1 });
+
+    expect(await received(2)).toEqual([['snapshot', ['env-a']], ['status', true]]);
+
+    source.put(environment('env-b', 'ENVIRONMENT_PHASE_STARTING'));
+    expect((await received(3)).slice(2)).toEqual([['upsert', 'env-b']]);
+    source.put(environment('env-a', 'ENVIRONMENT_PHASE_STOPPED'));
+    expect((await received(4)).slice(3)).toEqual([['remove', 'env-a']]);
+    source.delete('env-b');
+    expect((await received(5)).slice(4)).toEqual([['remove', 'env-b']]);
+
+    controller.abort();
+    await following;
+    expect(source.connections).toBe(1);
+  });
+
+  it('reconnects after a stream error and resyncs with a new snapshot', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const source = createFakeLiveSource([environment('env-a')]);
+    const { emit, received } = collect();
+    const controller = new AbortController();
+    const following = followRunningEnvironments(source, emit, controller.signal, { initialRetryDelayMs: 1 });
+
+    await received(2);
+    source.disconnect(new Error('Connection reset'));
+    // Changes while disconnected only show up in the next snapshot.
+    source.put(environment('env-b'));
+    source.delete('env-a');
+
+    expect((await received(5)).slice(2)).toEqual([
+      ['status', false, 'Connection reset'],
+      ['snapshot', ['env-b']],
+      ['status', true],
+    ]);
+    expect(source.connections).toBe(2);
+
+    controller.abort();
+    await following;
+  });
+
+  it('leaves no abort listeners behind after reconnecting', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const source = createFakeLiveSource([environment('env-a')]);
+    const { emit, received } = collect();
+    const controller = new AbortController();
+    const following = followRunningEnvironments(source, emit, controller.signal, { initialRetryDelayMs: 1 });
+
+    for (let connection = 1; connection <= 3; connection++) {
+      await received(connection * 3 - 1);
+      source.disconnect();
+    }
+    await received(11);
+
+    expect(source.connections).toBe(4);
+    // Only the open stream still listens.
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(1);
+
+    controller.abort();
+    await following;
+  });
+});
+
+describe('createLiveHub', () => {
+  it('shares one watch between subscribers and stops it with the last one', async () => {
+    const source = createFakeLiveSource([environment('env-a')]);
+    const hub = createLiveHub(source);
+    const first = collect();
+    const second = collect();
+
+    const unsubscribeFirst = hub.subscribe(first.emit);
+    expect(await first.received(3)).toEqual([['status', false], ['snapshot', ['env-a']], ['status', true]]);
+
+    // A late subscriber gets the current state straight away.
+    const unsubscribeSecond = hub.subscribe(second.emit);
+    expect(second.events.map(outline)).toEqual([['snapshot', ['env-a']], ['status', true]]);
+
+    source.put(environment('env-b'));
+    expect((await second.received(3)).slice(2)).toEqual([['upsert', 'env-b']]);
+    expect(first.events.map(outline).slice(3)).toEqual([['upsert', 'env-b']]);
+
+    unsubscribeFirst();
+    source.delete('env-b');
+    expect((await second.received(4)).slice(3)).toEqual([['remove', 'env-b']]);
+    expect(first.events).toHaveLength(4);
+    expect(source.connections).toBe(1);
+
+    unsubscribeSecond();
+    const third = collect();
+    const unsubscribeThird = hub.subscribe(third.emit);
+    expect(await third.received(3)).toEqual([['status', false], ['snapshot', ['env-a']], ['status', true]]);
+    expect(source.connections).toBe(2);
+    unsubscribeThird();
+  });
+});
@@ -0,0 +1,248 @@
+import Gitpod from '@gitpod/sdk';
+import type { Environment } from '@gitpod/sdk/resources/environments/environments';
+import { createClient } from './ona';
+import { LiveEvent, RunningEnvironment } from './types';
+
+/** Environment phases that count as running in the live view. */
+export const LIVE_PHASES = [
+  'ENVIRONMENT_PHASE_CREATING',
+  'ENVIRONMENT_PHASE_STARTING',
+  'ENVIRONMENT_PHASE_RUNNING',
+  'ENVIRONMENT_PHASE_UPDATING',
+  'ENVIRONMENT_PHASE_STOPPING',
+] as const;
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+export interface ResourceEvent {
+  operation?: string;
+  resourceId?: string;
+  resourceType?: string;
+}
+
+/**
+ * Where the live view gets its data from. `watch` should open the stream
+ * before resolving, so that no change between it and `listRunning` is lost.
+ */
+export interface LiveSource {
+  listRunning(): Promise<RunningEnvironment[]>;
+  retrieve(environmentId: string): Promise<RunningEnvironment | null>;
+  watch(signal: AbortSignal): Promise<AsyncIterable<ResourceEvent>>;
+}
+
+export type LiveListener = (event: LiveEvent) => void;
+
+export interface LiveHub {
+  subscribe(listener: LiveListener): () => void;
+}
+
+export function isLivePhase(phase: string | undefined): boolean {
+  return LIVE_PHASES.some(livePhase => livePhase === phase);
+}
+
+export function toRunningEnvironment(environment: Environment): RunningEnvironment {
+  return {
+    environmentId: environment.id,
+    userId: environment.metadata?.creator?.id,
+    projectId: environment.metadata?.projectId,
+    environmentClassId: environment.spec?.machine?.class,
+    runnerId: environment.metadata?.runnerId,
+    phase: environment.status?.phase || 'ENVIRONMENT_PHASE_UNSPECIFIED',
+    startedAt: environment.metadata?.lastStartedAt || environment.metadata?.createdAt,
+  };
+}
+
+export function createGitpodLiveSource(client: Gitpod): LiveSource {
+  return {
+    async listRunning() {
+      const environments: RunningEnvironment[] = [];
+      for await (const environment of client.environments.list({
+        filter: {
+          statusPhases: [...LIVE_PHASES],
+        },
+        pagination: {
+          pageSize: 100,
+        },
+      })) {
+        environments.push(toRunningEnvironment(environment));
+      }
+      return environments;
+    },
+    async retrieve(environmentId) {
+      try {
+        const { environment } = await client.environments.retrieve({ environmentId });
+        return toRunningEnvironment(environment);
+      } catch (error: any) {
+        if (error?.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async watch(signal) {
+      return client.events.watch({ organization: true }, { signal });
+    },
+  };
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    // The hub's signal lives as long as the process, so the listener must not outlive the wait.
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Follows running environments from `source` until `signal` aborts. Every
+ * (re)connect starts with a full snapshot; environment events after that are
+ * resolved to upserts or removals. When the stream fails or ends, it
+ * reconnects with exponential backoff.
+ */
+export async function followRunningEnvironments(
+  source: LiveSource,
+  emit: LiveListener,
+  signal: AbortSignal,
+  { initialRetryDelayMs = INITIAL_RETRY_DELAY_MS, maxRetryDelayMs = MAX_RETRY_DELAY_MS } = {}
+): Promise<void> {
+  let retryDelayMs = initialRetryDelayMs;
+
+  while (!signal.aborted) {
+    try {
+      const events = await source.watch(signal);
+      const environments = await source.listRunning();
+      emit({ type: 'snapshot', environments, asOf: new Date().toISOString() });
+      emit({ type: 'status', connected: true });
+      retryDelayMs = initialRetryDelayMs;
+
+      for await (const event of events) {
+        if (signal.aborted) break;
+        if (event.resourceType !== 'RESOURCE_TYPE_ENVIRONMENT' || !event.resourceId) continue;
+
+        const environment = event.operation === 'RESOURCE_OPERATION_DELETE'
+          ? null
+          : await source.retrieve(event.resourceId);
+        if (environment && isLivePhase(environment.phase)) {
+          emit({ type: 'upsert', environment });
+        } else {
+          emit({ type: 'remove', environmentId: event.resourceId });
+        }
+      }
+      if (!signal.aborted) {
+        emit({ type: 'status', connected: false, error: 'Event stream ended' });
+      }
+    } catch (error: any) {
+      if (signal.aborted) break;
+      console.error('Error watching environments:', error);
+      emit({ type: 'status', connected: false, error: error?.message || 'Event stream failed' });
+    }
+
+    await sleep(retryDelayMs, signal);
+    retryDelayMs = Math.min(retryDelayMs * 2, maxRetryDelayMs);
+  }
+}
+
+/**
+ * Shares one upstream watch between all subscribers. The watch starts with
+ * the first subscriber and stops with the last; new subscribers immediately
+ * get the current state as a snapshot.
+ */
+export function createLiveHub(source: LiveSource): LiveHub {
+  const listeners = new Set<LiveListener>();
+  const running = new Map<string, RunningEnvironment>();
+  let status: LiveEvent = { type: 'status', connected: false };
+  let asOf: string | null = null;
+  let controller: AbortController | null = null;
+
+  const broadcast = (event: LiveEvent) => {
+    if (event.type === 'snapshot') {
+      running.clear();
+      event.environments.forEach(environment => running.set(environment.environmentId, environment));
+      asOf = event.asOf;
+    } else if (event.type === 'upsert') {
+      running.set(event.environment.environmentId, event.environment);
+    } else if (event.type === 'remove') {
+      if (!running.delete(event.environmentId)) return;
+    } else {
+      status = event;
+    }
+    listeners.forEach(listener => listener(event));
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      if (asOf) {
+        listener({ type: 'snapshot', environments: Array.from(running.values()), asOf });
+      }
+      listener(status);
+
+      if (!controller) {
+        const { signal } = (controller = new AbortController());
+        followRunningEnvironments(source, event => !signal.aborted && broadcast(event), signal);
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && controller) {
+          controller.abort();
+          controller = null;
+          running.clear();
+          asOf = null;
+          status = { type: 'status', connected: false };
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Narrows a subscriber's events to the environments `userId` created, for
+ * members who may only see their own. Returns null for events to drop;
+ * removals only pass for environments the subscriber has seen.
+ */
+export function createUserEventFilter(userId: string): (event: LiveEvent) => LiveEvent | null {
+  const visible = new Set<string>();
+  return event => {
+    if (event.type === 'snapshot') {
+      const environments = event.environments.filter(environment => environment.userId === userId);
+      visible.clear();
+      environments.forEach(environment => visible.add(environment.environmentId));
+      return { ...event, environments };
+    }
+    if (event.type === 'upsert') {
+      const { environmentId } = event.environment;
+      if (event.environment.userId === userId) {
+        visible.add(environmentId);
+        return event;
+      }
+      return visible.delete(environmentId) ? { type: 'remove', environmentId } : null;
+    }
+    if (event.type === 'remove') {
+      return visible.delete(event.environmentId) ? event : null;
+    }
+    return event;
+  };
+}
+
+let liveHub: LiveHub | null | undefined;
+
+export function getLiveHub(): LiveHub | null {
+  if (liveHub === undefined) {
+    const client = createClient();
+    liveHub = client ? createLiveHub(createGitpodLiveSource(client)) : null;
+  }
+  return liveHub;
+}
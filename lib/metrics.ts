@@ -0,0 +1,321 @@
+import Gitpod from '@gitpod/sdk';
+import { accountSessions } from './accounting';
+import {
+  OTHER_SERIES_KEY,
+  UNASSIGNED_PROJECT_ID,
+  UNKNOWN_ENVIRONMENT_CLASS_ID,
+  UNKNOWN_RUNNER_ID,
+} from './aggregation';
+import { loadMetricsConfig, MetricLabel, MetricsConfig } from './config';
+import { createGitpodLiveSource } from './live';
+import { createClient, fetchUsage } from './ona';
+import { AccountingSummary, RunningEnvironment, UsageResponse } from './types';
+
+export type MetricFormat = 'prometheus' | 'openmetrics';
+
+export interface MetricSample {
+  labels: Record<string, string>;
+  value: number;
+}
+
+export interface MetricFamily {
+  /** Without the `_total` suffix for counters. */
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: MetricSample[];
+}
+
+export interface MetricsInput {
+  data: UsageResponse;
+  /** Null when running environments could not be listed. */
+  running: RunningEnvironment[] | null;
+}
+
+export interface MetricsCollector {
+  scrape(): Promise<MetricFamily[]>;
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+type LabelIds = Record<MetricLabel, string | undefined>;
+type LabelValues = Record<MetricLabel, string>;
+
+const RECORD_STATUSES: [string, keyof AccountingSummary][] = [
+  ['counted', 'countedRecords'],
+  ['clipped', 'clippedRecords'],
+  ['open', 'openRecords'],
+  ['malformed', 'malformedRecords'],
+  ['out_of_range', 'outOfRangeRecords'],
+];
+
+/** Readable label values: emails for users, names for everything else. */
+function labelResolver(data: UsageResponse): (ids: LabelIds) => LabelValues {
+  const members = new Map(data.members.map(member => [member.userId, member.email]));
+  const projects = new Map(data.projects.map(project => [project.projectId, project.name]));
+  const classes = new Map(data.environmentClasses.map(environmentClass => [
+    environmentClass.environmentClassId,
+    environmentClass.name,
+  ]));
+  const runners = new Map(data.runners.map(runner => [runner.runnerId, runner.name]));
+
+  return ids => ({
+    user: ids.user ? members.get(ids.user) || ids.user : 'unknown',
+    project: ids.project ? projects.get(ids.project) || ids.project : UNASSIGNED_PROJECT_ID,
+    class: ids.class ? classes.get(ids.class) || ids.class : UNKNOWN_ENVIRONMENT_CLASS_ID,
+    runner: ids.runner ? runners.get(ids.runner) || ids.runner : UNKNOWN_RUNNER_ID,
+  });
+}
+
+/**
+ * Keeps, per label, the `max` values with the most hours. The others are
+ * reported as `other`, so the number of series stays bounded however many
+ * users or projects there are.
+ */
+function boundLabels(
+  rows: { values: LabelValues; hours: number }[],
+  config: MetricsConfig
+): (values: LabelValues) => Record<string, string> {
+  const kept = new Map<MetricLabel, Set<string>>();
+  config.labels.forEach(label => {
+    const hours = new Map<string, number>();
+    rows.forEach(row => hours.set(row.values[label], (hours.get(row.values[label]) || 0) + row.hours));
+    const ranked = Array.from(hours.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    kept.set(label, new Set(ranked.slice(0, config.maxLabelValues).map(([value]) => value)));
+  });
+
+  return values => Object.fromEntries(
+    config.labels.map(label => [label, kept.get(label)!.has(values[label]) ? values[label] : OTHER_SERIES_KEY])
+  );
+}
+
+function sumBy<T>(items: T[], labelsOf: (item: T) => Record<string, string>, valueOf: (item: T) => number) {
+  const series = new Map<string, MetricSample>();
+  items.forEach(item => {
+    const labels = labelsOf(item);
+    const key = JSON.stringify(labels);
+    if (!series.has(key)) {
+      series.set(key, { labels, value: 0 });
+    }
+    series.get(key)!.value += valueOf(item);
+  });
+  return Array.from(series.values());
+}
+
+/**
+ * Usage gauges over the window of `input.data`, using the same session
+ * accounting as the dashboard, plus running-environment gauges.
+ */
+export function buildUsageMetrics(input: MetricsInput, config: MetricsConfig): MetricFamily[] {
+  const { data, running } = input;
+  const { sessions } = accountSessions(data.usageRecords, {
+    window: data.window,
+    now: new Date(data.asOf),
+    rateCard: data.rateCard,
+  });
+  const resolve = labelResolver(data);
+  const usage = sessions.map(session => ({
+    session,
+    values: resolve({
+      user: session.userId,
+      project: session.record.projectId,
+      class: session.record.environmentClassId,
+      runner: session.record.runnerId,
+    }),
+  }));
+  const environments = (running || []).map(environment => ({
+    environment,
+    values: resolve({
+      user: environment.userId,
+      project: environment.projectId,
+      class: environment.environmentClassId,
+      runner: environment.runnerId,
+    }),
+  }));
+  const bound = boundLabels(
+    [
+      ...usage.map(({ values, session }) => ({ values, hours: session.durationHours })),
+      ...environments.map(({ values }) => ({ values, hours: 0 })),
+    ],
+    config
+  );
+  const windowHours =
+    (new Date(data.window.endTime).getTime() - new Date(data.window.startTime).getTime()) / MS_PER_HOUR;
+
+  const families: MetricFamily[] = [
+    {
+      name: 'ona_environment_usage_hours',
+      help: `Environment hours in the trailing ${windowHours}h, clipped to the window.`,
+      type: 'gauge',
+      samples: sumBy(usage, ({ values }) => bound(values), ({ session }) => session.durationHours),
+    },
+    {
+      name: 'ona_environment_usage_cost',
+      help: `Estimated cost of the environment hours in the trailing ${windowHours}h.`,
+      type: 'gauge',
+      samples: sumBy(
+        usage,
+        ({ values }) => ({ ...bound(values), currency: data.rateCard.currency }),
+        ({ session }) => session.estimatedCost
+      ),
+    },
+    {
+      name: 'ona_environment_sessions',
+      help: `Sessions in the trailing ${windowHours}h.`,
+      type: 'gauge',
+      samples: sumBy(usage, ({ values }) => bound(values), () => 1),
+    },
+    {
+      name: 'ona_usage_records',
+      help: 'Usage records in the window by how the accounting treated them.',
+      type: 'gauge',
+      samples: RECORD_STATUSES.map(([status, key]) => ({ labels: { status }, value: data.accounting[key] })),
+    },
+  ];
+  if (running) {
+    families.push({
+      name: 'ona_running_environments',
+      help: 'Environments currently running or changing state.',
+      type: 'gauge',
+      samples: sumBy(
+        environments,
+        ({ values, environment }) => ({ ...bound(values), phase: environment.phase }),
+        () => 1
+      ),
+    });
+  }
+  return families;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Prometheus text format 0.0.4, or OpenMetrics 1.0 which differs only in
+ * counter names and the closing `# EOF`.
+ */
+export function renderMetrics(families: MetricFamily[], format: MetricFormat = 'prometheus'): string {
+  const lines: string[] = [];
+  families.forEach(family => {
+    const sampleName = family.type === 'counter' ? `${family.name}_total` : family.name;
+    const familyName = format === 'openmetrics' ? family.name : sampleName;
+    lines.push(`# HELP ${familyName} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${familyName} ${family.type}`);
+    family.samples.forEach(sample => {
+      const labels = Object.entries(sample.labels)
+        .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+        .join(',');
+      lines.push(`${sampleName}${labels ? `{${labels}}` : ''} ${formatValue(sample.value)}`);
+    });
+  });
+  if (format === 'openmetrics') {
+    lines.push('# EOF');
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serves scrapes from a snapshot built by `load`. The first scrape waits for
+ * it; later scrapes get the current snapshot while a stale one is refreshed
+ * in the background. A failed refresh keeps the previous snapshot.
+ */
+export function createMetricsCollector(
+  load: (now: Date) => Promise<MetricsInput>,
+  config: MetricsConfig
+): MetricsCollector {
+  let families: MetricFamily[] | null = null;
+  let refreshedAt = 0;
+  let durationSeconds = 0;
+  let failures = 0;
+  let refreshing: Promise<void> | null = null;
+
+  const refresh = () => {
+    if (!refreshing) {
+      refreshing = (async () => {
+        const now = new Date();
+        try {
+          families = buildUsageMetrics(await load(now), config);
+          refreshedAt = now.getTime();
+          durationSeconds = (Date.now() - now.getTime()) / 1000;
+        } catch (error) {
+          failures++;
+          console.error('Error refreshing metrics:', error);
+        } finally {
+          refreshing = null;
+        }
+      })();
+    }
+    return refreshing;
+  };
+
+  return {
+    async scrape() {
+      if (!families) {
+        await refresh();
+      } else if (Date.now() - refreshedAt >= config.refreshMs) {
+        refresh();
+      }
+      if (!families) {
+        throw new Error('Usage metrics are not available yet');
+      }
+      return [
+        ...families,
+        {
+          name: 'ona_metrics_snapshot_timestamp_seconds',
+          help: 'When the served snapshot was taken.',
+          type: 'gauge',
+          samples: [{ labels: {}, value: refreshedAt / 1000 }],
+        },
+        {
+          name: 'ona_metrics_snapshot_duration_seconds',
+          help: 'How long taking the served snapshot took.',
+          type: 'gauge',
+          samples: [{ labels: {}, value: durationSeconds }],
+        },
+        {
+          name: 'ona_metrics_refresh_failures',
+          help: 'Snapshot refreshes that failed.',
+          type: 'counter',
+          samples: [{ labels: {}, value: failures }],
+        },
+      ];
+    },
+  };
+}
+
+/** Usage over the trailing window ending at `now`, and what is running. */
+export async function loadMetricsInput(client: Gitpod, now: Date, windowHours: number): Promise<MetricsInput> {
+  const window = {
+    startTime: new Date(now.getTime() - windowHours * MS_PER_HOUR).toISOString(),
+    endTime: now.toISOString(),
+  };
+  const [data, running] = await Promise.all([
+    fetchUsage(client, window),
+    createGitpodLiveSource(client).listRunning().catch(error => {
+      console.error('Error listing running environments:', error);
+      return null;
+    }),
+  ]);
+  return { data, running };
+}
+
+let metricsCollector: MetricsCollector | null | undefined;
+
+export function getMetricsCollector(): MetricsCollector | null {
+  if (metricsCollector === undefined) {
+    const client = createClient();
+    const config = loadMetricsConfig();
+    metricsCollector = client
+      ? createMetricsCollector(now => loadMetricsInput(client, now, config.windowHours), config)
+      : null;
+  }
+  return metricsCollector;
+}
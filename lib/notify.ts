@@ -0,0 +1,21 @@
+export interface SlackMessage {
+  text: string;
+  blocks?: unknown[];
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Posts a Slack-compatible JSON message to a webhook. Any receiver that
+ * accepts a JSON POST works, including a local HTTP server for testing.
+ */
+export async function postWebhook(url: string, message: SlackMessage, fetchImpl: FetchLike = fetch): Promise<void> {
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,633 @@
+import { setMaxListeners } from 'events';
+import path from 'path';
+import Gitpod from '@gitpod/sdk';
+import { MembersPage } from '@gitpod/sdk/pagination';
+import type { Environment } from '@gitpod/sdk/resources/environments/environments';
+import { accountSessions } from './accounting';
+import { defaultTimeZone, loadFetchConfig, loadRateCard, usageStoreDir } from './config';
+import { filterUsageRecords, hasFilters } from './filters';
+import { createUsageStore, recordKey, UsageStore } from './store';
+import {
+  UsageRecord,
+  Member,
+  Project,
+  EnvironmentClass,
+  EnvironmentInfo,
+  Runner,
+  Team,
+  TimeWindow,
+  SyncStatus,
+  UsageResponse,
+  UsageFilters,
+  UsageProgress,
+  UsageStreamEvent,
+  UsageWarning,
+  UsageWarningCode,
+} from './types';
+import { listAll, listPages, toUpstreamError, UpstreamError, withRetry } from './upstream';
+
+const usageStores = new Map<string, UsageStore>();
+
+// Records carry no organization, so each organization gets its own store.
+function getUsageStore(organizationId: string): UsageStore | null {
+  const dir = usageStoreDir();
+  if (!dir) {
+    return null;
+  }
+  if (!usageStores.has(organizationId)) {
+    usageStores.set(organizationId, createUsageStore(path.join(dir, organizationId)));
+  }
+  return usageStores.get(organizationId)!;
+}
+
+export interface UsageQuery extends TimeWindow {
+  organizationId?: string | null;
+  filters?: UsageFilters;
+  /** Timezone the window was resolved in; defaults to `ONA_TIMEZONE`. */
+  timeZone?: string;
+  /** Receives lookups, progress and records while the usage is fetched. */
+  onEvent?: (event: UsageStreamEvent) => void;
+  /** Stops fetching when aborted, e.g. when the browser goes away. */
+  signal?: AbortSignal;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function createClient(pat: string | undefined = process.env.ONA_PAT): Gitpod | null {
+  if (!pat) {
+    return null;
+  }
+  return new Gitpod({
+    bearerToken: pat,
+  });
+}
+
+/**
+ * The organization a client's token belongs to. Usage records are always
+ * those of this organization, whatever is passed as `organizationId`.
+ */
+export async function authenticatedOrganizationId(client: Gitpod): Promise<string | null> {
+  const identity = await withRetry(
+    'identify the access token',
+    () => client.identity.getAuthenticatedIdentity({}, { maxRetries: 0 })
+  );
+  return identity.organizationId || null;
+}
+
+interface GroupMembership {
+  groupId?: string;
+  subject?: {
+    id?: string;
+    principal?: string;
+  };
+}
+
+// The SDK does not wrap GroupService/ListMemberships yet, so page through it
+// with the client's generic list helper.
+function listGroupMemberships(client: Gitpod, groupId: string, signal?: AbortSignal) {
+  return client.getAPIList<GroupMembership, MembersPage<GroupMembership>>(
+    '/gitpod.v1.GroupService/ListMemberships',
+    MembersPage<GroupMembership>,
+    {
+      query: { pageSize: 100 },
+      body: { groupId },
+      method: 'post',
+      maxRetries: 0,
+      signal,
+    }
+  );
+}
+
+export async function listTeams(client: Gitpod, signal?: AbortSignal): Promise<Team[]> {
+  const groups = await listAll(
+    'list groups',
+    () => client.groups.list({ pagination: { pageSize: 100 } }, { maxRetries: 0, signal }),
+    signal
+  );
+  const teams: Team[] = [];
+  for (const group of groups) {
+    // System-managed groups (e.g. everyone in the org) are not teams.
+    if (!group.id || group.systemManaged) {
+      continue;
+    }
+    const groupId = group.id;
+    const memberships = await listAll(
+      'list group memberships',
+      () => listGroupMemberships(client, groupId, signal),
+      signal
+    );
+    teams.push({
+      teamId: groupId,
+      name: group.name || groupId,
+      memberIds: memberships
+        .filter(membership => !membership.subject?.principal || membership.subject.principal === 'PRINCIPAL_USER')
+        .map(membership => membership.subject?.id)
+        .filter((id): id is string => !!id),
+    });
+  }
+  return teams;
+}
+
+/** The usage records of `window`, one page at a time. */
+export function listUsagePages(client: Gitpod, window: TimeWindow, signal?: AbortSignal): AsyncGenerator<UsageRecord[]> {
+  return listPages('list usage records', () => client.usage.listEnvironmentRuntimeRecords({
+    filter: {
+      dateRange: {
+        startTime: window.startTime,
+        endTime: window.endTime,
+      },
+    },
+    pagination: {
+      pageSize: 100,
+    },
+  }, { maxRetries: 0, signal }), signal);
+}
+
+/** Consecutive windows of at most `chunkMs` covering `window`. */
+export function splitWindow(window: TimeWindow, chunkMs: number): TimeWindow[] {
+  const start = new Date(window.startTime).getTime();
+  const end = new Date(window.endTime).getTime();
+  const chunks: TimeWindow[] = [];
+  for (let from = start; from < end; from += chunkMs) {
+    chunks.push({
+      startTime: new Date(from).toISOString(),
+      endTime: new Date(Math.min(from + chunkMs, end)).toISOString(),
+    });
+  }
+  return chunks;
+}
+
+/** Runs `task` for each item, `limit` at a time, and stops starting new ones once one fails. */
+async function forEachConcurrently<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      try {
+        await task(items[next++]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+interface ChunkedFetch {
+  /** Keys of the records fetched so far, shared by every range of one fetch. */
+  seen: Set<string>;
+  signal?: AbortSignal;
+  onPlan(chunks: number): void;
+  /** Gets the records a chunk added; chunks may complete in any order. */
+  onChunk(records: UsageRecord[]): Promise<void>;
+  /**
+   * Gets a chunk that still failed after retries, with the pages fetched
+   * before. Without it, such a failure fails the whole fetch.
+   */
+  onTruncated?(chunk: TimeWindow, pages: number, error: UpstreamError): void;
+}
+
+/**
+ * Fetches the records of `window` in chunks of `ONA_FETCH_CHUNK_DAYS`,
+ * `ONA_FETCH_CONCURRENCY` at a time. The API returns every record that
+ * overlaps a chunk, so records spanning a boundary come back more than once
+ * and are de-duplicated by ID. Chunks cut short by rate limits or outages
+ * keep the pages they got, unless no chunk got any.
+ */
+async function fetchRecordsInChunks(client: Gitpod, window: TimeWindow, options: ChunkedFetch): Promise<UsageRecord[]> {
+  const { chunkDays, concurrency } = loadFetchConfig();
+  const chunks = splitWindow(window, chunkDays * MS_PER_DAY);
+  const records: UsageRecord[] = [];
+  const truncated: { chunk: TimeWindow; pages: number; error: UpstreamError }[] = [];
+  options.onPlan(chunks.length);
+
+  await forEachConcurrently(chunks, concurrency, async chunk => {
+    const added: UsageRecord[] = [];
+    let pages = 0;
+    try {
+      for await (const page of listUsagePages(client, chunk, options.signal)) {
+        pages++;
+        page.forEach(record => {
+          const key = recordKey(record);
+          if (!options.seen.has(key)) {
+            options.seen.add(key);
+            added.push(record);
+          }
+        });
+      }
+    } catch (error) {
+      if (!options.onTruncated || !(error instanceof UpstreamError) || !error.retryable) {
+        throw error;
+      }
+      truncated.push({ chunk, pages, error });
+    }
+    records.push(...added);
+    await options.onChunk(added);
+  });
+
+  if (truncated.length === chunks.length && truncated.every(({ pages }) => pages === 0)) {
+    throw truncated[0].error;
+  }
+  truncated.forEach(({ chunk, pages, error }) => options.onTruncated?.(chunk, pages, error));
+  return records;
+}
+
+/** Runs a lookup; when it fails, the usage is still returned without it. */
+async function lookup<T>(list: () => Promise<T[]>, onError: (error: UpstreamError) => void, signal?: AbortSignal): Promise<T[]> {
+  try {
+    return await list();
+  } catch (error) {
+    if (!signal?.aborted) {
+      console.error('Error fetching usage lookups:', error);
+      onError(toUpstreamError('look up usage details', error));
+    }
+    return [];
+  }
+}
+
+async function listMembers(client: Gitpod, organizationId: string, signal?: AbortSignal): Promise<Member[]> {
+  return listAll('list organization members', () => client.organizations.listMembers({
+    organizationId,
+    pagination: {
+      pageSize: 100,
+    },
+  }, { maxRetries: 0, signal }), signal);
+}
+
+async function listProjects(client: Gitpod, projectIds: string[], signal?: AbortSignal): Promise<Project[]> {
+  const projects = await listAll('list projects', () => client.projects.list({
+    filter: {
+      projectIds,
+    },
+    pagination: {
+      pageSize: 100,
+    },
+  }, { maxRetries: 0, signal }), signal);
+  return projects
+    .filter(project => !!project.id)
+    .map(project => ({
+      projectId: project.id!,
+      name: project.metadata?.name || project.id!,
+    }));
+}
+
+async function listEnvironmentClasses(client: Gitpod, signal?: AbortSignal): Promise<EnvironmentClass[]> {
+  const environmentClasses = await listAll('list environment classes', () => client.environments.classes.list({
+    pagination: {
+      pageSize: 100,
+    },
+  }, { maxRetries: 0, signal }), signal);
+  return environmentClasses.map(environmentClass => ({
+    environmentClassId: environmentClass.id,
+    name: environmentClass.displayName || environmentClass.id,
+    description: environmentClass.description,
+  }));
+}
+
+async function listRunners(client: Gitpod, signal?: AbortSignal): Promise<Runner[]> {
+  const runners = await listAll('list runners', () => client.runners.list({
+    pagination: {
+      pageSize: 100,
+    },
+  }, { maxRetries: 0, signal }), signal);
+  return runners
+    .filter(runner => !!runner.runnerId)
+    .map(runner => ({
+      runnerId: runner.runnerId!,
+      name: runner.name || runner.runnerId!,
+      kind: runner.kind,
+      provider: runner.provider,
+      phase: runner.status?.phase,
+    }));
+}
+
+const BRANCH_TARGET_MODES = ['CLONE_TARGET_MODE_REMOTE_BRANCH', 'CLONE_TARGET_MODE_LOCAL_BRANCH'];
+// Path segments where a context URL stops naming the repository.
+const CONTEXT_URL_MARKERS = new Set([
+  '-', 'tree', 'blob', 'commit', 'commits', 'pull', 'pulls', 'merge_requests', 'issues', 'src', 'branch',
+]);
+
+/**
+ * Host and path of a repository, e.g. `github.com/acme/web` for
+ * `https://github.com/acme/web.git`, `git@github.com:acme/web.git` or a
+ * context URL such as `https://github.com/acme/web/tree/main`.
+ */
+export function normalizeRepository(url: string): string | undefined {
+  const scp = url.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  let host: string;
+  let segments: string[];
+  try {
+    const parsed = new URL(scp ? `ssh://${scp[1]}/${scp[2]}` : url);
+    host = parsed.hostname.toLowerCase();
+    segments = parsed.pathname.split('/').filter(Boolean);
+  } catch {
+    return undefined;
+  }
+  const end = segments.findIndex(segment => CONTEXT_URL_MARKERS.has(segment));
+  const repositoryPath = (end >= 0 ? segments.slice(0, end) : segments).join('/').replace(/\.git$/, '');
+  return host && repositoryPath ? `${host}/${repositoryPath}` : undefined;
+}
+
+function toEnvironmentInfo(environment: Environment): EnvironmentInfo {
+  const specs = environment.spec?.content?.initializer?.specs || [];
+  const git = specs.find(spec => spec.git?.remoteUri)?.git;
+  const contextUrl = environment.metadata?.originalContextUrl || specs.find(spec => spec.contextUrl?.url)?.contextUrl?.url;
+  const repositoryUrl = git?.remoteUri || environment.status?.content?.git?.cloneUrl || contextUrl;
+  const phase = environment.status?.phase;
+  return {
+    environmentId: environment.id,
+    name: environment.metadata?.name || undefined,
+    userId: environment.metadata?.creator?.id,
+    repository: repositoryUrl ? normalizeRepository(repositoryUrl) : undefined,
+    contextUrl,
+    branch: environment.status?.content?.git?.branch
+      || (git?.targetMode && BRANCH_TARGET_MODES.includes(git.targetMode) ? git.cloneTarget : undefined),
+    phase,
+    archived: !!environment.metadata?.archivedAt,
+    deleted: phase === 'ENVIRONMENT_PHASE_DELETED',
+  };
+}
+
+interface EnvironmentCache {
+  listedAt: number;
+  /** In the order the entries were fetched, oldest first. */
+  environments: Map<string, { info: EnvironmentInfo; fetchedAt: number }>;
+}
+
+/** Environments retrieved one by one per request; the rest go without details. */
+const MAX_ENVIRONMENT_RETRIEVES = 100;
+/** How long environments the API no longer knows stay cached. */
+const DELETED_ENVIRONMENT_CACHE_MS = 24 * 60 * 60 * 1000;
+/** Environments cached per organization; the oldest are dropped first. */
+const MAX_CACHED_ENVIRONMENTS = 10000;
+
+const environmentCaches = new Map<string, EnvironmentCache>();
+
+/**
+ * Details of the environments with `environmentIds`, leaving out those that
+ * could not be looked up. The organization's environments, archived ones
+ * included, are listed at most once per `ONA_ENVIRONMENT_CACHE_SECONDS`; up to
+ * `MAX_ENVIRONMENT_RETRIEVES` of those not listed are retrieved one by one,
+ * and those that are gone are marked deleted and kept for a day.
+ */
+async function resolveEnvironments(
+  client: Gitpod,
+  organizationId: string,
+  environmentIds: string[],
+  onSkipped: (count: number) => void,
+  signal?: AbortSignal
+): Promise<EnvironmentInfo[]> {
+  const { concurrency, environmentCacheMs } = loadFetchConfig();
+  const now = Date.now();
+  if (!environmentCaches.has(organizationId)) {
+    environmentCaches.set(organizationId, { listedAt: -Infinity, environments: new Map() });
+  }
+  const cache = environmentCaches.get(organizationId)!;
+  const fresh = (fetchedAt: number) => now - fetchedAt <= environmentCacheMs;
+  const current = (entry: { info: EnvironmentInfo; fetchedAt: number }) =>
+    entry.info.deleted ? now - entry.fetchedAt <= DELETED_ENVIRONMENT_CACHE_MS : fresh(entry.fetchedAt);
+  const cached = (environmentId: string) => {
+    const entry = cache.environments.get(environmentId);
+    return !!entry && current(entry);
+  };
+  const remember = (info: EnvironmentInfo) => {
+    cache.environments.delete(info.environmentId);
+    cache.environments.set(info.environmentId, { info, fetchedAt: now });
+  };
+
+  if (!fresh(cache.listedAt) && environmentIds.some(environmentId => !cached(environmentId))) {
+    const environments = await listAll('list environments', () => client.environments.list({
+      filter: {
+        archivalStatus: 'ARCHIVAL_STATUS_ALL',
+      },
+      pagination: {
+        pageSize: 100,
+      },
+    }, { maxRetries: 0, signal }), signal);
+    environments.forEach(environment => remember(toEnvironmentInfo(environment)));
+    cache.listedAt = now;
+  }
+
+  const unlisted = environmentIds.filter(environmentId => !cached(environmentId));
+  if (unlisted.length > MAX_ENVIRONMENT_RETRIEVES) {
+    onSkipped(unlisted.length - MAX_ENVIRONMENT_RETRIEVES);
+  }
+  await forEachConcurrently(unlisted.slice(0, MAX_ENVIRONMENT_RETRIEVES), concurrency, async environmentId => {
+    try {
+      const { environment } = await withRetry('retrieve environment', () => client.environments.retrieve(
+        { environmentId },
+        { maxRetries: 0, signal }
+      ), signal);
+      remember(toEnvironmentInfo(environment));
+    } catch (error) {
+      if (!(error instanceof UpstreamError) || error.kind !== 'notFound') {
+        throw error;
+      }
+      remember({ environmentId, archived: false, deleted: true });
+    }
+  });
+
+  const resolved = environmentIds.filter(cached).map(environmentId => cache.environments.get(environmentId)!.info);
+
+  // Expired entries would be fetched again anyway; past the cap, the oldest go.
+  cache.environments.forEach((entry, environmentId) => {
+    if (!current(entry)) {
+      cache.environments.delete(environmentId);
+    }
+  });
+  for (const environmentId of cache.environments.keys()) {
+    if (cache.environments.size <= MAX_CACHED_ENVIRONMENTS) break;
+    cache.environments.delete(environmentId);
+  }
+
+  return resolved;
+}
+
+/**
+ * Looks up the projects records refer to as they come in, one request per
+ * batch of IDs not seen before.
+ */
+function createProjectResolver(client: Gitpod, onError: (error: UpstreamError) => void, signal?: AbortSignal) {
+  const projects = new Map<string, Project>();
+  const requests = new Map<string, Promise<void>>();
+
+  return {
+    projects: () => Array.from(projects.values()),
+    /** Resolves the projects of `records`; returns those this call asked for. */
+    async resolve(records: UsageRecord[]): Promise<Project[]> {
+      const ids = Array.from(new Set(records.map(record => record.projectId).filter((id): id is string => !!id)));
+      const missing = ids.filter(id => !requests.has(id));
+      if (missing.length > 0) {
+        const request = lookup(() => listProjects(client, missing, signal), onError, signal).then(found => {
+          found.forEach(project => projects.set(project.projectId, project));
+        });
+        missing.forEach(id => requests.set(id, request));
+      }
+      await Promise.all(ids.map(id => requests.get(id)));
+      return missing.map(id => projects.get(id)).filter((project): project is Project => !!project);
+    },
+  };
+}
+
+/**
+ * Usage records of a window with everything needed to aggregate them. With
+ * `query.onEvent`, lookups, progress and the records of each chunk are
+ * reported as they arrive; streamed records match every filter except
+ * `minHours`, which needs the totals. Lookups that fail and records that
+ * could not all be fetched are listed in `warnings` rather than failing the
+ * response.
+ */
+export async function fetchUsage(client: Gitpod, query: UsageQuery): Promise<UsageResponse> {
+  // Lookups still running when fetching the records fails are stopped too.
+  const stop = new AbortController();
+  const signal = query.signal ? AbortSignal.any([query.signal, stop.signal]) : stop.signal;
+  // Every page of every chunk is a request listening on the signal.
+  setMaxListeners(Infinity, signal);
+  try {
+    return await collectUsage(client, { ...query, signal });
+  } finally {
+    stop.abort();
+  }
+}
+
+async function collectUsage(client: Gitpod, query: UsageQuery): Promise<UsageResponse> {
+  const { startTime, endTime, signal } = query;
+  const emit = query.onEvent || (() => {});
+  const rateCard = loadRateCard();
+  const organizationId = query.organizationId || await authenticatedOrganizationId(client);
+  if (!organizationId) {
+    throw new Error('Could not determine the organization of the access token');
+  }
+
+  const warnings: UsageWarning[] = [];
+  const warn = (code: UsageWarningCode, message: string) => {
+    if (!warnings.some(warning => warning.code === code && warning.message === message)) {
+      warnings.push({ code, message, organizationId });
+    }
+  };
+  const lookupFailed = (what: string) => (error: UpstreamError) => warn('lookup_unavailable', `${what} unavailable: ${error.message}`);
+
+  const lookupsReady = Promise.all([
+    lookup(() => listMembers(client, organizationId, signal), lookupFailed('Member names'), signal),
+    lookup(() => listEnvironmentClasses(client, signal), lookupFailed('Environment class names'), signal),
+    lookup(() => listRunners(client, signal), lookupFailed('Runner names'), signal),
+    lookup(() => listTeams(client, signal), lookupFailed('Teams'), signal),
+  ]).then(([members, environmentClasses, runners, teams]) => {
+    if (!signal?.aborted) {
+      emit({ type: 'lookups', organizationId, members, environmentClasses, runners, teams });
+    }
+    return { members, environmentClasses, runners, teams };
+  });
+  const projects = createProjectResolver(client, lookupFailed('Project names'), signal);
+  const { minHours, ...recordFilters } = query.filters || {};
+  const window = { startTime, endTime };
+  // Members are filtered to their own records, so the records of others are
+  // dropped before anything is counted, looked up or streamed for them.
+  const userRecords = (records: UsageRecord[]) =>
+    recordFilters.userId ? records.filter(record => record.userId === recordFilters.userId) : records;
+
+  const emitRecords = async (fetched: UsageRecord[]) => {
+    const records = userRecords(fetched);
+    const newProjects = await projects.resolve(records);
+    if (!query.onEvent) {
+      return;
+    }
+    const lookups = await lookupsReady;
+    const matched = hasFilters(recordFilters)
+      ? filterUsageRecords(records, { ...lookups, projects: projects.projects() }, recordFilters, { window })
+      : records;
+    emit({ type: 'records', records: matched, projects: newProjects });
+  };
+
+  const progress: UsageProgress = { organizationId, completedChunks: 0, totalChunks: 0, fetchedRecords: 0 };
+  const store = getUsageStore(organizationId);
+  const chunked = (stream: boolean): ChunkedFetch => ({
+    seen: new Set(),
+    signal,
+    onPlan(chunks) {
+      progress.totalChunks += chunks;
+      emit({ type: 'progress', progress: { ...progress } });
+    },
+    async onChunk(records) {
+      progress.completedChunks++;
+      progress.fetchedRecords += userRecords(records).length;
+      if (stream) {
+        await emitRecords(records);
+      }
+      emit({ type: 'progress', progress: { ...progress } });
+    },
+  });
+
+  let usageRecords: UsageRecord[];
+  let sync: SyncStatus;
+  if (store) {
+    // A store synced with gaps would never fill them, so a failed chunk fails
+    // the sync and the records stored so far are served instead. Stored
+    // records outside the fetched ranges belong to the result too, so they
+    // are streamed once the store has been queried.
+    const options = chunked(false);
+    try {
+      sync = await store.sync(async function* (range) {
+        yield* await fetchRecordsInChunks(client, range, options);
+      }, window);
+      sync = { ...sync, fetchedRecords: progress.fetchedRecords };
+    } catch (error) {
+      if (signal?.aborted || !(error instanceof UpstreamError) || !error.retryable) {
+        throw error;
+      }
+      console.error('Error syncing the usage store:', error);
+      warn('sync_failed', `Usage data may be incomplete, showing stored records only: ${error.message}`);
+      sync = { mode: 'store', fetchedRecords: progress.fetchedRecords };
+    }
+    usageRecords = userRecords(await store.query(window));
+    await emitRecords(usageRecords);
+  } else {
+    usageRecords = userRecords(await fetchRecordsInChunks(client, window, {
+      ...chunked(true),
+      onTruncated(chunk, pages, error) {
+        console.error('Error fetching usage records:', error);
+        warn('usage_truncated', pages > 0
+          ? `Usage data from ${chunk.startTime} to ${chunk.endTime} truncated after page ${pages}: ${error.message}`
+          : `Usage data from ${chunk.startTime} to ${chunk.endTime} unavailable: ${error.message}`);
+      },
+    }));
+    sync = { mode: 'live', lastSyncAt: new Date().toISOString(), fetchedRecords: usageRecords.length };
+  }
+
+  const { members, environmentClasses, runners, teams } = await lookupsReady;
+  await projects.resolve(usageRecords);
+  const lookups = { members, projects: projects.projects(), environmentClasses, runners, teams };
+
+  const asOf = new Date();
+  if (query.filters && hasFilters(query.filters)) {
+    usageRecords = filterUsageRecords(usageRecords, lookups, query.filters, { window, now: asOf });
+  }
+  const environmentIds = Array.from(new Set(usageRecords.map(record => record.environmentId).filter((id): id is string => !!id)));
+  const environments = await lookup(
+    () => resolveEnvironments(
+      client,
+      organizationId,
+      environmentIds,
+      count => warn('lookup_unavailable', `Environment details unavailable for ${count} environments that were not listed`),
+      signal
+    ),
+    lookupFailed('Environment details'),
+    signal
+  );
+  const { summary } = accountSessions(usageRecords, { window, now: asOf });
+
+  return {
+    organizationIds: [organizationId],
+    usageRecords,
+    ...lookups,
+    environments,
+    rateCard,
+    accounting: summary,
+    sync,
+    window,
+    timeZone: query.timeZone || defaultTimeZone(),
+    asOf: asOf.toISOString(),
+    warnings,
+  };
+}
@@ -0,0 +1,206 @@
+import Gitpod from '@gitpod/sdk';
+import { emptyAccountingSummary } from './accounting';
+import { loadOrganizationTokens } from './config';
+import { authenticatedOrganizationId, createClient, fetchUsage, UsageQuery } from './ona';
+import { ALL_ORGANIZATIONS } from './view-state';
+import { AccountingSummary, Organization, SessionUser, UsageResponse, UsageWarning } from './types';
+import { UpstreamError } from './upstream';
+
+export class OrganizationAccessError extends Error {}
+
+async function organizationName(client: Gitpod, organizationId: string): Promise<string> {
+  try {
+    const { organization } = await client.organizations.retrieve({ organizationId });
+    return organization.name || organizationId;
+  } catch {
+    return organizationId;
+  }
+}
+
+/**
+ * Organizations the `ONA_PAT` account is a member of, plus any organization
+ * with a token in `ONA_ORGANIZATION_TOKENS`. Only the organization `ONA_PAT`
+ * belongs to and those with their own token are accessible.
+ */
+export async function listOrganizations(): Promise<Organization[]> {
+  const client = createClient();
+  if (!client) {
+    return [];
+  }
+
+  const tokens = loadOrganizationTokens();
+  const homeId = await authenticatedOrganizationId(client);
+  const organizations = new Map<string, Organization>();
+  const add = (organizationId: string, name: string) => {
+    organizations.set(organizationId, {
+      organizationId,
+      name,
+      accessible: organizationId === homeId || organizationId in tokens,
+    });
+  };
+
+  try {
+    const { account } = await client.accounts.retrieve({});
+    account.memberships?.forEach(membership => add(membership.organizationId, membership.organizationName));
+  } catch (error) {
+    // Tokens that don't belong to a user account cannot list memberships.
+    console.error('Error fetching account memberships:', error);
+  }
+
+  if (homeId && !organizations.has(homeId)) {
+    add(homeId, await organizationName(client, homeId));
+  }
+  for (const organizationId of Object.keys(tokens)) {
+    if (!organizations.has(organizationId)) {
+      add(organizationId, await organizationName(createClient(tokens[organizationId])!, organizationId));
+    }
+  }
+
+  return Array.from(organizations.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A client whose token belongs to `organizationId`, so that usage records and
+ * members come from the same organization. Without an ID, `ONA_PAT`'s own
+ * organization is used.
+ */
+export async function clientForOrganization(organizationId?: string | null): Promise<Gitpod> {
+  const token = organizationId ? loadOrganizationTokens()[organizationId] : undefined;
+  const client = createClient(token);
+  if (!client) {
+    throw new Error('ONA_PAT environment variable is not set');
+  }
+  if (organizationId && !token && (await authenticatedOrganizationId(client)) !== organizationId) {
+    throw new OrganizationAccessError(
+      `No access token for organization ${organizationId}; add one to ONA_ORGANIZATION_TOKENS`
+    );
+  }
+  return client;
+}
+
+export function mergeUsageResponses(responses: UsageResponse[]): UsageResponse {
+  const uniqueBy = <T>(items: T[], keyOf: (item: T) => string) =>
+    Array.from(new Map(items.map(item => [keyOf(item), item])).values());
+  const accounting = responses.reduce((sum, response) => {
+    (Object.keys(sum) as (keyof AccountingSummary)[]).forEach(key => {
+      sum[key] += response.accounting[key];
+    });
+    return sum;
+  }, emptyAccountingSummary());
+  const syncedUntil = responses
+    .map(response => response.sync.syncedUntil)
+    .filter((value): value is string => !!value)
+    .sort()[0];
+
+  return {
+    organizationIds: responses.flatMap(response => response.organizationIds),
+    usageRecords: responses.flatMap(response => response.usageRecords),
+    members: uniqueBy(responses.flatMap(response => response.members), member => member.userId),
+    projects: uniqueBy(responses.flatMap(response => response.projects), project => project.projectId),
+    environmentClasses: uniqueBy(
+      responses.flatMap(response => response.environmentClasses),
+      environmentClass => environmentClass.environmentClassId
+    ),
+    runners: uniqueBy(responses.flatMap(response => response.runners), runner => runner.runnerId),
+    teams: responses.flatMap(response => response.teams),
+    environments: uniqueBy(responses.flatMap(response => response.environments), environment => environment.environmentId),
+    rateCard: responses[0].rateCard,
+    accounting,
+    sync: {
+      mode: responses[0].sync.mode,
+      syncedUntil,
+      lastSyncAt: responses[0].sync.lastSyncAt,
+      fetchedRecords: responses.reduce((sum, response) => sum + response.sync.fetchedRecords, 0),
+    },
+    window: responses[0].window,
+    timeZone: responses[0].timeZone,
+    asOf: responses.map(response => response.asOf).sort().reverse()[0],
+    warnings: responses.flatMap(response => response.warnings),
+  };
+}
+
+/**
+ * Narrows a response to `userId`: their own member entry and, in each team
+ * they belong to, only themselves. Usage records are already filtered.
+ */
+function restrictToUser<T extends Pick<UsageResponse, 'members' | 'teams'>>(response: T, userId: string): T {
+  return {
+    ...response,
+    members: response.members.filter(member => member.userId === userId),
+    teams: response.teams
+      .filter(team => team.memberIds.includes(userId))
+      .map(team => ({ ...team, memberIds: [userId] })),
+  };
+}
+
+/**
+ * Usage of one organization as `user` may see it: everything for admins,
+ * only their own usage for members. Without a user (sign-in turned off)
+ * nothing is narrowed.
+ */
+async function fetchUsageAs(user: SessionUser | null, query: UsageQuery): Promise<UsageResponse> {
+  const organizationId = query.organizationId || user?.organizationId;
+  const role = user && organizationId ? user.roles[organizationId] : undefined;
+  if (user && !role) {
+    throw new OrganizationAccessError(`You are not a member of organization ${organizationId}`);
+  }
+  const client = await clientForOrganization(organizationId);
+  if (!user || role === 'admin') {
+    return fetchUsage(client, { ...query, organizationId });
+  }
+  const { onEvent } = query;
+  const response = await fetchUsage(client, {
+    ...query,
+    organizationId,
+    filters: { ...query.filters, userId: user.userId },
+    onEvent: onEvent && (event => onEvent(event.type === 'lookups' ? restrictToUser(event, user.userId) : event)),
+  });
+  return restrictToUser(response, user.userId);
+}
+
+/**
+ * Usage for one organization, or for every accessible organization rolled
+ * up when `organizationId` is `all`. When `user` is given, only their
+ * organizations are included and each is scoped to their role.
+ */
+export async function fetchOrganizationUsage(
+  query: UsageQuery,
+  user: SessionUser | null = null
+): Promise<UsageResponse> {
+  if (query.organizationId !== ALL_ORGANIZATIONS) {
+    return fetchUsageAs(user, query);
+  }
+
+  const organizations = (await listOrganizations()).filter(
+    organization => organization.accessible && (!user || organization.organizationId in user.roles)
+  );
+  if (organizations.length === 0) {
+    throw new OrganizationAccessError('No accessible organizations');
+  }
+  // An organization the API cannot be reached for leaves a warning in the
+  // rollup; it has not streamed any records, as no chunk got a page.
+  const responses: UsageResponse[] = [];
+  const warnings: UsageWarning[] = [];
+  let lastError: UpstreamError | null = null;
+  for (const organization of organizations) {
+    try {
+      responses.push(await fetchUsageAs(user, { ...query, organizationId: organization.organizationId }));
+    } catch (error) {
+      if (query.signal?.aborted || !(error instanceof UpstreamError) || !error.retryable) {
+        throw error;
+      }
+      console.error(`Error fetching usage of ${organization.organizationId}:`, error);
+      lastError = error;
+      warnings.push({
+        code: 'organization_unavailable',
+        message: `Usage of ${organization.name} unavailable: ${error.message}`,
+        organizationId: organization.organizationId,
+      });
+    }
+  }
+  if (responses.length === 0) {
+    throw lastError;
+  }
+  const merged = mergeUsageResponses(responses);
+  return { ...merged, warnings: [...merged.warnings, ...warnings] };
+}
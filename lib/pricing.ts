@@ -0,0 +1,21 @@
+import { RateCard } from './types';
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  currency: 'USD',
+  defaultHourlyRate: 0,
+  rates: {},
+};
+
+export function hourlyRateFor(rateCard: RateCard | undefined, environmentClassId?: string): number {
+  if (!rateCard) {
+    return 0;
+  }
+  if (environmentClassId && Object.prototype.hasOwnProperty.call(rateCard.rates, environmentClassId)) {
+    return rateCard.rates[environmentClassId];
+  }
+  return rateCard.defaultHourlyRate;
+}
+
+export function formatCost(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
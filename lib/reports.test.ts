@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DigestConfig } from './config';
+import { RenderedDigest } from './digest';
+import { FetchLike } from './notify';
+import { createDigestTransports, createWebhookTransport, nextDigestRun, previousWeek } from './reports';
+
+const at = (time: string) => new Date(time);
+
+describe('nextDigestRun', () => {
+  it('runs at the hour in the timezone, not in server time', () => {
+    // Still Sunday evening in Los Angeles while it is Monday in UTC.
+    expect(nextDigestRun(at('2025-01-06T05:00:00Z'), 1, 8, 'America/Los_Angeles').toISOString())
+      .toBe('2025-01-06T16:00:00.000Z');
+  });
+
+  it('waits a week once this week’s run has passed', () => {
+    expect(nextDigestRun(at('2025-01-06T17:00:00Z'), 1, 8, 'America/Los_Angeles').toISOString())
+      .toBe('2025-01-13T16:00:00.000Z');
+  });
+
+  it('keeps the wall-clock hour across a DST change', () => {
+    expect(nextDigestRun(at('2025-03-28T12:00:00Z'), 1, 8, 'Europe/Berlin').toISOString())
+      .toBe('2025-03-31T06:00:00.000Z');
+  });
+});
+
+describe('previousWeek', () => {
+  it('covers Monday to Monday in the timezone', () => {
+    expect(previousWeek(at('2025-01-06T05:00:00Z'), 'America/Los_Angeles')).toEqual({
+      startTime: '2024-12-23T08:00:00.000Z',
+      endTime: '2024-12-30T08:00:00.000Z',
+    });
+    expect(previousWeek(at('2025-01-06T05:00:00Z'), 'UTC')).toEqual({
+      startTime: '2024-12-30T00:00:00.000Z',
+      endTime: '2025-01-06T00:00:00.000Z',
+    });
+  });
+});
+
+const rendered: RenderedDigest = { subject: 'Ona usage', markdown: '# Ona usage', html: '<h1>Ona usage</h1>' };
+const window = { startTime: '2025-01-06T00:00:00.000Z', endTime: '2025-01-13T00:00:00.000Z' };
+
+describe('createWebhookTransport', () => {
+  it('posts the Markdown digest as the message text', async () => {
+    const fetchImpl = vi.fn<FetchLike>(async () => new Response(null, { status: 204 }));
+    await createWebhookTransport('https://hooks.example.com/digest', fetchImpl).send(rendered, window);
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/digest');
+    expect(init?.method).toBe('POST');
+    expect(JSON.parse(String(init?.body))).toEqual({ text: '# Ona usage' });
+  });
+
+  it('fails when the receiver rejects the digest', async () => {
+    const fetchImpl = async () => new Response(null, { status: 500, statusText: 'Internal Server Error' });
+
+    await expect(createWebhookTransport('https://hooks.example.com/digest', fetchImpl).send(rendered, window))
+      .rejects.toThrow('Webhook responded with 500 Internal Server Error');
+  });
+});
+
+describe('createDigestTransports', () => {
+  const config: DigestConfig = {
+    transports: [],
+    day: 1,
+    hour: 8,
+    smtpUrl: null,
+    from: null,
+    to: [],
+    webhookUrl: null,
+    dir: 'digests',
+  };
+
+  it('creates a transport per configured kind', () => {
+    const transports = createDigestTransports({
+      ...config,
+      transports: ['webhook', 'directory'],
+      webhookUrl: 'https://hooks.example.com/digest',
+    });
+
+    expect(transports.map(transport => transport.name)).toEqual(['webhook', 'directory']);
+  });
+
+  it('requires the settings each transport needs', () => {
+    expect(() => createDigestTransports({ ...config, transports: ['webhook'] }))
+      .toThrow('Webhook digests need ONA_DIGEST_WEBHOOK_URL');
+    expect(() => createDigestTransports({ ...config, transports: ['smtp'], smtpUrl: 'smtp://localhost' }))
+      .toThrow('SMTP digests need ONA_DIGEST_SMTP_URL, ONA_DIGEST_FROM and ONA_DIGEST_TO');
+  });
+});
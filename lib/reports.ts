@@ -0,0 +1,159 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import Gitpod from '@gitpod/sdk';
+import nodemailer from 'nodemailer';
+import { defaultTimeZone, DigestConfig, loadDigestConfig } from './config';
+import { addDays, atHour, calendarDateOf, dayOfWeek, startOfDay } from './date-ranges';
+import { buildDigest, renderDigest, Digest, RenderedDigest } from './digest';
+import { FetchLike, postWebhook } from './notify';
+import { createClient, fetchUsage } from './ona';
+import { TimeWindow } from './types';
+
+export interface DigestTransport {
+  name: string;
+  send(digest: RenderedDigest, window: TimeWindow): Promise<void>;
+}
+
+export function createSmtpTransport(smtpUrl: string, from: string, to: string[]): DigestTransport {
+  const transporter = nodemailer.createTransport(smtpUrl);
+  return {
+    name: 'smtp',
+    async send(digest) {
+      await transporter.sendMail({
+        from,
+        to,
+        subject: digest.subject,
+        text: digest.markdown,
+        html: digest.html,
+      });
+    },
+  };
+}
+
+export function createWebhookTransport(url: string, fetchImpl: FetchLike = fetch): DigestTransport {
+  return {
+    name: 'webhook',
+    async send(digest) {
+      await postWebhook(url, { text: digest.markdown }, fetchImpl);
+    },
+  };
+}
+
+export function createDirectoryTransport(dir: string): DigestTransport {
+  return {
+    name: 'directory',
+    async send(digest, window) {
+      const base = `digest-${window.startTime.slice(0, 10)}`;
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, `${base}.html`), digest.html);
+      await writeFile(path.join(dir, `${base}.md`), digest.markdown);
+    },
+  };
+}
+
+export function createDigestTransports(config: DigestConfig): DigestTransport[] {
+  return config.transports.map(kind => {
+    switch (kind) {
+      case 'smtp':
+        if (!config.smtpUrl || !config.from || config.to.length === 0) {
+          throw new Error('SMTP digests need ONA_DIGEST_SMTP_URL, ONA_DIGEST_FROM and ONA_DIGEST_TO');
+        }
+        return createSmtpTransport(config.smtpUrl, config.from, config.to);
+      case 'webhook':
+        if (!config.webhookUrl) {
+          throw new Error('Webhook digests need ONA_DIGEST_WEBHOOK_URL');
+        }
+        return createWebhookTransport(config.webhookUrl);
+      case 'directory':
+        return createDirectoryTransport(config.dir);
+    }
+  });
+}
+
+/** The last full week (Monday to Monday in `timeZone`) before `now`. */
+export function previousWeek(now: Date = new Date(), timeZone: string = defaultTimeZone()): TimeWindow {
+  const today = calendarDateOf(now.getTime(), timeZone);
+  const monday = addDays(today, -((dayOfWeek(today) + 6) % 7));
+  return {
+    startTime: new Date(startOfDay(addDays(monday, -7), timeZone)).toISOString(),
+    endTime: new Date(startOfDay(monday, timeZone)).toISOString(),
+  };
+}
+
+/** The period of the same length right before `window`. */
+export function previousPeriod(window: TimeWindow): TimeWindow {
+  const start = new Date(window.startTime).getTime();
+  const end = new Date(window.endTime).getTime();
+  return { startTime: new Date(start - (end - start)).toISOString(), endTime: window.startTime };
+}
+
+export async function generateDigest(
+  client: Gitpod,
+  window: TimeWindow,
+  timeZone: string = defaultTimeZone()
+): Promise<Digest> {
+  const baselineWindow = previousPeriod(window);
+  const [current, baseline] = await Promise.all([
+    fetchUsage(client, { ...window, timeZone }),
+    fetchUsage(client, { ...baselineWindow, timeZone }),
+  ]);
+  return buildDigest(current, window, baseline, baselineWindow);
+}
+
+/**
+ * Builds the digest for `window` and hands it to every transport. A failing
+ * transport is logged and does not stop the others.
+ */
+export async function sendDigest(
+  client: Gitpod,
+  transports: DigestTransport[],
+  window: TimeWindow = previousWeek()
+): Promise<RenderedDigest> {
+  const rendered = renderDigest(await generateDigest(client, window));
+  await Promise.all(transports.map(async transport => {
+    try {
+      await transport.send(rendered, window);
+    } catch (error) {
+      console.error(`Error delivering digest via ${transport.name}:`, error);
+    }
+  }));
+  return rendered;
+}
+
+/** Next occurrence of `day` (0 = Sunday) at `hour`:00 in `timeZone` after `now`. */
+export function nextDigestRun(now: Date, day: number, hour: number, timeZone: string = defaultTimeZone()): Date {
+  const today = calendarDateOf(now.getTime(), timeZone);
+  const date = addDays(today, (day - dayOfWeek(today) + 7) % 7);
+  const next = atHour(date, hour, timeZone);
+  return new Date(next > now.getTime() ? next : atHour(addDays(date, 7), hour, timeZone));
+}
+
+let digestTimer: NodeJS.Timeout | null = null;
+
+export function startDigestScheduler(): void {
+  const config = loadDigestConfig();
+  if (config.transports.length === 0 || digestTimer) {
+    return;
+  }
+  const transports = createDigestTransports(config);
+
+  const schedule = () => {
+    const delay = nextDigestRun(new Date(), config.day, config.hour).getTime() - Date.now();
+    digestTimer = setTimeout(run, delay);
+    digestTimer.unref?.();
+  };
+
+  const run = async () => {
+    const client = createClient();
+    if (client) {
+      try {
+        await sendDigest(client, transports);
+      } catch (error) {
+        console.error('Error sending digest:', error);
+      }
+    }
+    schedule();
+  };
+
+  schedule();
+}
@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createUsageStore, RecordFetcher } from './store';
+import { TimeWindow, UsageRecord } from './types';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const window = (startTime: string, endTime: string): TimeWindow => ({ startTime, endTime });
+
+/** Serves `records` as the API would, and remembers the windows it was asked for. */
+function fetcher(records: () => UsageRecord[]) {
+  const windows: TimeWindow[] = [];
+  const fetchRange: RecordFetcher = async function* (range) {
+    windows.push(range);
+    const start = new Date(range.startTime).getTime();
+    const end = new Date(range.endTime).getTime();
+    yield* records().filter(record =>
+      new Date(record.createdAt!).getTime() < end &&
+      (!record.stoppedAt || new Date(record.stoppedAt).getTime() >= start)
+    );
+  };
+  return { fetchRange, windows };
+}
+
+const record = (id: string, createdAt: string, stoppedAt?: string): UsageRecord => ({
+  id,
+  userId: 'u-alice',
+  environmentId: `env-${id}`,
+  createdAt,
+  stoppedAt,
+});
+
+describe('createUsageStore', () => {
+  it('only fetches what lies outside the synced interval, with a lookback', async () => {
+    const store = createUsageStore(dir);
+    const { fetchRange, windows } = fetcher(() => [record('r-1', '2025-01-05T09:00:00Z', '2025-01-05T17:00:00Z')]);
+    const now = new Date('2025-02-01T00:00:00Z');
+
+    await store.sync(fetchRange, window('2025-01-01T00:00:00Z', '2025-01-10T00:00:00Z'), now);
+    await store.sync(fetchRange, window('2025-01-03T00:00:00Z', '2025-01-08T00:00:00Z'), now);
+    const status = await store.sync(fetchRange, window('2024-12-20T00:00:00Z', '2025-01-20T00:00:00Z'), now);
+
+    expect(windows).toEqual([
+      window('2025-01-01T00:00:00.000Z', '2025-01-10T00:00:00.000Z'),
+      window('2024-12-20T00:00:00.000Z', '2025-01-01T00:00:00.000Z'),
+      window('2025-01-09T23:00:00.000Z', '2025-01-20T00:00:00.000Z'),
+    ]);
+    expect(status).toMatchObject({
+      mode: 'store',
+      syncedFrom: '2024-12-20T00:00:00.000Z',
+      syncedUntil: '2025-01-20T00:00:00.000Z',
+    });
+    // A new store on the same directory picks up the watermark and the records.
+    const reopened = createUsageStore(dir);
+    expect((await reopened.sync(fetchRange, window('2025-01-01T00:00:00Z', '2025-01-15T00:00:00Z'), now)).fetchedRecords)
+      .toBe(0);
+    expect((await reopened.query(window('2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z'))).map(entry => entry.id))
+      .toEqual(['r-1']);
+  });
+
+  it('moves a running record to the month it stopped in, keeping one copy', async () => {
+    const store = createUsageStore(dir);
+    let current = record('r-1', '2025-01-20T09:00:00Z');
+    const { fetchRange } = fetcher(() => [current]);
+
+    await store.sync(fetchRange, window('2025-01-01T00:00:00Z', '2025-02-15T00:00:00Z'), new Date('2025-02-15T00:00:00Z'));
+    expect(await store.query(window('2025-02-01T00:00:00Z', '2025-03-01T00:00:00Z'))).toEqual([current]);
+
+    current = record('r-1', '2025-01-20T09:00:00Z', '2025-03-03T12:00:00Z');
+    await store.sync(fetchRange, window('2025-01-01T00:00:00Z', '2025-04-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'));
+
+    expect(await store.query(window('2025-01-01T00:00:00Z', '2025-04-01T00:00:00Z'))).toEqual([current]);
+    expect(await createUsageStore(dir).query(window('2025-01-01T00:00:00Z', '2025-04-01T00:00:00Z'))).toEqual([current]);
+    expect(JSON.parse(await fs.readFile(path.join(dir, 'records', 'open.json'), 'utf8'))).toEqual({});
+  });
+
+  it('returns sessions that overlap the window, including ones started before it', async () => {
+    const store = createUsageStore(dir);
+    const records = [
+      record('long', '2025-01-05T09:00:00Z', '2025-03-10T09:00:00Z'),
+      record('running', '2025-01-15T09:00:00Z'),
+      record('february', '2025-02-20T09:00:00Z', '2025-02-21T09:00:00Z'),
+      record('ends-at-start', '2025-02-28T20:00:00Z', '2025-03-01T00:00:00Z'),
+    ];
+    await store.sync(fetcher(() => records).fetchRange, window('2025-01-01T00:00:00Z', '2025-04-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'));
+
+    const ids = async (startTime: string, endTime: string) =>
+      (await store.query(window(startTime, endTime))).map(entry => entry.id).sort();
+
+    expect(await ids('2025-02-01T00:00:00Z', '2025-03-01T00:00:00Z')).toEqual(['ends-at-start', 'february', 'long', 'running']);
+    expect(await ids('2025-03-01T00:00:00Z', '2025-04-01T00:00:00Z')).toEqual(['long', 'running']);
+    expect(await ids('2025-03-15T00:00:00Z', '2025-04-01T00:00:00Z')).toEqual(['running']);
+  });
+});
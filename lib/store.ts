@@ -0,0 +1,240 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { UsageRecord, TimeWindow, SyncStatus } from './types';
+
+// Version 1 filed records by stop or start time, so open records were never moved.
+const STORE_VERSION = 2;
+const OPEN_PARTITION = 'open';
+const UNKNOWN_PARTITION = 'unknown';
+const MONTH_PARTITION = /^\d{4}-\d{2}$/;
+
+interface StoreMeta {
+  version: number;
+  syncedFrom?: string;
+  syncedUntil?: string;
+  lastSyncAt?: string;
+}
+
+export type RecordFetcher = (window: TimeWindow) => AsyncIterable<UsageRecord>;
+
+export interface UsageStore {
+  sync(fetchRange: RecordFetcher, window: TimeWindow, now?: Date): Promise<SyncStatus>;
+  query(window: TimeWindow): Promise<UsageRecord[]>;
+}
+
+export interface UsageStoreOptions {
+  // Re-fetch this much before the watermark so late-arriving records are picked up.
+  lookbackMs?: number;
+}
+
+export function recordKey(record: UsageRecord): string {
+  return record.id || `${record.environmentId}-${record.createdAt}-${record.stoppedAt ?? ''}`;
+}
+
+const parseTime = (value?: string) => new Date(value ?? '').getTime();
+
+const monthOf = (time: number) => new Date(time).toISOString().slice(0, 7);
+
+/** Month the record stopped in; records still running are kept apart until they stop. */
+function partitionOf(record: UsageRecord): string {
+  if (!record.stoppedAt) {
+    return OPEN_PARTITION;
+  }
+  const stoppedAt = parseTime(record.stoppedAt);
+  return Number.isNaN(stoppedAt) ? UNKNOWN_PARTITION : monthOf(stoppedAt);
+}
+
+/**
+ * Whether the session `[createdAt, stoppedAt)` overlaps the window; running
+ * sessions have no end. Records with an unparseable time are kept by the
+ * other one, or always without either, so that accounting can count them as
+ * malformed.
+ */
+function overlaps(record: UsageRecord, start: number, end: number): boolean {
+  const createdAt = parseTime(record.createdAt);
+  const stoppedAt = record.stoppedAt ? parseTime(record.stoppedAt) : Infinity;
+  if (Number.isNaN(createdAt) || Number.isNaN(stoppedAt)) {
+    const time = Number.isNaN(createdAt) ? stoppedAt : createdAt;
+    return Number.isNaN(time) || (time >= start && time < end);
+  }
+  return createdAt < end && stoppedAt > start;
+}
+
+async function writeJsonAtomic(filePath: string, value: unknown): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value));
+  await fs.rename(tmpPath, filePath);
+}
+
+async function readJson<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * File-backed store of usage records, partitioned by the month a record
+ * stopped in; running records are kept in their own partition and move once
+ * they stop. `meta.json` tracks the contiguous interval that has been synced
+ * so far; `sync` only fetches the parts of a window outside that interval
+ * (plus a small lookback before the watermark) and upserts records by ID.
+ * `query` returns every record whose session overlaps the window.
+ */
+export function createUsageStore(dir: string, options: UsageStoreOptions = {}): UsageStore {
+  const lookbackMs = options.lookbackMs ?? 60 * 60 * 1000;
+  const recordsDir = path.join(dir, 'records');
+  const metaPath = path.join(dir, 'meta.json');
+  const partitionCache = new Map<string, Record<string, UsageRecord>>();
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pending.then(task, task);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  const loadPartition = async (partition: string) => {
+    if (!partitionCache.has(partition)) {
+      partitionCache.set(
+        partition,
+        await readJson<Record<string, UsageRecord>>(path.join(recordsDir, `${partition}.json`), {})
+      );
+    }
+    return partitionCache.get(partition)!;
+  };
+
+  const loadMeta = async (): Promise<StoreMeta> => {
+    const meta = await readJson<StoreMeta>(metaPath, { version: STORE_VERSION });
+    if (meta.version === STORE_VERSION) {
+      return meta;
+    }
+    // Records of another layout are dropped and synced again.
+    await fs.rm(recordsDir, { recursive: true, force: true });
+    partitionCache.clear();
+    return { version: STORE_VERSION };
+  };
+
+  /** Month partitions that can hold records stopped at or after `start`, plus the others. */
+  const partitionsFrom = async (start: number) => {
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(recordsDir);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const months = new Set([
+      ...files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)),
+      ...Array.from(partitionCache.keys()),
+    ]);
+    const first = monthOf(start);
+    return [
+      ...Array.from(months).filter(month => MONTH_PARTITION.test(month) && month >= first).sort(),
+      OPEN_PARTITION,
+      UNKNOWN_PARTITION,
+    ];
+  };
+
+  const fetchInto = async (fetchRange: RecordFetcher, window: TimeWindow, dirty: Set<string>) => {
+    let fetched = 0;
+    for await (const record of fetchRange(window)) {
+      const key = recordKey(record);
+      const partition = partitionOf(record);
+      // A record that stopped since it was stored moves out of the open partition.
+      for (const previous of [OPEN_PARTITION, UNKNOWN_PARTITION].filter(candidate => candidate !== partition)) {
+        const records = await loadPartition(previous);
+        if (key in records) {
+          delete records[key];
+          dirty.add(previous);
+        }
+      }
+      (await loadPartition(partition))[key] = record;
+      dirty.add(partition);
+      fetched++;
+    }
+    return fetched;
+  };
+
+  const sync = (fetchRange: RecordFetcher, window: TimeWindow, now: Date = new Date()) =>
+    serialize(async (): Promise<SyncStatus> => {
+      const meta = await loadMeta();
+      const start = new Date(window.startTime).getTime();
+      const end = Math.min(new Date(window.endTime).getTime(), now.getTime());
+      const dirty = new Set<string>();
+      let fetchedRecords = 0;
+
+      if (!meta.syncedFrom || !meta.syncedUntil) {
+        if (end > start) {
+          fetchedRecords += await fetchInto(fetchRange, {
+            startTime: new Date(start).toISOString(),
+            endTime: new Date(end).toISOString(),
+          }, dirty);
+          meta.syncedFrom = new Date(start).toISOString();
+          meta.syncedUntil = new Date(end).toISOString();
+        }
+      } else {
+        const syncedFrom = new Date(meta.syncedFrom).getTime();
+        const syncedUntil = new Date(meta.syncedUntil).getTime();
+
+        if (start < syncedFrom) {
+          fetchedRecords += await fetchInto(fetchRange, {
+            startTime: new Date(start).toISOString(),
+            endTime: meta.syncedFrom,
+          }, dirty);
+          meta.syncedFrom = new Date(start).toISOString();
+        }
+
+        if (end > syncedUntil) {
+          const from = Math.max(syncedFrom, syncedUntil - lookbackMs);
+          fetchedRecords += await fetchInto(fetchRange, {
+            startTime: new Date(from).toISOString(),
+            endTime: new Date(end).toISOString(),
+          }, dirty);
+          meta.syncedUntil = new Date(end).toISOString();
+        }
+      }
+
+      await fs.mkdir(recordsDir, { recursive: true });
+      for (const partition of Array.from(dirty)) {
+        await writeJsonAtomic(path.join(recordsDir, `${partition}.json`), await loadPartition(partition));
+      }
+      meta.lastSyncAt = now.toISOString();
+      await writeJsonAtomic(metaPath, meta);
+
+      return {
+        mode: 'store',
+        syncedFrom: meta.syncedFrom,
+        syncedUntil: meta.syncedUntil,
+        lastSyncAt: meta.lastSyncAt,
+        fetchedRecords,
+      };
+    });
+
+  const query = (window: TimeWindow) =>
+    serialize(async () => {
+      await loadMeta();
+      const start = new Date(window.startTime).getTime();
+      const end = new Date(window.endTime).getTime();
+      const records = new Map<string, UsageRecord>();
+
+      for (const partition of await partitionsFrom(start)) {
+        Object.values(await loadPartition(partition)).forEach(record => {
+          const key = recordKey(record);
+          // Should a record still be filed twice, the stopped copy wins.
+          if (overlaps(record, start, end) && (!records.has(key) || !records.get(key)!.stoppedAt)) {
+            records.set(key, record);
+          }
+        });
+      }
+
+      return Array.from(records.values());
+    });
+
+  return { sync, query };
+}
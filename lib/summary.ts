@@ -0,0 +1,273 @@
+import {
+  aggregateByUser,
+  aggregateByEnvironment,
+  aggregateByRepository,
+  aggregateByProject,
+  aggregateByEnvironmentClass,
+  aggregateByRunner,
+  aggregateByTeam,
+} from './aggregation';
+import { accountSessions } from './accounting';
+import { InvalidArgumentError } from './api-errors';
+import { GROUP_BY_VALUES } from './view-state';
+import {
+  AccountingOptions,
+  EnvironmentUsage,
+  GroupBy,
+  SortOrder,
+  SummaryResponse,
+  SummaryRowMap,
+  SummarySort,
+  SummaryTotals,
+  TeamAttribution,
+  UsageFilters,
+  UsageResponse,
+} from './types';
+
+export const SUMMARY_SORTS: SummarySort[] = ['hours', 'cost', 'sessions', 'name'];
+export const DEFAULT_SUMMARY_PAGE_SIZE = 100;
+export const MAX_SUMMARY_PAGE_SIZE = 1000;
+
+export interface SummaryQuery {
+  groupBy: GroupBy;
+  attribution: TeamAttribution;
+  sort: SummarySort;
+  order: SortOrder;
+  pageSize: number;
+  /** Index of the first row of the page, decoded from `pageToken`. */
+  offset: number;
+}
+
+type SummaryRow = SummaryRowMap[GroupBy];
+
+/** Field each grouping is sorted on for `sort=name`. */
+const NAME_FIELDS: { [G in GroupBy]: keyof SummaryRowMap[G] } = {
+  user: 'userName',
+  environment: 'environmentId',
+  repository: 'repositoryName',
+  project: 'projectName',
+  environmentClass: 'className',
+  runner: 'runnerName',
+  team: 'teamName',
+};
+
+function oneOf<T extends string>(params: URLSearchParams, name: string, values: readonly T[], fallback: T): T {
+  const value = params.get(name);
+  if (value === null || value === '') {
+    return fallback;
+  }
+  if (!values.includes(value as T)) {
+    throw new InvalidArgumentError(`${name} must be one of ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+function nonNegativeInteger(params: URLSearchParams, name: string, fallback: number): number {
+  const value = params.get(name);
+  if (value === null || value === '') {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new InvalidArgumentError(`${name} must be a non-negative integer`);
+  }
+  return number;
+}
+
+/**
+ * Reads grouping, sorting and paging from query parameters. Unlike the
+ * dashboard URL, invalid values are rejected rather than replaced by defaults.
+ */
+export function parseSummaryParams(params: URLSearchParams): SummaryQuery {
+  const sort = oneOf(params, 'sort', SUMMARY_SORTS, 'hours');
+  const pageSize = nonNegativeInteger(params, 'pageSize', DEFAULT_SUMMARY_PAGE_SIZE);
+  if (pageSize === 0 || pageSize > MAX_SUMMARY_PAGE_SIZE) {
+    throw new InvalidArgumentError(`pageSize must be between 1 and ${MAX_SUMMARY_PAGE_SIZE}`);
+  }
+
+  return {
+    groupBy: oneOf(params, 'groupBy', GROUP_BY_VALUES, 'user'),
+    attribution: oneOf(params, 'attribution', ['full', 'split'] as const, 'full'),
+    sort,
+    order: oneOf(params, 'order', ['asc', 'desc'] as const, sort === 'name' ? 'asc' : 'desc'),
+    pageSize,
+    offset: nonNegativeInteger(params, 'pageToken', 0),
+  };
+}
+
+const countSessions = (environments: EnvironmentUsage[]) =>
+  environments.reduce((sum, environment) => sum + environment.sessions.length, 0);
+
+const countEnvironments = (environments: EnvironmentUsage[]) =>
+  new Set(environments.map(environment => environment.environmentId)).size;
+
+function summaryRows(
+  groupBy: GroupBy,
+  data: UsageResponse,
+  options: AccountingOptions,
+  attribution: TeamAttribution,
+  share: (hours: number) => number
+): SummaryRow[] {
+  const { usageRecords, members, projects, environmentClasses, runners, teams, environments } = data;
+
+  switch (groupBy) {
+    case 'environment': {
+      const environmentMap = new Map(environments.map(environment => [environment.environmentId, environment]));
+      return aggregateByEnvironment(usageRecords, members, options).map(environment => {
+        const info = environmentMap.get(environment.environmentId);
+        return {
+          environmentId: environment.environmentId,
+          environmentName: info?.name,
+          repository: info?.repository,
+          branch: info?.branch,
+          phase: info?.phase,
+          archived: info?.archived ?? false,
+          deleted: info?.deleted ?? false,
+          userId: environment.userId,
+          userName: environment.userName,
+          email: environment.email,
+          totalHours: environment.totalHours,
+          estimatedCost: environment.estimatedCost,
+          sessionCount: environment.sessions.length,
+          shareOfTotal: share(environment.totalHours),
+        };
+      });
+    }
+    case 'repository':
+      return aggregateByRepository(usageRecords, members, environments, options).map(repository => ({
+        repository: repository.repository,
+        repositoryName: repository.repositoryName,
+        totalHours: repository.totalHours,
+        estimatedCost: repository.estimatedCost,
+        sessionCount: countSessions(repository.environments),
+        shareOfTotal: share(repository.totalHours),
+        userCount: repository.userCount,
+        environmentCount: repository.environmentCount,
+      }));
+    case 'project':
+      return aggregateByProject(usageRecords, members, projects, options).map(project => ({
+        projectId: project.projectId,
+        projectName: project.projectName,
+        totalHours: project.totalHours,
+        estimatedCost: project.estimatedCost,
+        sessionCount: countSessions(project.environments),
+        shareOfTotal: share(project.totalHours),
+        userCount: project.users.length,
+        environmentCount: countEnvironments(project.environments),
+      }));
+    case 'environmentClass':
+      return aggregateByEnvironmentClass(usageRecords, members, environmentClasses, options).map(
+        environmentClass => ({
+          environmentClassId: environmentClass.environmentClassId,
+          className: environmentClass.className,
+          hourlyRate: environmentClass.hourlyRate,
+          totalHours: environmentClass.totalHours,
+          estimatedCost: environmentClass.estimatedCost,
+          sessionCount: countSessions(environmentClass.environments),
+          shareOfTotal: share(environmentClass.totalHours),
+          userCount: environmentClass.users.length,
+          environmentCount: countEnvironments(environmentClass.environments),
+        })
+      );
+    case 'runner':
+      return aggregateByRunner(usageRecords, members, runners, options).map(runner => ({
+        runnerId: runner.runnerId,
+        runnerName: runner.runnerName,
+        kind: runner.kind,
+        provider: runner.provider,
+        phase: runner.phase,
+        totalHours: runner.totalHours,
+        estimatedCost: runner.estimatedCost,
+        sessionCount: countSessions(runner.environments),
+        shareOfTotal: share(runner.totalHours),
+        userCount: runner.userCount,
+        environmentCount: runner.environmentCount,
+      }));
+    case 'team': {
+      // Sessions count whole in each of a member's teams, whatever the attribution.
+      const sessionsByUser = new Map(
+        aggregateByUser(usageRecords, members, options).map(user => [user.userId, countSessions(user.environments)])
+      );
+      return aggregateByTeam(usageRecords, members, teams, attribution, options).map(team => ({
+        teamId: team.teamId,
+        teamName: team.teamName,
+        memberCount: team.memberCount,
+        totalHours: team.totalHours,
+        estimatedCost: team.estimatedCost,
+        sessionCount: team.members.reduce((sum, member) => sum + (sessionsByUser.get(member.userId) || 0), 0),
+        shareOfTotal: share(team.totalHours),
+        userCount: team.members.length,
+      }));
+    }
+    default:
+      return aggregateByUser(usageRecords, members, options).map(user => ({
+        userId: user.userId,
+        userName: user.userName,
+        email: user.email,
+        totalHours: user.totalHours,
+        estimatedCost: user.estimatedCost,
+        sessionCount: countSessions(user.environments),
+        shareOfTotal: share(user.totalHours),
+        environmentCount: user.environments.length,
+      }));
+  }
+}
+
+function compareRows(groupBy: GroupBy, sort: SummarySort): (a: SummaryRow, b: SummaryRow) => number {
+  if (sort === 'name') {
+    const field = NAME_FIELDS[groupBy] as string;
+    const nameOf = (row: SummaryRow) => String((row as unknown as Record<string, unknown>)[field] ?? '');
+    return (a, b) => nameOf(a).localeCompare(nameOf(b));
+  }
+  const valueOf = (row: SummaryRow) =>
+    sort === 'cost' ? row.estimatedCost : sort === 'sessions' ? row.sessionCount : row.totalHours;
+  return (a, b) => valueOf(a) - valueOf(b);
+}
+
+/**
+ * Aggregates a usage response into one page of summary rows. Totals and
+ * `shareOfTotal` are over every counted session, not only the page, and use
+ * the same accounting as the dashboard.
+ */
+export function buildSummary(data: UsageResponse, query: SummaryQuery, filters: UsageFilters): SummaryResponse {
+  const options: AccountingOptions = { window: data.window, now: new Date(data.asOf), rateCard: data.rateCard };
+  const { sessions } = accountSessions(data.usageRecords, options);
+  const totals: SummaryTotals = {
+    totalHours: sessions.reduce((sum, session) => sum + session.durationHours, 0),
+    estimatedCost: sessions.reduce((sum, session) => sum + session.estimatedCost, 0),
+    sessionCount: sessions.length,
+    userCount: new Set(sessions.map(session => session.userId)).size,
+    environmentCount: new Set(sessions.map(session => session.environmentId)).size,
+  };
+  const share = (hours: number) => (totals.totalHours > 0 ? hours / totals.totalHours : 0);
+
+  const compare = compareRows(query.groupBy, query.sort);
+  const rows = summaryRows(query.groupBy, data, options, query.attribution, share)
+    .sort((a, b) => (query.order === 'asc' ? compare(a, b) : compare(b, a)));
+  const end = query.offset + query.pageSize;
+
+  return {
+    apiVersion: 'v1',
+    groupBy: query.groupBy,
+    rows: rows.slice(query.offset, end),
+    totals,
+    pagination: {
+      pageSize: query.pageSize,
+      totalRows: rows.length,
+      nextPageToken: end < rows.length ? String(end) : null,
+    },
+    metadata: {
+      organizationIds: data.organizationIds,
+      window: data.window,
+      timeZone: data.timeZone,
+      asOf: data.asOf,
+      currency: data.rateCard.currency,
+      attribution: query.attribution,
+      filters,
+      sort: query.sort,
+      order: query.order,
+      accounting: data.accounting,
+      warnings: data.warnings,
+    },
+  };
+}
@@ -16,11 +16,61 @@ export interface Member {
   avatarUrl?: string;
 }
 
+export interface Project {
+  projectId: string;
+  name: string;
+}
+
+export interface EnvironmentClass {
+  environmentClassId: string;
+  name: string;
+  description?: string;
+}
+
+export interface Runner {
+  runnerId: string;
+  name: string;
+  kind?: string;
+  provider?: string;
+  phase?: string;
+}
+
+/** What is known of an environment usage records refer to. */
+export interface EnvironmentInfo {
+  environmentId: string;
+  name?: string;
+  userId?: string;
+  /** Host and path of its repository, e.g. `github.com/acme/web`. */
+  repository?: string;
+  /** URL it was created from, when there is one. */
+  contextUrl?: string;
+  branch?: string;
+  phase?: string;
+  archived: boolean;
+  /** It no longer exists, so only its ID is known. */
+  deleted: boolean;
+}
+
+export interface Team {
+  teamId: string;
+  name: string;
+  memberIds: string[];
+}
+
+export type TeamAttribution = 'full' | 'split';
+
+export interface RateCard {
+  currency: string;
+  defaultHourlyRate: number;
+  rates: Record<string, number>;
+}
+
 export interface UserUsage {
   userId: string;
   userName: string;
   email: string;
   totalHours: number;
+  estimatedCost: number;
   environments: EnvironmentUsage[];
 }
 
@@ -30,13 +80,543 @@ export interface EnvironmentUsage {
   userName: string;
   email: string;
   totalHours: number;
+  estimatedCost: number;
   sessions: SessionInfo[];
 }
 
+export interface ProjectUsage {
+  projectId: string;
+  projectName: string;
+  totalHours: number;
+  estimatedCost: number;
+  users: UserUsage[];
+  environments: EnvironmentUsage[];
+}
+
+export interface EnvironmentClassUsage {
+  environmentClassId: string;
+  className: string;
+  hourlyRate: number;
+  totalHours: number;
+  estimatedCost: number;
+  users: UserUsage[];
+  environments: EnvironmentUsage[];
+}
+
+export interface RunnerUsage {
+  runnerId: string;
+  runnerName: string;
+  kind?: string;
+  provider?: string;
+  phase?: string;
+  totalHours: number;
+  estimatedCost: number;
+  shareOfTotal: number;
+  userCount: number;
+  environmentCount: number;
+  users: UserUsage[];
+  environments: EnvironmentUsage[];
+}
+
+export interface RepositoryUsage {
+  /** Normalized repository, or `NO_REPOSITORY_ID` for environments without one. */
+  repository: string;
+  repositoryName: string;
+  totalHours: number;
+  estimatedCost: number;
+  shareOfTotal: number;
+  userCount: number;
+  environmentCount: number;
+  users: UserUsage[];
+  environments: EnvironmentUsage[];
+}
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface SeriesKey {
+  key: string;
+  label: string;
+  weight?: number;
+}
+
+export interface TimeSeriesSeries extends SeriesKey {
+  totalHours: number;
+}
+
+export interface TimeSeriesBucket {
+  startTime: string;
+  endTime: string;
+  totalHours: number;
+  values: Record<string, number>;
+}
+
+export interface TimeSeries {
+  granularity: Granularity;
+  series: TimeSeriesSeries[];
+  buckets: TimeSeriesBucket[];
+}
+
+export interface TeamMemberUsage {
+  userId: string;
+  userName: string;
+  email: string;
+  totalHours: number;
+  estimatedCost: number;
+  share: number;
+  teamCount: number;
+}
+
+export interface TeamUsage {
+  teamId: string;
+  teamName: string;
+  memberCount: number;
+  totalHours: number;
+  estimatedCost: number;
+  members: TeamMemberUsage[];
+}
+
+export interface GroupTotal {
+  key: string;
+  label: string;
+  totalHours: number;
+  estimatedCost: number;
+}
+
+export type ComparisonStatus = 'new' | 'departed' | 'changed';
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  currentHours: number;
+  baselineHours: number;
+  deltaHours: number;
+  deltaPercent: number | null;
+  currentCost: number;
+  baselineCost: number;
+  deltaCost: number;
+  status: ComparisonStatus;
+}
+
 export interface SessionInfo {
   startTime: string;
   endTime: string;
   durationHours: number;
+  estimatedCost: number;
+  inProgress: boolean;
+  clipped: boolean;
+}
+
+export interface TimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+export interface SyncStatus {
+  mode: 'store' | 'live';
+  syncedFrom?: string;
+  syncedUntil?: string;
+  lastSyncAt?: string;
+  fetchedRecords: number;
+}
+
+export interface Organization {
+  organizationId: string;
+  name: string;
+  /** Whether usage can be fetched for it, i.e. there is a token scoped to it. */
+  accessible: boolean;
+  /** The signed-in user's role in it, when sign-in is enabled. */
+  role?: UserRole;
+}
+
+export type UserRole = 'admin' | 'member';
+
+/** Who is signed in, and their role in each organization they belong to. */
+export interface SessionUser {
+  userId: string;
+  name: string;
+  email: string;
+  /** The organization the user's token belongs to. */
+  organizationId: string;
+  roles: Record<string, UserRole>;
+}
+
+export interface SessionResponse {
+  /** False when sign-in is turned off with `ONA_AUTH=off`. */
+  authEnabled: boolean;
+  user: SessionUser | null;
+}
+
+export interface OrganizationsResponse {
+  organizations: Organization[];
+  defaultOrganizationId: string | null;
+}
+
+export interface UsageResponse {
+  organizationIds: string[];
+  usageRecords: UsageRecord[];
+  members: Member[];
+  projects: Project[];
+  environmentClasses: EnvironmentClass[];
+  runners: Runner[];
+  teams: Team[];
+  /** Environments the usage records refer to. */
+  environments: EnvironmentInfo[];
+  rateCard: RateCard;
+  accounting: AccountingSummary;
+  sync: SyncStatus;
+  window: TimeWindow;
+  timeZone: string;
+  asOf: string;
+  /** What is missing from an incomplete response; empty when nothing is. */
+  warnings: UsageWarning[];
+}
+
+export type UsageWarningCode =
+  | 'lookup_unavailable'
+  | 'usage_truncated'
+  | 'sync_failed'
+  | 'organization_unavailable';
+
+/** Part of a response that could not be fetched; the rest is still returned. */
+export interface UsageWarning {
+  code: UsageWarningCode;
+  message: string;
+  organizationId: string;
+}
+
+/** How far fetching the usage records of one organization has got. */
+export interface UsageProgress {
+  organizationId: string;
+  completedChunks: number;
+  /** Grows when the usage store asks for a second range. */
+  totalChunks: number;
+  fetchedRecords: number;
 }
 
-export type GroupBy = 'user' | 'environment';
+/**
+ * Events of the NDJSON stream `/api/usage` returns for `Accept:
+ * application/x-ndjson`. `records` events together hold every record of the
+ * response, so the final `result` leaves them out.
+ */
+export type UsageStreamEvent =
+  | { type: 'start'; window: TimeWindow; timeZone: string }
+  | {
+    type: 'lookups';
+    organizationId: string;
+    members: Member[];
+    environmentClasses: EnvironmentClass[];
+    runners: Runner[];
+    teams: Team[];
+  }
+  | { type: 'progress'; progress: UsageProgress }
+  | { type: 'records'; records: UsageRecord[]; projects: Project[] }
+  | { type: 'result'; data: Omit<UsageResponse, 'usageRecords'> }
+  | { type: 'error'; error: string; status: number };
+
+export type BudgetScope = 'user' | 'project' | 'org';
+
+export interface Budget {
+  id: string;
+  name: string;
+  scope: BudgetScope;
+  target?: string;
+  periodDays: number;
+  limitHours?: number;
+  limitCost?: number;
+  warnThreshold: number;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  budgetId: string;
+  budgetName: string;
+  scope: BudgetScope;
+  subjectId: string;
+  subjectName: string;
+  periodStart: string;
+  periodEnd: string;
+  usedHours: number;
+  usedCost: number;
+  limitHours?: number;
+  limitCost?: number;
+  utilization: number;
+  state: BudgetState;
+}
+
+export interface BudgetResponse {
+  statuses: BudgetStatus[];
+  currency: string;
+  evaluatedAt: string;
+  notified: number;
+}
+
+/** What a cost center rule matches a user's usage on. */
+export type CostCenterMatch = 'user' | 'project' | 'group' | 'emailDomain';
+
+export interface CostCenter {
+  id: string;
+  name: string;
+}
+
+export interface CostCenterRule {
+  match: CostCenterMatch;
+  /** User ID or email, project ID or name, group ID or name, or email domain. */
+  value: string;
+  costCenterId: string;
+}
+
+export interface CostCenterConfig {
+  costCenters: CostCenter[];
+  rules: CostCenterRule[];
+  /** Match kinds from strongest to weakest; within a kind, the first rule wins. */
+  precedence: CostCenterMatch[];
+  /** Where usage no rule matches is charged; null keeps it in an `unmapped` bucket. */
+  defaultCostCenterId: string | null;
+}
+
+/** One user's usage in one project, charged to a single cost center. */
+export interface ChargebackLine {
+  userId: string;
+  userName: string;
+  email: string;
+  projectId: string;
+  projectName: string;
+  totalHours: number;
+  estimatedCost: number;
+  /** Kind of the rule that matched; null when the line fell through to the default. */
+  matchedBy: CostCenterMatch | null;
+}
+
+export interface CostCenterAllocation {
+  costCenterId: string;
+  costCenterName: string;
+  totalHours: number;
+  estimatedCost: number;
+  shareOfTotal: number;
+  lines: ChargebackLine[];
+}
+
+export interface ChargebackResponse {
+  organizationIds: string[];
+  window: TimeWindow;
+  timeZone: string;
+  asOf: string;
+  currency: string;
+  /** False when no cost centers are configured. */
+  configured: boolean;
+  costCenters: CostCenterAllocation[];
+  totals: { totalHours: number; estimatedCost: number };
+  /** Usage no rule matched, whether or not a default cost center absorbed it. */
+  unmapped: {
+    totalHours: number;
+    estimatedCost: number;
+    /** The default cost center, or `unmapped` when there is none. */
+    chargedTo: string;
+    lines: ChargebackLine[];
+  };
+  accounting: AccountingSummary;
+}
+
+export interface RunningEnvironment {
+  environmentId: string;
+  userId?: string;
+  projectId?: string;
+  environmentClassId?: string;
+  runnerId?: string;
+  phase: string;
+  startedAt?: string;
+}
+
+export type LiveEvent =
+  | { type: 'snapshot'; environments: RunningEnvironment[]; asOf: string }
+  | { type: 'upsert'; environment: RunningEnvironment }
+  | { type: 'remove'; environmentId: string }
+  | { type: 'status'; connected: boolean; error?: string };
+
+export type AnomalyKind = 'longSession' | 'offHours' | 'usageSpike';
+
+export interface AnomalyThresholds {
+  maxSessionHours: number;
+  workdayStartHour: number;
+  workdayEndHour: number;
+  maxOffHours: number;
+  trailingDays: number;
+  spikeFactor: number;
+  minSpikeHours: number;
+}
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  userId: string;
+  userName: string;
+  environmentId?: string;
+  startTime?: string;
+  endTime?: string;
+  inProgress: boolean;
+  hours: number;
+  baselineHours?: number;
+  estimatedCost: number;
+  weekend?: boolean;
+}
+
+export interface UsageFilters {
+  userId?: string;
+  emailDomain?: string;
+  projectId?: string;
+  environmentClassId?: string;
+  runnerId?: string;
+  minHours?: number;
+  search?: string;
+}
+
+export interface AccountingOptions {
+  window?: TimeWindow;
+  now?: Date;
+  rateCard?: RateCard;
+}
+
+export interface AccountedSession extends SessionInfo {
+  userId: string;
+  environmentId: string;
+  record: UsageRecord;
+}
+
+export interface AccountingSummary {
+  totalRecords: number;
+  countedRecords: number;
+  clippedRecords: number;
+  openRecords: number;
+  malformedRecords: number;
+  outOfRangeRecords: number;
+}
+
+export type GroupBy = 'user' | 'environment' | 'repository' | 'project' | 'environmentClass' | 'runner' | 'team';
+
+export type SummarySort = 'hours' | 'cost' | 'sessions' | 'name';
+export type SortOrder = 'asc' | 'desc';
+
+/** Fields every `/api/v1/summary` row has, whatever it is grouped by. */
+export interface SummaryRowBase {
+  totalHours: number;
+  estimatedCost: number;
+  sessionCount: number;
+  /** Share of all hours in the response; team shares can add up to more than 1. */
+  shareOfTotal: number;
+}
+
+export interface UserSummaryRow extends SummaryRowBase {
+  userId: string;
+  userName: string;
+  email: string;
+  environmentCount: number;
+}
+
+export interface EnvironmentSummaryRow extends SummaryRowBase {
+  environmentId: string;
+  environmentName?: string;
+  repository?: string;
+  branch?: string;
+  phase?: string;
+  archived: boolean;
+  deleted: boolean;
+  userId: string;
+  userName: string;
+  email: string;
+}
+
+export interface RepositorySummaryRow extends SummaryRowBase {
+  repository: string;
+  repositoryName: string;
+  userCount: number;
+  environmentCount: number;
+}
+
+export interface ProjectSummaryRow extends SummaryRowBase {
+  projectId: string;
+  projectName: string;
+  userCount: number;
+  environmentCount: number;
+}
+
+export interface EnvironmentClassSummaryRow extends SummaryRowBase {
+  environmentClassId: string;
+  className: string;
+  hourlyRate: number;
+  userCount: number;
+  environmentCount: number;
+}
+
+export interface RunnerSummaryRow extends SummaryRowBase {
+  runnerId: string;
+  runnerName: string;
+  kind?: string;
+  provider?: string;
+  phase?: string;
+  userCount: number;
+  environmentCount: number;
+}
+
+export interface TeamSummaryRow extends SummaryRowBase {
+  teamId: string;
+  teamName: string;
+  memberCount: number;
+  /** Members with usage in the range. */
+  userCount: number;
+}
+
+export interface SummaryRowMap {
+  user: UserSummaryRow;
+  environment: EnvironmentSummaryRow;
+  repository: RepositorySummaryRow;
+  project: ProjectSummaryRow;
+  environmentClass: EnvironmentClassSummaryRow;
+  runner: RunnerSummaryRow;
+  team: TeamSummaryRow;
+}
+
+export interface SummaryTotals {
+  totalHours: number;
+  estimatedCost: number;
+  sessionCount: number;
+  userCount: number;
+  environmentCount: number;
+}
+
+export interface SummaryResponse<G extends GroupBy = GroupBy> {
+  apiVersion: 'v1';
+  groupBy: G;
+  rows: SummaryRowMap[G][];
+  /** Over every row, not just this page. */
+  totals: SummaryTotals;
+  pagination: {
+    pageSize: number;
+    totalRows: number;
+    /** Pass as `pageToken` for the next page; null on the last page. */
+    nextPageToken: string | null;
+  };
+  metadata: {
+    organizationIds: string[];
+    window: TimeWindow;
+    timeZone: string;
+    asOf: string;
+    currency: string;
+    attribution: TeamAttribution;
+    filters: UsageFilters;
+    sort: SummarySort;
+    order: SortOrder;
+    accounting: AccountingSummary;
+    warnings: UsageWarning[];
+  };
+}
+
+export type ApiErrorCode = 'invalid_argument' | 'unauthenticated' | 'permission_denied' | 'unavailable' | 'internal';
+
+/** Error body of the versioned API. */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    status: number;
+  };
+}
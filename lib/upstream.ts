@@ -0,0 +1,139 @@
+import { APIConnectionError, APIError, APIUserAbortError } from '@gitpod/sdk';
+import { AbstractPage } from '@gitpod/sdk/pagination';
+import { loadFetchConfig } from './config';
+
+export type UpstreamErrorKind =
+  | 'rateLimited'
+  | 'unavailable'
+  | 'unauthenticated'
+  | 'permissionDenied'
+  | 'notFound'
+  | 'failed';
+
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+/** A call to the Ona API that failed, after retrying when the failure was transient. */
+export class UpstreamError extends Error {
+  constructor(
+    /** What was being done, e.g. `list usage records`. */
+    readonly operation: string,
+    readonly kind: UpstreamErrorKind,
+    message: string,
+    readonly status?: number
+  ) {
+    super(`Could not ${operation}: ${message}`);
+  }
+
+  /** Rate limits and outages usually pass; access problems do not. */
+  get retryable(): boolean {
+    return this.kind === 'rateLimited' || this.kind === 'unavailable';
+  }
+}
+
+function errorKind(error: unknown): UpstreamErrorKind {
+  if (error instanceof APIConnectionError) return 'unavailable';
+  if (!(error instanceof APIError)) return 'failed';
+  if (error.status === 429 || error.code === 'resource_exhausted') return 'rateLimited';
+  if (error.status === 401) return 'unauthenticated';
+  if (error.status === 403) return 'permissionDenied';
+  if (error.status === 404) return 'notFound';
+  if (error.status === 408 || (error.status !== undefined && error.status >= 500)) return 'unavailable';
+  return 'failed';
+}
+
+export function toUpstreamError(operation: string, error: unknown): UpstreamError {
+  if (error instanceof UpstreamError) {
+    return error;
+  }
+  const message = error instanceof Error && error.message ? error.message : String(error);
+  return new UpstreamError(operation, errorKind(error), message, error instanceof APIError ? error.status : undefined);
+}
+
+/** The delay the API asked for, or exponential backoff with jitter. */
+function retryDelay(error: unknown, attempt: number, baseMs: number): number {
+  const headers = error instanceof APIError ? error.headers : undefined;
+  const retryAfterMs = Number(headers?.get('retry-after-ms'));
+  if (retryAfterMs >= 0 && headers?.has('retry-after-ms')) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+  const retryAfter = Number(headers?.get('retry-after'));
+  if (retryAfter >= 0 && headers?.has('retry-after')) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(baseMs * 2 ** attempt * (0.75 + Math.random() * 0.5), MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new APIUserAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `call`, retrying rate limits and transient failures up to
+ * `ONA_FETCH_RETRIES` times with backoff. Calls should turn off the SDK's
+ * own retries (`maxRetries: 0`) so that retries are counted in one place.
+ * Throws an `UpstreamError`; aborts are passed through as they are.
+ */
+export async function withRetry<T>(operation: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const { retries, retryDelayMs } = loadFetchConfig();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (signal?.aborted || error instanceof APIUserAbortError) {
+        throw error;
+      }
+      const upstream = toUpstreamError(operation, error);
+      if (!upstream.retryable || attempt >= retries) {
+        throw upstream;
+      }
+      console.warn(`${upstream.message}; retrying (${attempt + 1} of ${retries})`);
+      await sleep(retryDelay(error, attempt, retryDelayMs), signal);
+    }
+  }
+}
+
+/**
+ * The items of a paginated list call, one page at a time, each page fetched
+ * with `withRetry`. A failure ends the iteration with an `UpstreamError`
+ * after the pages before it have been yielded.
+ */
+export async function* listPages<Item>(
+  operation: string,
+  firstPage: () => Promise<AbstractPage<Item>>,
+  signal?: AbortSignal
+): AsyncGenerator<Item[]> {
+  let page = await withRetry(operation, firstPage, signal);
+  yield page.getPaginatedItems();
+  while (page.hasNextPage()) {
+    const current = page;
+    page = await withRetry(operation, () => current.getNextPage(), signal);
+    yield page.getPaginatedItems();
+  }
+}
+
+/** Every item of a paginated list call; see `listPages`. */
+export async function listAll<Item>(
+  operation: string,
+  firstPage: () => Promise<AbstractPage<Item>>,
+  signal?: AbortSignal
+): Promise<Item[]> {
+  const items: Item[] = [];
+  for await (const page of listPages(operation, firstPage, signal)) {
+    items.push(...page);
+  }
+  return items;
+}
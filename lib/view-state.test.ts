@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VIEW_STATE, parseViewState, serializeViewState, ViewState } from './view-state';
+
+const parse = (query: string) => parseViewState(new URLSearchParams(query));
+
+describe('serializeViewState', () => {
+  it('leaves the default view out of the URL', () => {
+    expect(serializeViewState(DEFAULT_VIEW_STATE).toString()).toBe('');
+  });
+
+  it('round-trips every shared setting', () => {
+    const state: ViewState = {
+      organizationId: 'org-acme',
+      dateRange: 'custom',
+      timeZone: 'Europe/Berlin',
+      customStartDate: '2025-01-06',
+      customEndDate: '2025-01-12',
+      groupBy: 'team',
+      granularity: 'week',
+      teamAttribution: 'split',
+      filters: { userId: 'u-alice', emailDomain: 'acme.com', minHours: 2, search: 'web' },
+      compareMode: 'custom',
+      baselineStartDate: '2024-12-30',
+      baselineEndDate: '2025-01-05',
+      comparisonSort: 'percent',
+      expandedRows: ['team-a', 'team-b'],
+    };
+
+    expect(parseViewState(serializeViewState(state))).toEqual(state);
+  });
+
+  it('keeps the granularity that matches the range out of the URL', () => {
+    const state: ViewState = { ...DEFAULT_VIEW_STATE, dateRange: '12m', granularity: 'month' };
+
+    expect(serializeViewState(state).toString()).toBe('range=12m');
+    expect(parse('range=12m')).toEqual(state);
+  });
+
+  it('only writes the sort when comparing', () => {
+    expect(serializeViewState({ ...DEFAULT_VIEW_STATE, comparisonSort: 'current' }).toString()).toBe('');
+    expect(serializeViewState({ ...DEFAULT_VIEW_STATE, compareMode: 'previous', comparisonSort: 'current' }).toString())
+      .toBe('compare=previous&sort=current');
+  });
+});
+
+describe('parseViewState', () => {
+  it('falls back to the defaults for unknown values and ignores unknown params', () => {
+    expect(parse('range=forever&groupBy=planet&granularity=hour&attribution=half&compare=yes&sort=size&tz=Mars/Olympus&utm_source=mail'))
+      .toEqual(DEFAULT_VIEW_STATE);
+  });
+
+  it('drops a custom range without a valid pair of dates', () => {
+    expect(parse('range=custom&from=2025-01-06').dateRange).toBe('7d');
+    expect(parse('range=custom&from=2025-01-12&to=2025-01-06').dateRange).toBe('7d');
+    expect(parse('range=custom&from=2025-02-30&to=2025-03-01')).toMatchObject({
+      dateRange: '7d',
+      customStartDate: '',
+      customEndDate: '',
+    });
+  });
+
+  it('drops a custom baseline without a valid pair of dates', () => {
+    expect(parse('compare=custom&baselineFrom=yesterday&baselineTo=2025-01-05')).toMatchObject({
+      compareMode: 'off',
+      baselineStartDate: '',
+      baselineEndDate: '',
+    });
+  });
+
+  it('ignores dates that do not belong to a custom range or baseline', () => {
+    expect(parse('range=30d&from=2025-01-06&to=2025-01-12&baselineFrom=2024-12-30&baselineTo=2025-01-05')).toEqual({
+      ...DEFAULT_VIEW_STATE,
+      dateRange: '30d',
+    });
+  });
+
+  it('cleans up filters and expanded rows', () => {
+    expect(parse('org=%20&user=%20&minHours=-1&domain=&expand=a&expand=&expand=a')).toEqual({
+      ...DEFAULT_VIEW_STATE,
+      expandedRows: ['a'],
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { Granularity, GroupBy, TeamAttribution, UsageFilters } from './types';
+import { filtersToParams, parseFilters } from './filters';
+import { DATE_RANGES, DateRange, isValidTimeZone, parseCalendarDate } from './date-ranges';
+
+/** `organizationId` value that rolls up every accessible organization. */
+export const ALL_ORGANIZATIONS = 'all';
+
+export type CompareMode = 'off' | 'previous' | 'custom';
+export type ComparisonSort = 'change' | 'percent' | 'current';
+
+export const GROUP_BY_VALUES: GroupBy[] = [
+  'user', 'environment', 'repository', 'project', 'environmentClass', 'runner', 'team',
+];
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+export const TEAM_ATTRIBUTIONS: TeamAttribution[] = ['full', 'split'];
+export const COMPARE_MODES: CompareMode[] = ['off', 'previous', 'custom'];
+export const COMPARISON_SORTS: ComparisonSort[] = ['change', 'percent', 'current'];
+
+export const DEFAULT_GRANULARITY: Record<DateRange, Granularity> = {
+  today: 'day',
+  yesterday: 'day',
+  '7d': 'day',
+  '30d': 'day',
+  thisMonth: 'day',
+  lastMonth: 'day',
+  lastQuarter: 'week',
+  '6m': 'week',
+  '12m': 'month',
+  custom: 'day',
+};
+
+/** Everything about the dashboard view that can be shared through the URL. */
+export interface ViewState {
+  /** Empty for the default organization of the server's token. */
+  organizationId: string;
+  dateRange: DateRange;
+  /** IANA timezone; empty for the server's default. */
+  timeZone: string;
+  customStartDate: string;
+  customEndDate: string;
+  groupBy: GroupBy;
+  granularity: Granularity;
+  teamAttribution: TeamAttribution;
+  filters: UsageFilters;
+  compareMode: CompareMode;
+  baselineStartDate: string;
+  baselineEndDate: string;
+  comparisonSort: ComparisonSort;
+  expandedRows: string[];
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  organizationId: '',
+  dateRange: '7d',
+  timeZone: '',
+  customStartDate: '',
+  customEndDate: '',
+  groupBy: 'user',
+  granularity: DEFAULT_GRANULARITY['7d'],
+  teamAttribution: 'full',
+  filters: {},
+  compareMode: 'off',
+  baselineStartDate: '',
+  baselineEndDate: '',
+  comparisonSort: 'change',
+  expandedRows: [],
+};
+
+function pick<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function isDate(value: string | null): value is string {
+  return parseCalendarDate(value) !== null;
+}
+
+/** Returns the pair of `YYYY-MM-DD` dates if both are valid and in order. */
+function parseDatePair(start: string | null, end: string | null): [string, string] | null {
+  return isDate(start) && isDate(end) && start <= end ? [start, end] : null;
+}
+
+/**
+ * Reads the view state from query parameters. Unknown or invalid values fall
+ * back to the defaults; a custom range or baseline without a valid pair of
+ * dates falls back to the default range or to no comparison.
+ */
+export function parseViewState(params: URLSearchParams): ViewState {
+  let dateRange = pick(params.get('range'), DATE_RANGES, DEFAULT_VIEW_STATE.dateRange);
+  const customDates = parseDatePair(params.get('from'), params.get('to'));
+  if (dateRange === 'custom' && !customDates) {
+    dateRange = DEFAULT_VIEW_STATE.dateRange;
+  }
+
+  let compareMode = pick(params.get('compare'), COMPARE_MODES, DEFAULT_VIEW_STATE.compareMode);
+  const baselineDates = parseDatePair(params.get('baselineFrom'), params.get('baselineTo'));
+  if (compareMode === 'custom' && !baselineDates) {
+    compareMode = DEFAULT_VIEW_STATE.compareMode;
+  }
+  const timeZone = params.get('tz');
+
+  return {
+    organizationId: params.get('org')?.trim() || '',
+    dateRange,
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_VIEW_STATE.timeZone,
+    customStartDate: dateRange === 'custom' ? customDates![0] : '',
+    customEndDate: dateRange === 'custom' ? customDates![1] : '',
+    groupBy: pick(params.get('groupBy'), GROUP_BY_VALUES, DEFAULT_VIEW_STATE.groupBy),
+    granularity: pick(params.get('granularity'), GRANULARITIES, DEFAULT_GRANULARITY[dateRange]),
+    teamAttribution: pick(params.get('attribution'), TEAM_ATTRIBUTIONS, DEFAULT_VIEW_STATE.teamAttribution),
+    filters: parseFilters(params),
+    compareMode,
+    baselineStartDate: compareMode === 'custom' ? baselineDates![0] : '',
+    baselineEndDate: compareMode === 'custom' ? baselineDates![1] : '',
+    comparisonSort: pick(params.get('sort'), COMPARISON_SORTS, DEFAULT_VIEW_STATE.comparisonSort),
+    expandedRows: Array.from(new Set(params.getAll('expand').filter(Boolean))),
+  };
+}
+
+/**
+ * Writes the view state as query parameters, leaving out values that match
+ * their defaults so shared links stay short.
+ */
+export function serializeViewState(state: ViewState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (state.organizationId) {
+    params.set('org', state.organizationId);
+  }
+  if (state.dateRange !== DEFAULT_VIEW_STATE.dateRange) {
+    params.set('range', state.dateRange);
+  }
+  if (state.dateRange === 'custom') {
+    if (state.customStartDate) params.set('from', state.customStartDate);
+    if (state.customEndDate) params.set('to', state.customEndDate);
+  }
+  if (state.timeZone) {
+    params.set('tz', state.timeZone);
+  }
+  if (state.groupBy !== DEFAULT_VIEW_STATE.groupBy) {
+    params.set('groupBy', state.groupBy);
+  }
+  if (state.granularity !== DEFAULT_GRANULARITY[state.dateRange]) {
+    params.set('granularity', state.granularity);
+  }
+  if (state.teamAttribution !== DEFAULT_VIEW_STATE.teamAttribution) {
+    params.set('attribution', state.teamAttribution);
+  }
+  filtersToParams(state.filters, params);
+  if (state.compareMode !== DEFAULT_VIEW_STATE.compareMode) {
+    params.set('compare', state.compareMode);
+  }
+  if (state.compareMode === 'custom') {
+    if (state.baselineStartDate) params.set('baselineFrom', state.baselineStartDate);
+    if (state.baselineEndDate) params.set('baselineTo', state.baselineEndDate);
+  }
+  if (state.compareMode !== 'off' && state.comparisonSort !== DEFAULT_VIEW_STATE.comparisonSort) {
+    params.set('sort', state.comparisonSort);
+  }
+  state.expandedRows.forEach(row => params.append('expand', row));
+
+  return params;
+}
@@ -0,0 +1,27 @@
+// Minimal local webhook receiver for trying out alerts:
+//   node scripts/webhook-receiver.js [port]
+// then set ONA_BUDGET_WEBHOOK_URL=http://localhost:<port>/
+const http = require('http');
+
+const port = Number(process.argv[2] || process.env.PORT || 9000);
+
+http
+  .createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      console.log(`[${new Date().toISOString()}] ${request.method} ${request.url}`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('ok');
+    });
+  })
+  .listen(port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}/`);
+  });
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE, GET as getSession, POST as signIn } from '@/app/api/auth/session/route';
+import { GET as getUsage } from '@/app/api/usage/route';
+import { GET as getBudgets } from '@/app/api/budgets/route';
+import { GET as getOrganizations } from '@/app/api/organizations/route';
+import { decodeSession, encodeSession, SESSION_COOKIE, SESSION_TTL_MS } from '@/lib/auth';
+import { createUserEventFilter } from '@/lib/live';
+import { RunningEnvironment, SessionUser } from '@/lib/types';
+import { acmeOrganization, ACME_TOKEN, ACME_WINDOW, BOB_TOKEN, globexOrganization } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+let server: MockApiServer;
+
+function request(path: string, session?: string, init: { method?: string; body?: string } = {}) {
+  return new NextRequest(`http://localhost${path}`, {
+    ...init,
+    headers: session ? { cookie: `${SESSION_COOKIE}=${session}` } : {},
+  });
+}
+
+async function signInWith(token: string) {
+  const response = await signIn(request('/api/auth/session', undefined, {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  }));
+  return { status: response.status, body: await response.json(), cookie: response.cookies.get(SESSION_COOKIE)?.value };
+}
+
+async function usageAs(session: string | undefined, params: Record<string, string> = {}) {
+  const query = new URLSearchParams({ ...ACME_WINDOW, ...params });
+  const response = await getUsage(request(`/api/usage?${query}`, session));
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  server = await startMockApiServer([acmeOrganization(), globexOrganization()]);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', JSON.stringify({ 'org-globex': 'globex-token' }));
+  vi.stubEnv('ONA_SESSION_SECRET', 'test-secret');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('sessions', () => {
+  const alice: SessionUser = {
+    userId: 'u-alice',
+    name: 'Alice Example',
+    email: 'alice@acme.test',
+    organizationId: 'org-acme',
+    roles: { 'org-acme': 'admin' },
+  };
+
+  it('round-trips a signed session', () => {
+    expect(decodeSession(encodeSession(alice))).toEqual(alice);
+  });
+
+  it('rejects tampered and expired sessions', () => {
+    const [payload, signature] = encodeSession(alice).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...alice, userId: 'u-bob', expiresAt: Date.now() + 1000 }))
+      .toString('base64url');
+
+    expect(decodeSession(`${forged}.${signature}`)).toBeNull();
+    expect(decodeSession(`${payload}.${signature}`, new Date(Date.now() + SESSION_TTL_MS + 1))).toBeNull();
+    expect(decodeSession(undefined)).toBeNull();
+  });
+
+  it('signs in with a personal access token and resolves the role', async () => {
+    const admin = await signInWith(ACME_TOKEN);
+    const member = await signInWith(BOB_TOKEN);
+
+    expect(admin.status).toBe(200);
+    expect(admin.body.user).toEqual(alice);
+    expect(member.body.user).toMatchObject({ userId: 'u-bob', roles: { 'org-acme': 'member' } });
+    expect(decodeSession(member.cookie)?.userId).toBe('u-bob');
+  });
+
+  it('rejects unknown tokens', async () => {
+    const { status, cookie } = await signInWith('stolen-token');
+
+    expect(status).toBe(401);
+    expect(cookie).toBeUndefined();
+  });
+
+  it('reports the current user and signs out', async () => {
+    const { cookie } = await signInWith(BOB_TOKEN);
+
+    expect((await (await getSession(request('/api/auth/session', cookie))).json()).user.userId).toBe('u-bob');
+    expect((await DELETE()).cookies.get(SESSION_COOKIE)?.value).toBe('');
+  });
+});
+
+describe('role-based access', () => {
+  it('requires a session', async () => {
+    expect((await usageAs(undefined)).status).toBe(401);
+    expect((await usageAs('forged.session')).status).toBe(401);
+  });
+
+  it('shows admins every member', async () => {
+    const { cookie } = await signInWith(ACME_TOKEN);
+    const { status, body } = await usageAs(cookie);
+
+    expect(status).toBe(200);
+    expect(body.usageRecords).toHaveLength(11);
+    expect(body.members).toHaveLength(5);
+  });
+
+  it('shows members only their own usage, whatever they ask for', async () => {
+    const { cookie } = await signInWith(BOB_TOKEN);
+    const { status, body } = await usageAs(cookie, { user: 'u-alice' });
+
+    expect(status).toBe(200);
+    expect(body.usageRecords.map((record: { id: string }) => record.id)).toEqual(['r-04', 'r-05', 'r-10']);
+    expect(body.members.map((member: { userId: string }) => member.userId)).toEqual(['u-bob']);
+    expect(body.teams).toEqual([{ teamId: 'g-platform', name: 'Platform', memberIds: ['u-bob'] }]);
+  });
+
+  it('keeps users out of organizations they do not belong to', async () => {
+    const { cookie } = await signInWith(BOB_TOKEN);
+
+    expect((await usageAs(cookie, { organizationId: 'org-globex' })).status).toBe(403);
+    expect((await usageAs(cookie, { organizationId: 'all' })).body.organizationIds).toEqual(['org-acme']);
+  });
+
+  it('lists only the user\'s organizations with their role', async () => {
+    const { cookie } = await signInWith(BOB_TOKEN);
+    const body = await (await getOrganizations(request('/api/organizations', cookie))).json();
+
+    expect(body.organizations).toEqual([
+      { organizationId: 'org-acme', name: 'Acme', accessible: true, role: 'member' },
+    ]);
+  });
+
+  it('keeps budgets to admins', async () => {
+    const { cookie } = await signInWith(BOB_TOKEN);
+
+    expect((await getBudgets(request('/api/budgets', cookie))).status).toBe(403);
+  });
+});
+
+describe('live events for members', () => {
+  const environment = (environmentId: string, userId: string): RunningEnvironment => ({
+    environmentId,
+    userId,
+    phase: 'ENVIRONMENT_PHASE_RUNNING',
+  });
+
+  it('passes only the member\'s own environments', () => {
+    const visible = createUserEventFilter('u-bob');
+
+    expect(visible({
+      type: 'snapshot',
+      environments: [environment('env-a1', 'u-alice'), environment('env-b1', 'u-bob')],
+      asOf: '2025-01-06T00:00:00Z',
+    })).toEqual({ type: 'snapshot', environments: [environment('env-b1', 'u-bob')], asOf: '2025-01-06T00:00:00Z' });
+    expect(visible({ type: 'upsert', environment: environment('env-a2', 'u-alice') })).toBeNull();
+    expect(visible({ type: 'remove', environmentId: 'env-a1' })).toBeNull();
+    expect(visible({ type: 'remove', environmentId: 'env-b1' })).toEqual({ type: 'remove', environmentId: 'env-b1' });
+  });
+});
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/budgets/route';
+import { runBudgetCheck } from '@/lib/budgets';
+import { createClient } from '@/lib/ona';
+import { BudgetResponse } from '@/lib/types';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+const BUDGETS = [
+  { id: 'weekly-user', name: 'Weekly hours', scope: 'user', periodDays: 7, limitHours: 20, warnThreshold: 0.7 },
+  { id: 'weekly-org', name: 'Weekly spend', scope: 'org', periodDays: 7, limitCost: 100 },
+];
+const NOW = new Date(ACME_WINDOW.endTime);
+
+/** A local webhook receiver that records each JSON body and answers with `status`. */
+interface WebhookReceiver {
+  url: string;
+  messages: { text: string }[];
+  status: number;
+  close(): Promise<void>;
+}
+
+async function startWebhookReceiver(): Promise<WebhookReceiver> {
+  const receiver: WebhookReceiver = { url: '', messages: [], status: 200, close: async () => {} };
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      receiver.messages.push(JSON.parse(body));
+      response.writeHead(receiver.status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  receiver.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  receiver.close = () => new Promise(resolve => server.close(() => resolve()));
+  return receiver;
+}
+
+let server: MockApiServer;
+let receiver: WebhookReceiver;
+let dir: string;
+
+beforeAll(async () => {
+  server = await startMockApiServer(acmeOrganization());
+  receiver = await startWebhookReceiver();
+});
+
+afterAll(async () => {
+  await receiver.close();
+  await server.close();
+});
+
+beforeEach(async () => {
+  server.reset();
+  receiver.messages = [];
+  receiver.status = 200;
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'budgets-'));
+  vi.unstubAllEnvs();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', '{}');
+  vi.stubEnv('ONA_AUTH', 'off');
+  vi.stubEnv('ONA_BUDGETS', JSON.stringify(BUDGETS));
+  vi.stubEnv('ONA_BUDGET_WEBHOOK_URL', receiver.url);
+  vi.stubEnv('ONA_BUDGET_STATE_PATH', path.join(dir, 'budget-state.json'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const states = (result: BudgetResponse) =>
+  result.statuses.map(status => [status.budgetId, status.subjectId, status.state]);
+
+describe('GET /api/budgets', () => {
+  it('evaluates budgets over the rolling period without sending alerts', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: NOW });
+    try {
+      const response = await GET(new NextRequest('http://localhost/api/budgets'));
+      const result: BudgetResponse = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(states(result)).toEqual([
+        ['weekly-user', 'u-carol', 'exceeded'],
+        ['weekly-user', 'u-alice', 'warning'],
+        ['weekly-org', 'org', 'ok'],
+        ['weekly-user', 'u-bob', 'ok'],
+        ['weekly-user', 'u-dave', 'ok'],
+        ['weekly-user', 'u-erin', 'ok'],
+      ]);
+      expect(result.statuses[2]).toMatchObject({ usedHours: 91.5, usedCost: 69.75, periodStart: ACME_WINDOW.startTime });
+      expect(result.notified).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(receiver.messages).toEqual([]);
+    await expect(fs.access(path.join(dir, 'budget-state.json'))).rejects.toThrow();
+  });
+});
+
+describe('runBudgetCheck', () => {
+  it('posts one alert per crossing to the webhook', async () => {
+    const client = createClient()!;
+
+    expect((await runBudgetCheck(client, { now: NOW })).notified).toBe(2);
+    expect(receiver.messages.map(message => message.text)).toEqual([
+      ':rotating_light: Budget "Weekly hours" exceeded for Carol Example: 59.0 of 20 hours (295%) in the last 7 days',
+      ':warning: Budget "Weekly hours" warning for Alice Example: 15.5 of 20 hours (78%) in the last 7 days',
+    ]);
+
+    // The same states on the next check are not crossings.
+    expect((await runBudgetCheck(client, { now: NOW })).notified).toBe(0);
+    expect(receiver.messages).toHaveLength(2);
+  });
+
+  it('retries a crossing whose alert could not be delivered', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = createClient()!;
+
+    receiver.status = 500;
+    expect((await runBudgetCheck(client, { now: NOW })).notified).toBe(0);
+    receiver.status = 200;
+    expect((await runBudgetCheck(client, { now: NOW })).notified).toBe(2);
+    expect(receiver.messages).toHaveLength(4);
+  });
+
+  it('alerts crossings from checks without a webhook once one is configured', async () => {
+    const client = createClient()!;
+
+    expect((await runBudgetCheck(client, { now: NOW, webhookUrl: null })).notified).toBe(0);
+    expect((await runBudgetCheck(client, { now: NOW })).notified).toBe(2);
+    expect(receiver.messages).toHaveLength(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/chargeback/route';
+import { encodeSession, SESSION_COOKIE } from '@/lib/auth';
+import { ChargebackResponse, CostCenterConfig } from '@/lib/types';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+const COST_CENTERS: Omit<CostCenterConfig, 'precedence'> = {
+  costCenters: [
+    { id: 'CC-100', name: 'Platform' },
+    { id: 'CC-200', name: 'Web' },
+    { id: 'CC-300', name: 'Contractors' },
+    { id: 'CC-900', name: 'Shared' },
+  ],
+  rules: [
+    { match: 'emailDomain', value: 'contractor.test', costCenterId: 'CC-300' },
+    { match: 'project', value: 'Web App', costCenterId: 'CC-200' },
+    { match: 'group', value: 'g-platform', costCenterId: 'CC-100' },
+    { match: 'user', value: 'alice@acme.test', costCenterId: 'CC-100' },
+  ],
+  defaultCostCenterId: null,
+};
+
+let server: MockApiServer;
+
+async function getChargeback(params: Record<string, string> = {}, cookie?: string) {
+  const query = new URLSearchParams({ ...ACME_WINDOW, ...params });
+  const response = await GET(new NextRequest(`http://localhost/api/chargeback?${query}`, {
+    headers: cookie ? { cookie: `${SESSION_COOKIE}=${cookie}` } : {},
+  }));
+  return { status: response.status, headers: response.headers, text: await response.text() };
+}
+
+function hoursByCenter(chargeback: ChargebackResponse) {
+  return chargeback.costCenters.map(center => [center.costCenterId, center.totalHours]);
+}
+
+beforeAll(async () => {
+  server = await startMockApiServer(acmeOrganization());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', '{}');
+  vi.stubEnv('ONA_AUTH', 'off');
+  vi.stubEnv('ONA_COST_CENTERS', JSON.stringify(COST_CENTERS));
+});
+
+describe('GET /api/chargeback', () => {
+  it('charges each user and project to the strongest matching rule', async () => {
+    const { status, text } = await getChargeback();
+    const chargeback: ChargebackResponse = JSON.parse(text);
+
+    expect(status).toBe(200);
+    // Carol's Web App usage goes by project, which is stronger than her email domain.
+    expect(hoursByCenter(chargeback)).toEqual([
+      ['CC-100', 27.5],
+      ['CC-200', 60],
+      ['CC-300', 0],
+      ['CC-900', 0],
+      ['unmapped', 4],
+    ]);
+    expect(chargeback.costCenters[0].lines.map(line => [line.userId, line.projectId, line.matchedBy])).toEqual([
+      ['u-bob', 'p-api', 'group'],
+      ['u-alice', 'p-api', 'user'],
+      ['u-alice', 'p-web', 'user'],
+    ]);
+    expect(chargeback.totals).toEqual({ totalHours: 91.5, estimatedCost: 69.75 });
+    expect(chargeback.unmapped).toMatchObject({ totalHours: 4, chargedTo: 'unmapped' });
+    expect(chargeback.unmapped.lines.map(line => [line.userId, line.projectId])).toEqual([['u-dave', 'unassigned']]);
+  });
+
+  it('follows the configured precedence and default cost center', async () => {
+    vi.stubEnv('ONA_COST_CENTERS', JSON.stringify({
+      ...COST_CENTERS,
+      precedence: ['emailDomain', 'group', 'user', 'project'],
+      defaultCostCenterId: 'CC-900',
+    }));
+    const chargeback: ChargebackResponse = JSON.parse((await getChargeback()).text);
+
+    expect(hoursByCenter(chargeback)).toEqual([
+      ['CC-100', 27.5],
+      ['CC-300', 59],
+      ['CC-900', 4],
+      ['CC-200', 1],
+    ]);
+    expect(chargeback.unmapped).toMatchObject({ totalHours: 4, chargedTo: 'CC-900' });
+  });
+
+  it('renders a monthly statement that calls out unmapped usage', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date(ACME_WINDOW.endTime) });
+    try {
+      const { status, headers, text } = await getChargeback({ month: '2025-01', format: 'html' });
+
+      expect(status).toBe(200);
+      expect(headers.get('content-type')).toContain('text/html');
+      expect(headers.get('content-disposition')).toContain('ona-chargeback-2025-01.html');
+      expect(text).toContain('Period: 2025-01-01 – 2025-01-12 (UTC)');
+      expect(text).toContain('4.0 hours ($2.00) matched no cost center rule</strong> and are not allocated');
+      expect(text).toContain('carol@contractor.test');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects invalid months and members before fetching', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await getChargeback({ month: '2025-13' })).status).toBe(400);
+
+    vi.stubEnv('ONA_AUTH', 'on');
+    vi.stubEnv('ONA_SESSION_SECRET', 'test-secret');
+    const bob = encodeSession({
+      userId: 'u-bob',
+      name: 'Bob Example',
+      email: 'bob@acme.test',
+      organizationId: 'org-acme',
+      roles: { 'org-acme': 'member' },
+    });
+    expect((await getChargeback({}, bob)).status).toBe(403);
+    expect((await getChargeback({ organizationId: 'all' }, bob)).status).toBe(403);
+    // Members are turned away before any usage is fetched for them.
+    expect(server.requests).toEqual([]);
+  });
+});
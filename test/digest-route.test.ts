@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/reports/digest/route';
+import { Digest } from '@/lib/digest';
+import { createClient } from '@/lib/ona';
+import { createDirectoryTransport, DigestTransport, sendDigest } from '@/lib/reports';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+let server: MockApiServer;
+
+async function getDigest(params: Record<string, string>) {
+  const response = await GET(new NextRequest(`http://localhost/api/reports/digest?${new URLSearchParams(params)}`));
+  return { status: response.status, headers: response.headers, text: await response.text() };
+}
+
+beforeAll(async () => {
+  server = await startMockApiServer(acmeOrganization());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', '{}');
+  vi.stubEnv('ONA_AUTH', 'off');
+});
+
+describe('GET /api/reports/digest', () => {
+  it('summarizes a range and compares it with the period before', async () => {
+    const { status, text } = await getDigest({ ...ACME_WINDOW, format: 'json' });
+    const digest: Digest = JSON.parse(text);
+
+    expect(status).toBe(200);
+    expect(digest.baselineWindow).toEqual({ startTime: '2024-12-30T00:00:00.000Z', endTime: ACME_WINDOW.startTime });
+    expect(digest.totals).toEqual({ hours: 91.5, estimatedCost: 69.75, users: 5, environments: 6, sessions: 8 });
+    expect(digest.baselineTotals).toMatchObject({ hours: 2, users: 1 });
+    expect(digest.topUsers.map(user => user.userId)).toEqual(['u-carol', 'u-alice', 'u-bob', 'u-dave', 'u-erin']);
+    expect(digest.longestSessions[0]).toMatchObject({ environmentId: 'env-c1', durationHours: 59, inProgress: true });
+  });
+
+  it('renders Markdown and HTML', async () => {
+    const markdown = await getDigest({ ...ACME_WINDOW, format: 'markdown' });
+    const html = await getDigest({ ...ACME_WINDOW });
+
+    expect(markdown.headers.get('content-type')).toContain('text/markdown');
+    expect(markdown.text.split('\n')[0]).toBe('# Ona usage 2025-01-06 – 2025-01-12: 91.5 hours (+4475%)');
+    expect(html.headers.get('content-type')).toContain('text/html');
+    expect(html.text).toContain('Carol Example');
+  });
+
+  it('defaults to the previous full week in the requested timezone', async () => {
+    // Still Sunday evening in Los Angeles, while the UTC week has already ended.
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2025-01-13T05:00:00Z') });
+    let result;
+    try {
+      result = await getDigest({ format: 'json', timezone: 'America/Los_Angeles' });
+    } finally {
+      vi.useRealTimers();
+    }
+    const digest: Digest = JSON.parse(result.text);
+
+    expect(digest.window).toEqual({ startTime: '2024-12-30T08:00:00.000Z', endTime: '2025-01-06T08:00:00.000Z' });
+    expect(digest.timeZone).toBe('America/Los_Angeles');
+  });
+
+  it('rejects unknown formats and timezones', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await getDigest({ ...ACME_WINDOW, format: 'pdf' })).status).toBe(400);
+    expect((await getDigest({ timezone: 'Mars/Olympus' })).status).toBe(400);
+  });
+});
+
+describe('sendDigest', () => {
+  it('hands the digest to every transport, even when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'digests-'));
+    const failing: DigestTransport = {
+      name: 'failing',
+      send: async () => {
+        throw new Error('unreachable');
+      },
+    };
+    try {
+      const rendered = await sendDigest(createClient()!, [failing, createDirectoryTransport(dir)], ACME_WINDOW);
+
+      expect((await fs.readdir(dir)).sort()).toEqual(['digest-2025-01-06.html', 'digest-2025-01-06.md']);
+      expect(await fs.readFile(path.join(dir, 'digest-2025-01-06.md'), 'utf8')).toBe(rendered.markdown);
+      expect(console.error).toHaveBeenCalledWith('Error delivering digest via failing:', expect.any(Error));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/usage/export/route';
+import { encodeSession, SESSION_COOKIE } from '@/lib/auth';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+let server: MockApiServer;
+
+async function exportUsage(params: Record<string, string> = {}, cookie?: string) {
+  const query = new URLSearchParams({ ...ACME_WINDOW, ...params });
+  const response = await GET(new NextRequest(`http://localhost/api/usage/export?${query}`, {
+    headers: cookie ? { cookie: `${SESSION_COOKIE}=${cookie}` } : {},
+  }));
+  return { status: response.status, headers: response.headers, text: await response.text() };
+}
+
+beforeAll(async () => {
+  const organization = acmeOrganization();
+  // Names that need quoting, or would run as a formula in a spreadsheet.
+  organization.members = organization.members.map(member => (
+    member.userId === 'u-alice' ? { ...member, fullName: 'Example, "Al"\nice' }
+      : member.userId === 'u-dave' ? { ...member, fullName: '=HYPERLINK("x")' }
+      : member
+  ));
+  server = await startMockApiServer(organization);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', '{}');
+  vi.stubEnv('ONA_AUTH', 'off');
+});
+
+describe('GET /api/usage/export', () => {
+  it('writes a CSV file with a header and escaped cells', async () => {
+    const { status, headers, text } = await exportUsage();
+
+    expect(status).toBe(200);
+    expect(headers.get('content-type')).toContain('text/csv');
+    expect(headers.get('content-disposition')).toContain('ona-usage-user-2025-01-06-2025-01-13.csv');
+    expect(text).toBe([
+      'userId,userName,email,totalHours,estimatedCost,environmentCount',
+      'u-carol,Carol Example,carol@contractor.test,59,29.5,1',
+      'u-alice,"Example, ""Al""\nice",alice@acme.test,15.5,13.75,2',
+      'u-bob,Bob Example,bob@acme.test,12,24,1',
+      `u-dave,"'=HYPERLINK(""x"")",dave@acme.test,4,2,1`,
+      'u-erin,u-erin,,1,0.5,1',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('returns JSON rows with the window and accounting', async () => {
+    const { status, headers, text } = await exportUsage({ format: 'json', level: 'project' });
+    const body = JSON.parse(text);
+
+    expect(status).toBe(200);
+    expect(headers.get('content-type')).toContain('application/json');
+    expect(body).toMatchObject({
+      level: 'project',
+      startTime: ACME_WINDOW.startTime,
+      endTime: ACME_WINDOW.endTime,
+      timeZone: 'UTC',
+      currency: 'USD',
+      accounting: { countedRecords: 8, malformedRecords: 3 },
+    });
+    expect(body.rows.map((row: { projectId: string; totalHours: number }) => [row.projectId, row.totalHours])).toEqual([
+      ['p-web', 71.5],
+      ['p-api', 16],
+      ['unassigned', 4],
+    ]);
+  });
+
+  it('rejects unknown levels and formats', async () => {
+    expect((await exportUsage({ level: 'planet' })).status).toBe(400);
+    expect((await exportUsage({ format: 'xlsx' })).status).toBe(400);
+  });
+
+  it('exports only their own usage for members', async () => {
+    vi.stubEnv('ONA_AUTH', 'on');
+    vi.stubEnv('ONA_SESSION_SECRET', 'test-secret');
+    const bob = encodeSession({
+      userId: 'u-bob',
+      name: 'Bob Example',
+      email: 'bob@acme.test',
+      organizationId: 'org-acme',
+      roles: { 'org-acme': 'member' },
+    });
+    const { status, text } = await exportUsage({ format: 'ndjson' }, bob);
+
+    expect(status).toBe(200);
+    expect(text.trim().split('\n').map(line => JSON.parse(line).userId)).toEqual(['u-bob']);
+    expect((await exportUsage({ organizationId: 'org-globex' }, bob)).status).toBe(403);
+  });
+
+  it('requires a session when sign-in is on', async () => {
+    vi.stubEnv('ONA_AUTH', 'on');
+    vi.stubEnv('ONA_SESSION_SECRET', 'test-secret');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await exportUsage()).status).toBe(401);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/metrics/route';
+import { buildUsageMetrics, loadMetricsInput } from '@/lib/metrics';
+import { createClient } from '@/lib/ona';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+const USAGE_METHOD = 'UsageService/ListEnvironmentUsageRecords';
+const CAROL = 'user="carol@contractor.test",project="Web App",class="Small",runner="GCP us-east1"';
+
+let server: MockApiServer;
+
+async function scrape(headers: Record<string, string> = {}) {
+  const response = await GET(new NextRequest('http://localhost/api/metrics', { headers }));
+  return { status: response.status, contentType: response.headers.get('content-type'), text: await response.text() };
+}
+
+beforeAll(async () => {
+  server = await startMockApiServer(acmeOrganization());
+  // The metrics window trails "now"; pin it to the end of the Acme week.
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date(ACME_WINDOW.endTime) });
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_AUTH', 'off');
+  vi.stubEnv('ONA_METRICS_WINDOW_HOURS', '168');
+});
+
+describe('GET /api/metrics', () => {
+  it('exposes usage and running gauges with the dashboard accounting', async () => {
+    const { status, contentType, text } = await scrape();
+
+    expect(status).toBe(200);
+    expect(contentType).toContain('text/plain; version=0.0.4');
+    expect(text).toContain('# TYPE ona_environment_usage_hours gauge');
+    expect(text).toContain(`ona_environment_usage_hours{${CAROL}} 59\n`);
+    expect(text).toContain(`ona_environment_usage_cost{${CAROL},currency="USD"} 29.5\n`);
+    expect(text).toContain(`ona_environment_sessions{${CAROL}} 1\n`);
+    expect(text).toContain(`ona_running_environments{${CAROL},phase="ENVIRONMENT_PHASE_RUNNING"} 1\n`);
+    expect(text).toContain('ona_usage_records{status="malformed"} 3\n');
+    expect(text).toContain('ona_metrics_refresh_failures_total 0\n');
+    const hours = Array.from(text.matchAll(/^ona_environment_usage_hours\{.*\} (\S+)$/gm), match => Number(match[1]));
+    expect(hours.reduce((sum, value) => sum + value, 0)).toBeCloseTo(91.5);
+  });
+
+  it('serves scrapes from the snapshot', async () => {
+    await scrape();
+
+    expect(server.requests.filter(request => request.method === USAGE_METHOD)).toHaveLength(0);
+  });
+
+  it('speaks OpenMetrics when asked', async () => {
+    const { contentType, text } = await scrape({ accept: 'application/openmetrics-text; version=1.0.0' });
+
+    expect(contentType).toContain('application/openmetrics-text');
+    expect(text).toContain('# TYPE ona_metrics_refresh_failures counter\n');
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('requires the metrics token when one is set', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('ONA_METRICS_TOKEN', 'scrape-secret');
+
+    expect((await scrape()).status).toBe(401);
+    expect((await scrape({ authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await scrape({ authorization: 'Bearer scrape-secret' })).status).toBe(200);
+  });
+
+  it('refreshes a stale snapshot in the background', async () => {
+    vi.setSystemTime(new Date(ACME_WINDOW.endTime).getTime() + 301 * 1000);
+    const { text } = await scrape();
+
+    expect(text).toContain(`ona_environment_usage_hours{${CAROL}} 59\n`);
+    await vi.waitFor(() => {
+      expect(server.requests.filter(request => request.method === USAGE_METHOD).length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('buildUsageMetrics', () => {
+  it('merges label values beyond the limit into other', async () => {
+    const input = await loadMetricsInput(createClient()!, new Date(ACME_WINDOW.endTime), 168);
+    const [hours] = buildUsageMetrics(input, {
+      windowHours: 168,
+      refreshMs: 60000,
+      labels: ['project'],
+      maxLabelValues: 1,
+    });
+
+    expect(hours.samples).toEqual([
+      { labels: { project: 'Web App' }, value: 71.5 },
+      { labels: { project: 'other' }, value: 20 },
+    ]);
+  });
+});
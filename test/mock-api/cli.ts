@@ -0,0 +1,42 @@
+import { acmeOrganization, globexOrganization } from './fixtures';
+import { generateOrganization } from './generate';
+import { startMockApiServer } from './server';
+
+// Runs the mock API for local development and offline measurements:
+//   npm run mock-api
+//   npm run mock-api -- --users 1000 --days 180 --port 4010
+
+function option(name: string): number | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? Number(process.argv[index + 1]) : undefined;
+}
+
+async function main() {
+  const users = option('users');
+  const days = option('days');
+  const organizations = users || days
+    ? [generateOrganization({ users, days, seed: option('seed'), endTime: new Date().toISOString() })]
+    : [acmeOrganization(), globexOrganization()];
+
+  const server = await startMockApiServer(organizations, {
+    port: option('port') ?? 4010,
+    maxPageSize: option('page-size') ?? 100,
+  });
+
+  console.log(`Mock Ona API listening on ${server.url}`);
+  organizations.forEach(organization => {
+    console.log(
+      `  ${organization.name}: ${organization.records.length} records, ${organization.members.length} members`
+    );
+    console.log(`    GITPOD_BASE_URL=${server.url} ONA_PAT=${organization.token} npm run dev`);
+  });
+
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
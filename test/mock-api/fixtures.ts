@@ -0,0 +1,270 @@
+import { Member, TimeWindow, UsageRecord } from '../../lib/types';
+
+export interface MockProject {
+  id: string;
+  metadata: { name: string };
+}
+
+export interface MockEnvironmentClass {
+  id: string;
+  displayName: string;
+  description?: string;
+}
+
+export interface MockRunner {
+  runnerId: string;
+  name: string;
+  kind?: string;
+  provider?: string;
+  status?: { phase?: string };
+}
+
+export interface MockGroup {
+  id: string;
+  name: string;
+  systemManaged?: boolean;
+  members: { id: string; principal: string }[];
+}
+
+export interface MockEnvironment {
+  id: string;
+  metadata: {
+    name?: string;
+    creator?: { id: string; principal: string };
+    projectId?: string;
+    runnerId?: string;
+    createdAt?: string;
+    lastStartedAt?: string;
+    archivedAt?: string;
+  };
+  spec?: {
+    machine?: { class?: string };
+    content?: {
+      initializer?: {
+        specs?: { git?: { remoteUri?: string; cloneTarget?: string; targetMode?: string }; contextUrl?: { url?: string } }[];
+      };
+    };
+  };
+  status: { phase: string; content?: { git?: { branch?: string } } };
+}
+
+/** Name, source and state of a fixture environment. */
+interface EnvironmentDetails {
+  name?: string;
+  remoteUri?: string;
+  /** Branch the environment was created for; used when `branch` is not set. */
+  cloneTarget?: string;
+  contextUrl?: string;
+  /** Branch currently checked out. */
+  branch?: string;
+  archivedAt?: string;
+}
+
+/** Everything the mock API serves for one organization. */
+export interface MockOrganization {
+  organizationId: string;
+  name: string;
+  /** Bearer token that authenticates as `userId` in this organization. */
+  token: string;
+  userId: string;
+  /** Further tokens, each authenticating as the member whose ID it maps to. */
+  userTokens?: Record<string, string>;
+  /** Members with the admin role; only `userId` when unset. */
+  admins?: string[];
+  members: Member[];
+  records: UsageRecord[];
+  projects: MockProject[];
+  environmentClasses: MockEnvironmentClass[];
+  runners: MockRunner[];
+  groups: MockGroup[];
+  environments?: MockEnvironment[];
+}
+
+export const ACME_TOKEN = 'acme-token';
+/** Personal token of Bob, a regular Acme member. */
+export const BOB_TOKEN = 'bob-token';
+
+/** The week the Acme records are written against. */
+export const ACME_WINDOW: TimeWindow = {
+  startTime: '2025-01-06T00:00:00.000Z',
+  endTime: '2025-01-13T00:00:00.000Z',
+};
+
+export const ACME_RATE_CARD = {
+  currency: 'USD',
+  defaultHourlyRate: 0,
+  rates: { 'cls-small': 0.5, 'cls-large': 2 },
+};
+
+function environment(
+  id: string,
+  userId: string,
+  phase: string,
+  environmentClassId: string,
+  projectId?: string,
+  runnerId?: string,
+  details: EnvironmentDetails = {}
+): MockEnvironment {
+  const { name, remoteUri, cloneTarget, contextUrl, branch, archivedAt } = details;
+  return {
+    id,
+    metadata: { name, creator: { id: userId, principal: 'PRINCIPAL_USER' }, projectId, runnerId, archivedAt },
+    spec: {
+      machine: { class: environmentClassId },
+      content: {
+        initializer: {
+          specs: [
+            ...(remoteUri
+              ? [{ git: { remoteUri, cloneTarget, targetMode: cloneTarget ? 'CLONE_TARGET_MODE_REMOTE_BRANCH' : undefined } }]
+              : []),
+            ...(contextUrl ? [{ contextUrl: { url: contextUrl } }] : []),
+          ],
+        },
+      },
+    },
+    status: { phase, content: branch ? { git: { branch } } : undefined },
+  };
+}
+
+function record(
+  id: string,
+  userId: string | undefined,
+  environmentId: string,
+  environmentClassId: string,
+  createdAt: string,
+  stoppedAt: string | undefined,
+  projectId?: string,
+  runnerId?: string
+): UsageRecord {
+  return { id, userId, environmentId, environmentClassId, createdAt, stoppedAt, projectId, runnerId };
+}
+
+/**
+ * A small organization whose usage in `ACME_WINDOW` covers the cases the
+ * accounting has to handle: sessions clipped at either end of the window, a
+ * running session, a user who is no longer a member and malformed records.
+ * Carol's environment is the one still running.
+ */
+export function acmeOrganization(): MockOrganization {
+  return {
+    organizationId: 'org-acme',
+    name: 'Acme',
+    token: ACME_TOKEN,
+    userId: 'u-alice',
+    userTokens: { [BOB_TOKEN]: 'u-bob' },
+    members: [
+      { userId: 'u-alice', email: 'alice@acme.test', fullName: 'Alice Example' },
+      { userId: 'u-bob', email: 'bob@acme.test', fullName: 'Bob Example' },
+      { userId: 'u-carol', email: 'carol@contractor.test', fullName: 'Carol Example' },
+      { userId: 'u-dave', email: 'dave@acme.test', fullName: 'Dave Example' },
+      { userId: 'u-frank', email: 'frank@acme.test', fullName: 'Frank Example' },
+    ],
+    records: [
+      record('r-01', 'u-alice', 'env-a1', 'cls-small', '2025-01-06T09:00:00Z', '2025-01-06T17:00:00Z', 'p-web', 'r-aws'),
+      record('r-02', 'u-alice', 'env-a1', 'cls-small', '2025-01-07T09:00:00Z', '2025-01-07T12:30:00Z', 'p-web', 'r-aws'),
+      record('r-03', 'u-alice', 'env-a2', 'cls-large', '2025-01-08T10:00:00Z', '2025-01-08T14:00:00Z', 'p-api', 'r-gcp'),
+      // Started before the window.
+      record('r-04', 'u-bob', 'env-b1', 'cls-large', '2025-01-05T22:00:00Z', '2025-01-06T02:00:00Z', 'p-api', 'r-aws'),
+      record('r-05', 'u-bob', 'env-b1', 'cls-large', '2025-01-09T08:00:00Z', '2025-01-09T18:00:00Z', 'p-api', 'r-aws'),
+      // Still running.
+      record('r-06', 'u-carol', 'env-c1', 'cls-small', '2025-01-10T13:00:00Z', undefined, 'p-web', 'r-gcp'),
+      // Ends after the window, no project.
+      record('r-07', 'u-dave', 'env-d1', 'cls-small', '2025-01-12T20:00:00Z', '2025-01-13T04:00:00Z', undefined, 'r-aws'),
+      // Owner has left the organization.
+      record('r-08', 'u-erin', 'env-e1', 'cls-small', '2025-01-11T10:00:00Z', '2025-01-11T11:00:00Z', 'p-web', 'r-aws'),
+      // Malformed: no owner, stopped before it started, unparseable start.
+      record('r-09', undefined, 'env-x1', 'cls-small', '2025-01-07T10:00:00Z', '2025-01-07T11:00:00Z'),
+      record('r-10', 'u-bob', 'env-b2', 'cls-small', '2025-01-08T12:00:00Z', '2025-01-08T11:00:00Z'),
+      record('r-11', 'u-dave', 'env-d2', 'cls-small', 'not-a-date', '2025-01-08T11:00:00Z'),
+    ],
+    projects: [
+      { id: 'p-web', metadata: { name: 'Web App' } },
+      { id: 'p-api', metadata: { name: 'API' } },
+    ],
+    environmentClasses: [
+      { id: 'cls-small', displayName: 'Small', description: '2 cores, 8 GB' },
+      { id: 'cls-large', displayName: 'Large', description: '8 cores, 32 GB' },
+    ],
+    runners: [
+      {
+        runnerId: 'r-aws',
+        name: 'AWS eu-central-1',
+        kind: 'RUNNER_KIND_REMOTE',
+        provider: 'RUNNER_PROVIDER_AWS_EC2',
+        status: { phase: 'RUNNER_PHASE_ACTIVE' },
+      },
+      {
+        runnerId: 'r-gcp',
+        name: 'GCP us-east1',
+        kind: 'RUNNER_KIND_REMOTE',
+        provider: 'RUNNER_PROVIDER_GCP',
+        status: { phase: 'RUNNER_PHASE_INACTIVE' },
+      },
+    ],
+    groups: [
+      {
+        id: 'g-everyone',
+        name: 'Everyone',
+        systemManaged: true,
+        members: ['u-alice', 'u-bob', 'u-carol', 'u-dave', 'u-frank'].map(id => ({ id, principal: 'PRINCIPAL_USER' })),
+      },
+      {
+        id: 'g-platform',
+        name: 'Platform',
+        members: [
+          { id: 'u-alice', principal: 'PRINCIPAL_USER' },
+          { id: 'u-bob', principal: 'PRINCIPAL_USER' },
+          { id: 'sa-deploy', principal: 'PRINCIPAL_SERVICE_ACCOUNT' },
+        ],
+      },
+      {
+        id: 'g-frontend',
+        name: 'Frontend',
+        members: [{ id: 'u-carol', principal: 'PRINCIPAL_USER' }],
+      },
+    ],
+    // Erin's environment has been deleted and the malformed records' never existed.
+    environments: [
+      environment('env-a1', 'u-alice', 'ENVIRONMENT_PHASE_STOPPED', 'cls-small', 'p-web', 'r-aws', {
+        name: 'web',
+        remoteUri: 'https://github.com/acme/web.git',
+        branch: 'main',
+      }),
+      environment('env-a2', 'u-alice', 'ENVIRONMENT_PHASE_STOPPED', 'cls-large', 'p-api', 'r-gcp', {
+        name: 'api-auth',
+        remoteUri: 'git@github.com:acme/api.git',
+        cloneTarget: 'auth-refactor',
+        archivedAt: '2025-01-10T00:00:00Z',
+      }),
+      environment('env-b1', 'u-bob', 'ENVIRONMENT_PHASE_STOPPED', 'cls-large', 'p-api', 'r-aws', {
+        name: 'api',
+        contextUrl: 'https://github.com/acme/api/tree/main',
+        branch: 'main',
+      }),
+      environment('env-c1', 'u-carol', 'ENVIRONMENT_PHASE_RUNNING', 'cls-small', 'p-web', 'r-gcp', {
+        name: 'web-redesign',
+        remoteUri: 'https://github.com/acme/web',
+        branch: 'redesign',
+      }),
+      environment('env-d1', 'u-dave', 'ENVIRONMENT_PHASE_STOPPED', 'cls-small', undefined, 'r-aws', { name: 'scratch' }),
+    ],
+  };
+}
+
+/** A second organization, reachable only with its own token. */
+export function globexOrganization(): MockOrganization {
+  return {
+    organizationId: 'org-globex',
+    name: 'Globex',
+    token: 'globex-token',
+    userId: 'u-hank',
+    members: [{ userId: 'u-hank', email: 'hank@globex.test', fullName: 'Hank Example' }],
+    records: [
+      record('g-01', 'u-hank', 'env-h1', 'cls-small', '2025-01-07T09:00:00Z', '2025-01-07T11:00:00Z'),
+    ],
+    projects: [],
+    environmentClasses: [{ id: 'cls-small', displayName: 'Small' }],
+    runners: [],
+    groups: [],
+  };
+}
@@ -0,0 +1,138 @@
+import { UsageRecord } from '../../lib/types';
+import { MockEnvironment, MockOrganization } from './fixtures';
+
+export interface GenerateOptions {
+  users?: number;
+  days?: number;
+  /** Average sessions per user per day. */
+  sessionsPerUserDay?: number;
+  projects?: number;
+  environmentClasses?: number;
+  runners?: number;
+  teams?: number;
+  /** Share of records that are malformed, from 0 to 1. */
+  malformedRate?: number;
+  /** Exclusive end of the generated period. */
+  endTime?: string;
+  seed?: number;
+  token?: string;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** mulberry32: small, fast and good enough for synthetic data. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pad = (value: number, width = 4) => String(value).padStart(width, '0');
+
+/**
+ * Builds a synthetic organization for load and performance testing. The same
+ * options always produce the same organization. Each user has a couple of
+ * environments and works mostly in office hours; a few sessions run for days.
+ */
+export function generateOrganization(options: GenerateOptions = {}): MockOrganization {
+  const {
+    users = 200,
+    days = 90,
+    sessionsPerUserDay = 2,
+    projects = 20,
+    environmentClasses = 4,
+    runners = 3,
+    teams = 10,
+    malformedRate = 0.005,
+    endTime = '2025-04-01T00:00:00.000Z',
+    seed = 1,
+    token = 'synthetic-token',
+  } = options;
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const end = new Date(endTime).getTime();
+  const start = end - days * DAY;
+
+  const userIds = Array.from({ length: users }, (_, index) => `u-${pad(index)}`);
+  const projectIds = Array.from({ length: projects }, (_, index) => `p-${pad(index)}`);
+  const classIds = Array.from({ length: environmentClasses }, (_, index) => `cls-${pad(index)}`);
+  const runnerIds = Array.from({ length: runners }, (_, index) => `r-${pad(index)}`);
+
+  const records: UsageRecord[] = [];
+  const mockEnvironments: MockEnvironment[] = [];
+  userIds.forEach((userId, userIndex) => {
+    const environments = Array.from({ length: 1 + Math.floor(random() * 3) }, (_, index) => ({
+      environmentId: `env-${pad(userIndex)}-${index}`,
+      projectId: random() < 0.9 ? pick(projectIds) : undefined,
+      environmentClassId: pick(classIds),
+      runnerId: pick(runnerIds),
+    }));
+    // Each project has its own repository; environments without one start empty.
+    environments.forEach(({ environmentId, projectId, environmentClassId, runnerId }) => mockEnvironments.push({
+      id: environmentId,
+      metadata: { name: environmentId.slice(4), creator: { id: userId, principal: 'PRINCIPAL_USER' }, projectId, runnerId },
+      spec: {
+        machine: { class: environmentClassId },
+        content: {
+          initializer: { specs: projectId ? [{ git: { remoteUri: `https://github.com/synthetic/${projectId}.git` } }] : [] },
+        },
+      },
+      status: { phase: 'ENVIRONMENT_PHASE_STOPPED' },
+    }));
+
+    for (let day = 0; day < days; day++) {
+      const sessions = Math.round(random() * sessionsPerUserDay * 2);
+      for (let session = 0; session < sessions; session++) {
+        const createdAt = start + day * DAY + (7 + random() * 12) * HOUR;
+        const hours = random() < 0.02 ? 24 + random() * 72 : 0.25 + random() * 6;
+        const stoppedAt = createdAt + hours * HOUR;
+        const record: UsageRecord = {
+          id: `rec-${pad(records.length, 8)}`,
+          userId,
+          ...pick(environments),
+          createdAt: new Date(createdAt).toISOString(),
+          stoppedAt: stoppedAt < end ? new Date(stoppedAt).toISOString() : undefined,
+        };
+        if (random() < malformedRate) {
+          record.stoppedAt = new Date(createdAt - HOUR).toISOString();
+        }
+        records.push(record);
+      }
+    }
+  });
+
+  return {
+    organizationId: `org-synthetic-${seed}`,
+    name: `Synthetic (${users} users, ${days} days)`,
+    token,
+    userId: userIds[0],
+    members: userIds.map(userId => ({
+      userId,
+      email: `${userId}@synthetic.test`,
+      fullName: `User ${userId.slice(2)}`,
+    })),
+    records,
+    projects: projectIds.map(id => ({ id, metadata: { name: `Project ${id.slice(2)}` } })),
+    environmentClasses: classIds.map(id => ({ id, displayName: `Class ${id.slice(4)}` })),
+    runners: runnerIds.map(runnerId => ({
+      runnerId,
+      name: `Runner ${runnerId.slice(2)}`,
+      kind: 'RUNNER_KIND_REMOTE',
+      status: { phase: 'RUNNER_PHASE_ACTIVE' },
+    })),
+    groups: Array.from({ length: teams }, (_, index) => ({
+      id: `g-${pad(index)}`,
+      name: `Team ${index}`,
+      members: userIds
+        .filter(() => random() < 1.5 / teams)
+        .map(id => ({ id, principal: 'PRINCIPAL_USER' })),
+    })),
+    environments: mockEnvironments,
+  };
+}
@@ -0,0 +1,339 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MockOrganization } from './fixtures';
+
+export interface MockFailure {
+  status: number;
+  /** Connect error code, e.g. `permission_denied`. */
+  code?: string;
+  message?: string;
+  /** How many calls fail before the method works again; every call when unset. */
+  times?: number;
+  /** How many calls succeed before the failures start. */
+  after?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  query: Record<string, string>;
+  body: JsonObject;
+}
+
+export interface MockApiServerOptions {
+  /** Largest page returned by list methods, whatever the client asks for. */
+  maxPageSize?: number;
+  port?: number;
+}
+
+export interface MockApiServer {
+  /** Base URL to pass to the SDK as `baseURL` or `GITPOD_BASE_URL`. */
+  url: string;
+  /** Every call received, in order. */
+  requests: MockRequest[];
+  fail(method: string, failure: MockFailure): void;
+  /** Clears failures and the request log. */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_MAX_PAGE_SIZE = 5;
+
+class MockError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** `userId` is the member the bearer token authenticates as. */
+type Handler = (organization: MockOrganization, body: JsonObject, page: PageRequest, userId: string) => unknown;
+
+interface PageRequest {
+  token?: string;
+  pageSize: number;
+}
+
+/** Cursor pagination the way the API does it: an opaque `nextToken`, empty on the last page. */
+function paginate<T>(key: string, items: T[], page: PageRequest): Record<string, unknown> {
+  const offset = page.token ? Number(page.token) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new MockError(400, 'invalid_argument', `invalid page token: ${page.token}`);
+  }
+  const end = offset + page.pageSize;
+  return {
+    [key]: items.slice(offset, end),
+    pagination: { nextToken: end < items.length ? String(end) : '' },
+  };
+}
+
+function objectOf(value: unknown): JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonObject) : {};
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function stringsOf(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : undefined;
+}
+
+function parseTime(value: string | undefined): number {
+  return value ? new Date(value).getTime() : NaN;
+}
+
+/** Records overlapping the requested range; unparseable records are always returned. */
+function recordsInRange(organization: MockOrganization, filter: unknown) {
+  const { dateRange, projectId } = objectOf(filter);
+  const start = parseTime(stringOf(objectOf(dateRange).startTime));
+  const end = parseTime(stringOf(objectOf(dateRange).endTime));
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    throw new MockError(400, 'invalid_argument', 'filter.dateRange.startTime and endTime are required');
+  }
+  return organization.records.filter(record => {
+    if (projectId && record.projectId !== projectId) {
+      return false;
+    }
+    const createdAt = parseTime(record.createdAt);
+    const stoppedAt = record.stoppedAt ? parseTime(record.stoppedAt) : Infinity;
+    if (Number.isNaN(createdAt) || Number.isNaN(stoppedAt)) {
+      return true;
+    }
+    return createdAt < end && stoppedAt >= start;
+  });
+}
+
+function roleOf(organization: MockOrganization, userId: string): string {
+  return (organization.admins || [organization.userId]).includes(userId)
+    ? 'ORGANIZATION_ROLE_ADMIN'
+    : 'ORGANIZATION_ROLE_MEMBER';
+}
+
+/** The organization and member a bearer token authenticates as. */
+function authenticate(organizations: MockOrganization[], token: string) {
+  for (const organization of organizations) {
+    if (organization.token === token) {
+      return { organization, userId: organization.userId };
+    }
+    const userId = organization.userTokens?.[token];
+    if (userId) {
+      return { organization, userId };
+    }
+  }
+  return null;
+}
+
+function handlersFor(organizations: MockOrganization[]): Record<string, Handler> {
+  // Each page repeats the same filter; large synthetic organizations make recomputing it slow.
+  const usageQueries = new Map<string, unknown[]>();
+  const recordsFor = (organization: MockOrganization, filter: unknown) => {
+    const key = `${organization.organizationId}:${JSON.stringify(filter)}`;
+    if (!usageQueries.has(key)) {
+      usageQueries.set(key, recordsInRange(organization, filter));
+    }
+    return usageQueries.get(key)!;
+  };
+
+  return {
+    'IdentityService/GetAuthenticatedIdentity': (organization, _, __, userId) => ({
+      organizationId: organization.organizationId,
+      subject: { id: userId, principal: 'PRINCIPAL_USER' },
+    }),
+    'AccountService/GetAccount': (organization, _, __, userId) => {
+      const member = organization.members.find(entry => entry.userId === userId);
+      return {
+        account: {
+          id: userId,
+          email: member?.email,
+          name: member?.fullName,
+          memberships: organizations
+            .filter(entry => entry.members.some(candidate => candidate.userId === userId))
+            .map(entry => ({
+              organizationId: entry.organizationId,
+              organizationName: entry.name,
+              userId,
+              userRole: roleOf(entry, userId),
+            })),
+        },
+      };
+    },
+    'OrganizationService/GetOrganization': (_, body) => {
+      const organization = organizations.find(entry => entry.organizationId === body.organizationId);
+      if (!organization) {
+        throw new MockError(404, 'not_found', `organization ${body.organizationId} not found`);
+      }
+      return { organization: { id: organization.organizationId, name: organization.name } };
+    },
+    'OrganizationService/ListMembers': (organization, body, page) => {
+      if (body.organizationId !== organization.organizationId) {
+        throw new MockError(403, 'permission_denied', `not a member of organization ${body.organizationId}`);
+      }
+      return paginate(
+        'members',
+        organization.members.map(member => ({ ...member, role: roleOf(organization, member.userId) })),
+        page
+      );
+    },
+    'UsageService/ListEnvironmentUsageRecords': (organization, body, page) =>
+      paginate('records', recordsFor(organization, body.filter), page),
+    'ProjectService/ListProjects': (organization, body, page) => {
+      const projectIds = stringsOf(objectOf(body.filter).projectIds);
+      const projects = projectIds
+        ? organization.projects.filter(project => projectIds.includes(project.id))
+        : organization.projects;
+      return paginate('projects', projects, page);
+    },
+    'EnvironmentService/ListEnvironmentClasses': (organization, _, page) =>
+      paginate('environmentClasses', organization.environmentClasses, page),
+    'EnvironmentService/ListEnvironments': (organization, body, page) => {
+      const filter = objectOf(body.filter);
+      const phases = stringsOf(filter.statusPhases);
+      const archivalStatus = stringOf(filter.archivalStatus) || 'ARCHIVAL_STATUS_ACTIVE';
+      const environments = (organization.environments || []).filter(
+        environment => (!phases?.length || phases.includes(environment.status.phase)) &&
+          (archivalStatus === 'ARCHIVAL_STATUS_ALL' ||
+            (archivalStatus === 'ARCHIVAL_STATUS_ARCHIVED') === !!environment.metadata.archivedAt)
+      );
+      return paginate('environments', environments, page);
+    },
+    'EnvironmentService/GetEnvironment': (organization, body) => {
+      const environment = organization.environments?.find(entry => entry.id === body.environmentId);
+      if (!environment) {
+        throw new MockError(404, 'not_found', `environment ${body.environmentId} not found`);
+      }
+      return { environment };
+    },
+    'RunnerService/ListRunners': (organization, _, page) => paginate('runners', organization.runners, page),
+    'GroupService/ListGroups': (organization, _, page) =>
+      paginate(
+        'groups',
+        organization.groups.map(({ members, ...group }) => group),
+        page
+      ),
+    'GroupService/ListMemberships': (organization, body, page) => {
+      const group = organization.groups.find(entry => entry.id === body.groupId);
+      if (!group) {
+        throw new MockError(404, 'not_found', `group ${body.groupId} not found`);
+      }
+      return paginate(
+        'members',
+        group.members.map(subject => ({ groupId: group.id, subject })),
+        page
+      );
+    },
+  };
+}
+
+function readBody(request: IncomingMessage): Promise<JsonObject> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => {
+      data += chunk;
+    });
+    request.on('end', () => {
+      let body: unknown;
+      try {
+        body = data ? JSON.parse(data) : {};
+      } catch {
+        reject(new MockError(400, 'invalid_argument', 'request body is not valid JSON'));
+        return;
+      }
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        reject(new MockError(400, 'invalid_argument', 'request body must be a JSON object'));
+        return;
+      }
+      resolve(body as JsonObject);
+    });
+    request.on('error', reject);
+  });
+}
+
+function send(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Serves the Connect endpoints the dashboard calls from in-memory fixtures.
+ * Each organization and member is selected by its bearer token. Requests
+ * follow the SDK's wire format: `POST /gitpod.v1.<Service>/<Method>` with a
+ * JSON body and `token`/`pageSize` in the query string.
+ */
+export async function startMockApiServer(
+  fixtures: MockOrganization | MockOrganization[],
+  options: MockApiServerOptions = {}
+): Promise<MockApiServer> {
+  const organizations = Array.isArray(fixtures) ? fixtures : [fixtures];
+  const maxPageSize = options.maxPageSize ?? DEFAULT_MAX_PAGE_SIZE;
+  const handlers = handlersFor(organizations);
+  const requests: MockRequest[] = [];
+  const failures = new Map<string, MockFailure>();
+
+  const server = createServer(async (request, response) => {
+    try {
+      const url = new URL(request.url || '/', 'http://localhost');
+      const method = url.pathname.replace(/^\/gitpod\.v1\./, '');
+      const query = Object.fromEntries(url.searchParams);
+      const body = await readBody(request);
+      requests.push({ method, query, body });
+
+      const failure = failures.get(method);
+      if (failure?.after) {
+        failure.after--;
+      } else if (failure) {
+        if (failure.times !== undefined && --failure.times <= 0) {
+          failures.delete(method);
+        }
+        // Keep the SDK's automatic retries fast.
+        throw new MockError(failure.status, failure.code || 'internal', failure.message || 'injected failure', {
+          'retry-after-ms': '1',
+        });
+      }
+
+      const handler = handlers[method];
+      if (request.method !== 'POST' || !handler) {
+        throw new MockError(404, 'unimplemented', `${request.method} ${url.pathname} is not implemented`);
+      }
+      const token = (request.headers.authorization || '').replace(/^Bearer /, '');
+      const caller = authenticate(organizations, token);
+      if (!caller) {
+        throw new MockError(401, 'unauthenticated', 'invalid access token');
+      }
+
+      const requestedPageSize = Number(query.pageSize ?? objectOf(body.pagination).pageSize) || maxPageSize;
+      const page = { token: query.token, pageSize: Math.min(requestedPageSize, maxPageSize) };
+      send(response, 200, handler(caller.organization, body, page, caller.userId));
+    } catch (error: any) {
+      if (error instanceof MockError) {
+        send(response, error.status, { code: error.code, message: error.message }, error.headers);
+      } else {
+        send(response, 500, { code: 'internal', message: error?.message || 'mock server error' });
+      }
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    fail(method, failure) {
+      failures.set(method, { ...failure });
+    },
+    reset() {
+      failures.clear();
+      requests.length = 0;
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
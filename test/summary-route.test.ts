@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/v1/summary/route';
+import { SummaryResponse } from '@/lib/types';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+let server: MockApiServer;
+
+async function getSummary(params: Record<string, string> = {}) {
+  const query = new URLSearchParams({ ...ACME_WINDOW, ...params });
+  const response = await GET(new NextRequest(`http://localhost/api/v1/summary?${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  server = await startMockApiServer(acmeOrganization());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', '{}');
+  vi.stubEnv('ONA_AUTH', 'off');
+});
+
+describe('GET /api/v1/summary', () => {
+  it('returns user rows with totals and metadata', async () => {
+    const { status, body } = await getSummary();
+    const summary = body as SummaryResponse<'user'>;
+
+    expect(status).toBe(200);
+    expect(summary.apiVersion).toBe('v1');
+    expect(summary.rows.map(row => [row.userId, row.totalHours])).toEqual([
+      ['u-carol', 59],
+      ['u-alice', 15.5],
+      ['u-bob', 12],
+      ['u-dave', 4],
+      ['u-erin', 1],
+    ]);
+    expect(summary.rows[1]).toMatchObject({
+      userName: 'Alice Example',
+      email: 'alice@acme.test',
+      estimatedCost: 13.75,
+      sessionCount: 3,
+      environmentCount: 2,
+    });
+    expect(summary.totals).toEqual({
+      totalHours: 91.5,
+      estimatedCost: 69.75,
+      sessionCount: 8,
+      userCount: 5,
+      environmentCount: 6,
+    });
+    expect(summary.metadata).toMatchObject({
+      organizationIds: ['org-acme'],
+      window: ACME_WINDOW,
+      currency: 'USD',
+      sort: 'hours',
+      order: 'desc',
+      accounting: { countedRecords: 8, malformedRecords: 3 },
+    });
+  });
+
+  it('groups by other dimensions', async () => {
+    const { body } = await getSummary({ groupBy: 'project' });
+    const summary = body as SummaryResponse<'project'>;
+
+    expect(summary.rows.map(row => [row.projectId, row.totalHours, row.userCount])).toEqual([
+      ['p-web', 71.5, 3],
+      ['p-api', 16, 2],
+      ['unassigned', 4, 1],
+    ]);
+    expect(summary.rows.reduce((sum, row) => sum + row.shareOfTotal, 0)).toBeCloseTo(1);
+  });
+
+  it('groups environments of the same repository together', async () => {
+    const repositories = (await getSummary({ groupBy: 'repository' })).body as SummaryResponse<'repository'>;
+    const environments = (await getSummary({ groupBy: 'environment' })).body as SummaryResponse<'environment'>;
+
+    // Deleted and empty environments have no repository.
+    expect(repositories.rows.map(row => [row.repositoryName, row.totalHours, row.environmentCount])).toEqual([
+      ['github.com/acme/web', 70.5, 2],
+      ['github.com/acme/api', 16, 2],
+      ['No repository', 5, 2],
+    ]);
+    expect(environments.rows.find(row => row.environmentId === 'env-a2')).toMatchObject({
+      environmentName: 'api-auth',
+      repository: 'github.com/acme/api',
+      branch: 'auth-refactor',
+      archived: true,
+      deleted: false,
+    });
+    expect(environments.rows.find(row => row.environmentId === 'env-e1')).toMatchObject({ deleted: true });
+  });
+
+  it('applies filters, sorting and pagination', async () => {
+    const first = (await getSummary({ sort: 'name', pageSize: '2' })).body as SummaryResponse<'user'>;
+    const last = (await getSummary({ sort: 'name', pageSize: '2', pageToken: '4' })).body as SummaryResponse<'user'>;
+    const filtered = (await getSummary({ project: 'p-api' })).body as SummaryResponse<'user'>;
+
+    expect(first.rows.map(row => row.userId)).toEqual(['u-alice', 'u-bob']);
+    expect(first.pagination).toEqual({ pageSize: 2, totalRows: 5, nextPageToken: '2' });
+    expect(first.totals.totalHours).toBe(91.5);
+    expect(last.rows.map(row => row.userId)).toEqual(['u-erin']);
+    expect(last.pagination.nextPageToken).toBeNull();
+    expect(filtered.rows.map(row => row.userId)).toEqual(['u-bob', 'u-alice']);
+    expect(filtered.metadata.filters).toEqual({ projectId: 'p-api' });
+  });
+
+  it('reports invalid parameters with the error shape', async () => {
+    const { status, body } = await getSummary({ groupBy: 'planet' });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({
+      error: {
+        code: 'invalid_argument',
+        message: 'groupBy must be one of user, environment, repository, project, environmentClass, runner, team',
+        status: 400,
+      },
+    });
+    expect((await getSummary({ pageToken: '-1' })).body.error.code).toBe('invalid_argument');
+    expect((await getSummary({ pageSize: '5000' })).status).toBe(400);
+    expect((await getSummary({ range: 'custom' })).body.error.code).toBe('invalid_argument');
+  });
+
+  it('requires a session when sign-in is on', async () => {
+    vi.stubEnv('ONA_AUTH', 'on');
+    const { status, body } = await getSummary();
+
+    expect(status).toBe(401);
+    expect(body.error.code).toBe('unauthenticated');
+  });
+});
@@ -0,0 +1,50 @@
+import { afterAll, bench, describe } from 'vitest';
+import Gitpod from '@gitpod/sdk';
+import { accountSessions } from '../lib/accounting';
+import { aggregateByEnvironment, aggregateByUser, aggregateTimeSeries, seriesKeyForGroupBy } from '../lib/aggregation';
+import { fetchUsage } from '../lib/ona';
+import { generateOrganization } from './mock-api/generate';
+import { startMockApiServer } from './mock-api/server';
+
+// A 500-person organization over a quarter, about 90k records.
+const organization = generateOrganization({ users: 500, days: 90 });
+const window = { startTime: '2025-01-01T00:00:00.000Z', endTime: '2025-04-01T00:00:00.000Z' };
+const options = { window, now: new Date(window.endTime) };
+
+describe(`aggregation over ${organization.records.length} records`, () => {
+  bench('accountSessions', () => {
+    accountSessions(organization.records, options);
+  });
+
+  bench('aggregateByUser', () => {
+    aggregateByUser(organization.records, organization.members, options);
+  });
+
+  bench('aggregateByEnvironment', () => {
+    aggregateByEnvironment(organization.records, organization.members, options);
+  });
+
+  bench('aggregateTimeSeries by day', () => {
+    const seriesOf = seriesKeyForGroupBy('user', {
+      members: organization.members,
+      projects: [],
+      environmentClasses: [],
+      runners: [],
+      teams: [],
+      environments: [],
+    });
+    aggregateTimeSeries(organization.records, 'day', seriesOf, { ...options, timeZone: 'UTC' });
+  });
+});
+
+describe('fetching through the mock API', async () => {
+  process.env.ONA_USAGE_STORE = 'off';
+  const server = await startMockApiServer(organization, { maxPageSize: 100 });
+  const client = new Gitpod({ baseURL: server.url, bearerToken: organization.token, maxRetries: 0 });
+  const month = { startTime: '2025-03-01T00:00:00.000Z', endTime: '2025-04-01T00:00:00.000Z' };
+  afterAll(() => server.close());
+
+  bench('fetchUsage for one month', async () => {
+    await fetchUsage(client, month);
+  }, { iterations: 3, time: 0 });
+});
@@ -0,0 +1,430 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/usage/route';
+import { aggregateByUser } from '@/lib/aggregation';
+import { encodeSession, SESSION_COOKIE } from '@/lib/auth';
+import { normalizeRepository, splitWindow } from '@/lib/ona';
+import { UsageRecord, UsageResponse, UsageStreamEvent } from '@/lib/types';
+import { acmeOrganization, ACME_RATE_CARD, ACME_TOKEN, ACME_WINDOW, globexOrganization } from './mock-api/fixtures';
+import { MockApiServer, startMockApiServer } from './mock-api/server';
+
+const USAGE_METHOD = 'UsageService/ListEnvironmentUsageRecords';
+const LIST_ENVIRONMENTS_METHOD = 'EnvironmentService/ListEnvironments';
+const GET_ENVIRONMENT_METHOD = 'EnvironmentService/GetEnvironment';
+
+let server: MockApiServer;
+
+async function getUsage(params: Record<string, string> = { ...ACME_WINDOW }) {
+  const response = await GET(new NextRequest(`http://localhost/api/usage?${new URLSearchParams(params)}`));
+  return { status: response.status, body: await response.json() };
+}
+
+async function streamUsage(params: Record<string, string> = { ...ACME_WINDOW }, cookie?: string) {
+  const response = await GET(new NextRequest(`http://localhost/api/usage?${new URLSearchParams(params)}`, {
+    headers: { accept: 'application/x-ndjson', ...(cookie ? { cookie: `${SESSION_COOKIE}=${cookie}` } : {}) },
+  }));
+  const text = await response.text();
+  const events: UsageStreamEvent[] = text.trim().split('\n').map(line => JSON.parse(line));
+  const records = events.flatMap(event => (event.type === 'records' ? event.records : []));
+  return { status: response.status, contentType: response.headers.get('content-type'), events, records };
+}
+
+beforeAll(async () => {
+  server = await startMockApiServer([acmeOrganization(), globexOrganization()]);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.stubEnv('GITPOD_BASE_URL', server.url);
+  vi.stubEnv('ONA_PAT', ACME_TOKEN);
+  vi.stubEnv('ONA_USAGE_STORE', 'off');
+  vi.stubEnv('ONA_RATE_CARD', JSON.stringify(ACME_RATE_CARD));
+  vi.stubEnv('ONA_ORGANIZATION_TOKENS', '{}');
+  vi.stubEnv('ONA_AUTH', 'off');
+});
+
+describe('GET /api/usage', () => {
+  it('pages through records and joins the lookups', async () => {
+    const { status, body } = await getUsage();
+    const data = body as UsageResponse;
+
+    expect(status).toBe(200);
+    expect(data.organizationIds).toEqual(['org-acme']);
+    expect(data.usageRecords.map(record => record.id)).toEqual(acmeOrganization().records.map(record => record.id));
+    expect(server.requests.filter(request => request.method === USAGE_METHOD)).toHaveLength(3);
+    expect(data.members).toHaveLength(5);
+    expect(data.projects).toEqual([
+      { projectId: 'p-web', name: 'Web App' },
+      { projectId: 'p-api', name: 'API' },
+    ]);
+    expect(data.environmentClasses.map(environmentClass => environmentClass.name)).toEqual(['Small', 'Large']);
+    expect(data.runners.map(runner => [runner.runnerId, runner.phase])).toEqual([
+      ['r-aws', 'RUNNER_PHASE_ACTIVE'],
+      ['r-gcp', 'RUNNER_PHASE_INACTIVE'],
+    ]);
+    expect(data.teams).toEqual([
+      { teamId: 'g-platform', name: 'Platform', memberIds: ['u-alice', 'u-bob'] },
+      { teamId: 'g-frontend', name: 'Frontend', memberIds: ['u-carol'] },
+    ]);
+  });
+
+  it('reports malformed, clipped and running records in the accounting summary', async () => {
+    const { body } = await getUsage();
+
+    expect(body.accounting).toEqual({
+      totalRecords: 11,
+      countedRecords: 8,
+      clippedRecords: 3,
+      openRecords: 1,
+      malformedRecords: 3,
+      outOfRangeRecords: 0,
+    });
+  });
+
+  it('returns what the dashboard needs to reproduce the totals', async () => {
+    const data: UsageResponse = (await getUsage()).body;
+    const users = aggregateByUser(data.usageRecords, data.members, {
+      window: data.window,
+      now: new Date(data.asOf),
+      rateCard: data.rateCard,
+    });
+
+    expect(users.find(user => user.userId === 'u-alice')).toMatchObject({ totalHours: 15.5, estimatedCost: 13.75 });
+  });
+
+  it('applies filters on the server', async () => {
+    const { body } = await getUsage({ ...ACME_WINDOW, project: 'p-api' });
+
+    expect(body.usageRecords.map((record: { id: string }) => record.id)).toEqual(['r-03', 'r-04', 'r-05']);
+    expect(body.accounting.totalRecords).toBe(3);
+  });
+
+  it('resolves named ranges in the requested timezone', async () => {
+    const { status, body } = await getUsage({ range: 'custom', from: '2025-01-06', to: '2025-01-12', timezone: 'UTC' });
+
+    expect(status).toBe(200);
+    expect(body.window).toEqual(ACME_WINDOW);
+    expect(body.timeZone).toBe('UTC');
+  });
+
+  it('rejects missing or invalid ranges', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await getUsage({})).status).toBe(400);
+    expect((await getUsage({ range: 'custom' })).status).toBe(400);
+    expect((await getUsage({ range: 'today', timezone: 'Nowhere/Special' })).status).toBe(400);
+  });
+
+  it('fails when no access token is configured', async () => {
+    vi.stubEnv('ONA_PAT', '');
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(500);
+    expect(body.error).toBe('ONA_PAT environment variable is not set');
+  });
+
+  it('retries transient upstream failures', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.fail(USAGE_METHOD, { status: 503, code: 'unavailable', times: 1 });
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(200);
+    expect(body.usageRecords).toHaveLength(11);
+  });
+
+  it('surfaces upstream errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.fail(USAGE_METHOD, { status: 403, code: 'permission_denied', message: 'usage access denied' });
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(500);
+    expect(body.error).toContain('usage access denied');
+    expect(server.requests.filter(request => request.method === USAGE_METHOD)).toHaveLength(1);
+  });
+
+  it('still returns usage when a lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.fail('OrganizationService/ListMembers', { status: 500 });
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(200);
+    expect(body.usageRecords).toHaveLength(11);
+    expect(body.members).toEqual([]);
+    expect(body.warnings).toEqual([{
+      code: 'lookup_unavailable',
+      message: expect.stringContaining('Member names unavailable'),
+      organizationId: 'org-acme',
+    }]);
+  });
+
+  it('looks up the name, repository and state of each environment', async () => {
+    const { body } = await getUsage();
+    const environments = new Map((body as UsageResponse).environments.map(environment => [
+      environment.environmentId,
+      environment,
+    ]));
+
+    expect(environments.size).toBe(9);
+    expect(environments.get('env-a1')).toEqual({
+      environmentId: 'env-a1',
+      name: 'web',
+      userId: 'u-alice',
+      repository: 'github.com/acme/web',
+      branch: 'main',
+      phase: 'ENVIRONMENT_PHASE_STOPPED',
+      archived: false,
+      deleted: false,
+    });
+    expect(environments.get('env-a2')).toMatchObject({ repository: 'github.com/acme/api', branch: 'auth-refactor', archived: true });
+    expect(environments.get('env-b1')).toMatchObject({
+      repository: 'github.com/acme/api',
+      contextUrl: 'https://github.com/acme/api/tree/main',
+    });
+    expect(environments.get('env-d1')).toMatchObject({ name: 'scratch' });
+    expect(environments.get('env-d1')).not.toHaveProperty('repository');
+    expect(environments.get('env-e1')).toEqual({ environmentId: 'env-e1', archived: false, deleted: true });
+  });
+
+  it('reuses environment details until they expire, and deleted ones for a day', async () => {
+    await getUsage();
+    server.reset();
+    await getUsage();
+
+    expect(server.requests.filter(request => request.method === LIST_ENVIRONMENTS_METHOD)).toHaveLength(0);
+    expect(server.requests.filter(request => request.method === GET_ENVIRONMENT_METHOD)).toHaveLength(0);
+
+    vi.stubEnv('ONA_ENVIRONMENT_CACHE_SECONDS', '0');
+    await getUsage();
+
+    expect(server.requests.filter(request => request.method === LIST_ENVIRONMENTS_METHOD)).toHaveLength(1);
+    expect(server.requests.filter(request => request.method === GET_ENVIRONMENT_METHOD)).toHaveLength(0);
+  });
+
+  it('looks deleted environments up again once they expire', async () => {
+    await getUsage();
+    server.reset();
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.now() + 25 * 60 * 60 * 1000 });
+    try {
+      await getUsage();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(server.requests
+      .filter(request => request.method === GET_ENVIRONMENT_METHOD)
+      .map(request => request.body.environmentId)
+      .sort()).toEqual(['env-b2', 'env-d2', 'env-e1', 'env-x1']);
+  });
+
+  it('retrieves a bounded number of unlisted environments per request', async () => {
+    const organization = {
+      ...acmeOrganization(),
+      organizationId: 'org-churn',
+      records: Array.from({ length: 105 }, (_, index) => ({
+        id: `r-${index}`,
+        userId: 'u-alice',
+        environmentId: `env-gone-${index}`,
+        environmentClassId: 'cls-small',
+        createdAt: '2025-01-07T09:00:00Z',
+        stoppedAt: '2025-01-07T10:00:00Z',
+      })),
+    };
+    const churn = await startMockApiServer(organization);
+    vi.stubEnv('GITPOD_BASE_URL', churn.url);
+    try {
+      const { body } = await getUsage();
+
+      expect(churn.requests.filter(request => request.method === GET_ENVIRONMENT_METHOD)).toHaveLength(100);
+      expect(body.environments).toHaveLength(100);
+      expect(body.warnings).toContainEqual(expect.objectContaining({
+        code: 'lookup_unavailable',
+        message: 'Environment details unavailable for 5 environments that were not listed',
+      }));
+    } finally {
+      await churn.close();
+    }
+  });
+
+  it('backs off and retries rate limits', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.fail(USAGE_METHOD, { status: 429, code: 'resource_exhausted', times: 2 });
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(200);
+    expect(body.usageRecords).toHaveLength(11);
+    expect(body.warnings).toEqual([]);
+    expect(server.requests.filter(request => request.method === USAGE_METHOD)).toHaveLength(5);
+  });
+
+  it('keeps the pages fetched before paging fails for good', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.fail(USAGE_METHOD, { status: 503, code: 'unavailable', after: 1 });
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(200);
+    expect(body.usageRecords).toHaveLength(5);
+    expect(body.warnings).toEqual([{
+      code: 'usage_truncated',
+      message: expect.stringContaining('truncated after page 1'),
+      organizationId: 'org-acme',
+    }]);
+    // One page, then the failing call and its three retries.
+    expect(server.requests.filter(request => request.method === USAGE_METHOD)).toHaveLength(5);
+  });
+
+  it('answers 503 when no usage could be fetched', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.fail(USAGE_METHOD, { status: 503, code: 'unavailable' });
+    const { status, body } = await getUsage();
+
+    expect(status).toBe(503);
+    expect(body.error).toContain('Could not list usage records');
+  });
+
+  it('refuses organizations without an access token', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { status } = await getUsage({ ...ACME_WINDOW, organizationId: 'org-globex' });
+
+    expect(status).toBe(403);
+  });
+
+  it('rolls up every organization with a token', async () => {
+    vi.stubEnv('ONA_ORGANIZATION_TOKENS', JSON.stringify({ 'org-globex': 'globex-token' }));
+    const { status, body } = await getUsage({ ...ACME_WINDOW, organizationId: 'all' });
+
+    expect(status).toBe(200);
+    expect([...body.organizationIds].sort()).toEqual(['org-acme', 'org-globex']);
+    expect(body.usageRecords).toHaveLength(12);
+    expect(body.accounting.countedRecords).toBe(9);
+  });
+});
+
+describe('GET /api/usage with the usage store', () => {
+  it('serves the same usage from the store and syncs a past range once', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-store-'));
+    try {
+      vi.stubEnv('ONA_USAGE_STORE', 'on');
+      vi.stubEnv('ONA_USAGE_STORE_DIR', dir);
+      const first = (await getUsage()).body as UsageResponse;
+      const second = (await getUsage()).body as UsageResponse;
+
+      expect(first.sync.mode).toBe('store');
+      expect(first.usageRecords.map(record => record.id).sort())
+        .toEqual(acmeOrganization().records.map(record => record.id).sort());
+      expect(first.accounting).toMatchObject({ countedRecords: 8, malformedRecords: 3 });
+      expect(second.usageRecords).toHaveLength(11);
+      expect(second.sync.fetchedRecords).toBe(0);
+      expect(server.requests.filter(request => request.method === USAGE_METHOD)).toHaveLength(3);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('GET /api/usage as a stream', () => {
+  beforeEach(() => {
+    vi.stubEnv('ONA_FETCH_CHUNK_DAYS', '1');
+    vi.stubEnv('ONA_FETCH_CONCURRENCY', '2');
+  });
+
+  it('streams lookups, progress and records before the result', async () => {
+    const { status, contentType, events, records } = await streamUsage();
+    const types = events.map(event => event.type);
+
+    expect(status).toBe(200);
+    expect(contentType).toContain('application/x-ndjson');
+    expect(types[0]).toBe('start');
+    expect(types).toContain('lookups');
+    expect(types).toContain('records');
+    expect(types[types.length - 1]).toBe('result');
+    const progress = events.flatMap(event => (event.type === 'progress' ? [event.progress] : []));
+    expect(progress[progress.length - 1]).toMatchObject({ organizationId: 'org-acme', completedChunks: 7, totalChunks: 7 });
+    expect(records.map(record => record.id).sort()).toEqual(acmeOrganization().records.map(record => record.id));
+  });
+
+  it('counts records that span chunks once and matches the plain response', async () => {
+    const { events, records } = await streamUsage();
+    const result = events.find(event => event.type === 'result');
+    if (result?.type !== 'result') {
+      throw new Error('missing result');
+    }
+    const data: UsageResponse = { ...result.data, usageRecords: records };
+    const users = aggregateByUser(data.usageRecords, data.members, {
+      window: data.window,
+      now: new Date(data.asOf),
+      rateCard: data.rateCard,
+    });
+
+    expect(result.data).not.toHaveProperty('usageRecords');
+    expect(data.accounting).toEqual((await getUsage()).body.accounting);
+    expect(users.reduce((sum, user) => sum + user.totalHours, 0)).toBeCloseTo(91.5);
+  });
+
+  it('streams members only their own records and lookups', async () => {
+    vi.stubEnv('ONA_AUTH', 'on');
+    vi.stubEnv('ONA_SESSION_SECRET', 'test-secret');
+    const bob = encodeSession({
+      userId: 'u-bob',
+      name: 'Bob Example',
+      email: 'bob@acme.test',
+      organizationId: 'org-acme',
+      roles: { 'org-acme': 'member' },
+    });
+    const { events, records } = await streamUsage({ ...ACME_WINDOW }, bob);
+    const lookups = events.find(event => event.type === 'lookups');
+    const progress = events.flatMap(event => (event.type === 'progress' ? [event.progress] : []));
+    const projects = events.flatMap(event => (event.type === 'records' ? event.projects : []));
+    const result = events.find(event => event.type === 'result');
+
+    expect(records.length).toBeGreaterThan(0);
+    expect(records.every((record: UsageRecord) => record.userId === 'u-bob')).toBe(true);
+    expect(lookups).toMatchObject({ members: [{ userId: 'u-bob' }] });
+    // Neither the projects nor the counts give away the usage of others.
+    expect(projects.map(project => project.projectId)).toEqual(['p-api']);
+    expect(progress[progress.length - 1].fetchedRecords).toBe(records.length);
+    expect(result).toMatchObject({ data: { projects: [{ projectId: 'p-api' }], sync: { fetchedRecords: records.length } } });
+  });
+
+  it('ends with an error event when the upstream fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.fail(USAGE_METHOD, { status: 403, code: 'permission_denied', message: 'usage access denied' });
+    const { status, events } = await streamUsage();
+    const last = events[events.length - 1];
+
+    expect(status).toBe(200);
+    expect(last).toMatchObject({ type: 'error', status: 500 });
+    expect(last.type === 'error' && last.error).toContain('usage access denied');
+  });
+});
+
+describe('normalizeRepository', () => {
+  it('reduces clone and context URLs to host and path', () => {
+    expect(normalizeRepository('https://github.com/acme/web.git')).toBe('github.com/acme/web');
+    expect(normalizeRepository('git@github.com:acme/web.git')).toBe('github.com/acme/web');
+    expect(normalizeRepository('https://GitHub.com/acme/web/pull/42')).toBe('github.com/acme/web');
+    expect(normalizeRepository('https://gitlab.com/acme/platform/api/-/tree/main')).toBe('gitlab.com/acme/platform/api');
+    expect(normalizeRepository('not a url')).toBeUndefined();
+  });
+});
+
+describe('splitWindow', () => {
+  it('cuts a window into chunks with a shorter last one', () => {
+    expect(splitWindow({ startTime: '2025-01-01T00:00:00.000Z', endTime: '2025-01-03T12:00:00.000Z' }, 24 * 60 * 60 * 1000))
+      .toEqual([
+        { startTime: '2025-01-01T00:00:00.000Z', endTime: '2025-01-02T00:00:00.000Z' },
+        { startTime: '2025-01-02T00:00:00.000Z', endTime: '2025-01-03T00:00:00.000Z' },
+        { startTime: '2025-01-03T00:00:00.000Z', endTime: '2025-01-03T12:00:00.000Z' },
+      ]);
+  });
+});